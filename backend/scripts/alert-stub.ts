@@ -0,0 +1,68 @@
+// Local stand-in for a webhook receiver and an SMTP server so alerts can be tried without real services.
+//
+//   npm run alerts:stub
+//   ADMIN_TOKEN=local-test-token ALERT_NOTIFIERS=log,webhook,email ALERT_WEBHOOK_URL=http://localhost:4010/alerts \
+//   SMTP_HOST=localhost SMTP_PORT=2525 ALERT_EMAIL_FROM=alerts@example.com ALERT_EMAIL_TO=team@example.com npm run dev
+//   curl -X POST -H "Authorization: Bearer local-test-token" http://localhost:3000/api/admin/alerts/test
+import http from 'http';
+import net from 'net';
+
+const WEBHOOK_PORT = parseInt(process.env.STUB_WEBHOOK_PORT || '4010');
+const SMTP_PORT = parseInt(process.env.STUB_SMTP_PORT || '2525');
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`[webhook] ${req.method} ${req.url} ${req.headers['x-signature-256'] || '(unsigned)'}`);
+    console.log(body);
+    res.writeHead(204).end();
+  });
+}).listen(WEBHOOK_PORT, () => console.log(`Webhook stub listening on http://localhost:${WEBHOOK_PORT}`));
+
+// Accepts any sender, recipient and credentials and prints the message
+net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let message: string[] = [];
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply('220 localhost SMTP stub');
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log(`[smtp] message received:\n${message.join('\n')}`);
+          message = [];
+          reply('250 OK queued');
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.split(' ')[0].toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250-localhost');
+        reply('250 AUTH PLAIN');
+      } else if (command === 'AUTH') {
+        reply('235 Authenticated');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('250 OK');
+      }
+    }
+  });
+  socket.on('error', () => undefined);
+}).listen(SMTP_PORT, () => console.log(`SMTP stub listening on localhost:${SMTP_PORT}`));
@@ -0,0 +1,33 @@
+import { RegressionAlert } from '../types';
+
+// Plain-text rendering shared by the log and email notifiers
+export class AlertMessage {
+  static subject(alert: RegressionAlert): string {
+    return `SEO regression on ${alert.projectName}: ${alert.reasons[0]}`;
+  }
+
+  static text(alert: RegressionAlert): string {
+    const lines = [
+      `A scheduled scan of ${alert.url} (project "${alert.projectName}") found a regression.`,
+      '',
+      ...alert.reasons.map(reason => `- ${reason}`),
+      ''
+    ];
+
+    if (alert.healthBefore !== undefined && alert.healthAfter !== undefined) {
+      lines.push(`Site health score: ${alert.healthBefore} -> ${alert.healthAfter}`);
+    }
+    lines.push(`New issues: ${alert.newIssueCount}, resolved issues: ${alert.resolvedIssueCount}`);
+
+    if (alert.newHighIssues.length > 0) {
+      lines.push('', 'New high-priority issues:');
+      alert.newHighIssues.slice(0, 20).forEach(issue => lines.push(`- ${issue.title}: ${issue.url}`));
+      if (alert.newHighIssues.length > 20) {
+        lines.push(`...and ${alert.newHighIssues.length - 20} more`);
+      }
+    }
+
+    lines.push('', `Scan: ${alert.sessionId} (previous: ${alert.previousSessionId})`);
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,22 @@
+import { RegressionAlert } from '../types';
+import { Notifier } from './Notifier';
+import { AlertMessage } from './AlertMessage';
+import { SmtpClient, SmtpOptions } from './SmtpClient';
+
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+  private client: SmtpClient;
+
+  constructor(options: SmtpOptions, private from: string, private to: string[]) {
+    this.client = new SmtpClient(options);
+  }
+
+  async send(alert: RegressionAlert): Promise<void> {
+    await this.client.send({
+      from: this.from,
+      to: this.to,
+      subject: AlertMessage.subject(alert),
+      text: AlertMessage.text(alert)
+    });
+  }
+}
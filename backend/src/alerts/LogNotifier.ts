@@ -0,0 +1,11 @@
+import { RegressionAlert } from '../types';
+import { Notifier } from './Notifier';
+import { AlertMessage } from './AlertMessage';
+
+export class LogNotifier implements Notifier {
+  readonly name = 'log';
+
+  async send(alert: RegressionAlert): Promise<void> {
+    console.warn(`[alert] ${AlertMessage.subject(alert)}\n${AlertMessage.text(alert)}`);
+  }
+}
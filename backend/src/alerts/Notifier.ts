@@ -0,0 +1,69 @@
+import { RegressionAlert } from '../types';
+import { LogNotifier } from './LogNotifier';
+import { WebhookNotifier } from './WebhookNotifier';
+import { EmailNotifier } from './EmailNotifier';
+
+export interface Notifier {
+  readonly name: string;
+  send(alert: RegressionAlert): Promise<void>;
+}
+
+// Delivers every alert through all configured channels; one failing channel does not block the others
+export class CompositeNotifier implements Notifier {
+  readonly name = 'composite';
+
+  constructor(private notifiers: Notifier[]) {}
+
+  get channels(): string[] {
+    return this.notifiers.map(notifier => notifier.name);
+  }
+
+  async send(alert: RegressionAlert): Promise<void> {
+    const results = await Promise.allSettled(this.notifiers.map(notifier => notifier.send(alert)));
+    const failures = results
+      .map((result, index) => result.status === 'rejected'
+        ? `${this.notifiers[index].name}: ${result.reason instanceof Error ? result.reason.message : result.reason}`
+        : null)
+      .filter(Boolean);
+
+    if (failures.length > 0) {
+      throw new Error(`Alert delivery failed (${failures.join('; ')})`);
+    }
+  }
+
+  // ALERT_NOTIFIERS is a comma separated list of log, webhook and email
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): CompositeNotifier {
+    const names = (env.ALERT_NOTIFIERS || 'log').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const notifiers: Notifier[] = [];
+
+    names.forEach(name => {
+      switch (name) {
+        case 'log':
+          notifiers.push(new LogNotifier());
+          break;
+        case 'webhook':
+          if (!env.ALERT_WEBHOOK_URL) {
+            throw new Error('ALERT_WEBHOOK_URL is required for the webhook notifier');
+          }
+          notifiers.push(new WebhookNotifier(env.ALERT_WEBHOOK_URL, env.ALERT_WEBHOOK_SECRET));
+          break;
+        case 'email':
+          if (!env.SMTP_HOST || !env.ALERT_EMAIL_FROM || !env.ALERT_EMAIL_TO) {
+            throw new Error('SMTP_HOST, ALERT_EMAIL_FROM and ALERT_EMAIL_TO are required for the email notifier');
+          }
+          notifiers.push(new EmailNotifier({
+            host: env.SMTP_HOST,
+            port: parseInt(env.SMTP_PORT || '587'),
+            secure: env.SMTP_SECURE === 'true',
+            user: env.SMTP_USER,
+            pass: env.SMTP_PASS
+          }, env.ALERT_EMAIL_FROM, env.ALERT_EMAIL_TO.split(',').map(to => to.trim()).filter(Boolean)));
+          break;
+        default:
+          throw new Error(`Unknown alert notifier: ${name}`);
+      }
+    });
+
+    return new CompositeNotifier(notifiers);
+  }
+}
@@ -0,0 +1,87 @@
+import { Project, QueueJob, RegressionAlert, ScanComparison as Comparison } from '../types';
+import { ScanHistory } from '../history/ScanHistory';
+import { ScanComparison } from '../history/ScanComparison';
+import { JobQueue } from '../queue/JobQueue';
+import { Notifier } from './Notifier';
+
+// Compares a finished scan with the previous run of its project and alerts on regressions
+export class RegressionMonitor {
+  private queue: JobQueue | null = null;
+
+  constructor(
+    private notifier: Notifier,
+    private healthDrop = parseInt(process.env.ALERT_HEALTH_DROP || '1') // Minimum score drop worth an alert
+  ) {}
+
+  // Checks scheduled scans as this process's queue finishes them. Each job completes on exactly one
+  // server instance, so every instance watches its own queue whether or not it runs the scheduler.
+  watch(queue: JobQueue): void {
+    if (this.queue) return;
+
+    this.queue = queue;
+    queue.on('completed', this.onJobCompleted);
+  }
+
+  unwatch(): void {
+    this.queue?.off('completed', this.onJobCompleted);
+    this.queue = null;
+  }
+
+  async checkScan(sessionId: string): Promise<RegressionAlert | null> {
+    const session = await ScanHistory.getSession(sessionId);
+    if (!session || session.status !== 'completed' || !session.project_id) return null;
+
+    const [previous, project] = await Promise.all([
+      ScanHistory.findPreviousScan(session),
+      ScanHistory.getProject(session.project_id)
+    ]);
+    if (!previous || !project) return null;
+
+    const alert = RegressionMonitor.detect(ScanComparison.compare(previous, session), project, this.healthDrop);
+    if (alert) {
+      await this.notifier.send(alert);
+      console.log(`Regression alert sent for project ${project.id} (session: ${sessionId})`);
+    }
+    return alert;
+  }
+
+  static detect(comparison: Comparison, project: Project, healthDrop: number): RegressionAlert | null {
+    const reasons: string[] = [];
+    const { base, current } = comparison;
+
+    if (base.healthScore !== undefined && current.healthScore !== undefined &&
+        base.healthScore - current.healthScore >= healthDrop) {
+      reasons.push(`Health score dropped from ${base.healthScore} to ${current.healthScore}`);
+    }
+
+    const newHighIssues = comparison.newIssues.filter(issue => issue.severity === 'high');
+    if (newHighIssues.length > 0) {
+      reasons.push(`${newHighIssues.length} new high-priority issue(s)`);
+    }
+
+    if (reasons.length === 0) return null;
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      url: project.url,
+      sessionId: current.sessionId,
+      previousSessionId: base.sessionId,
+      reasons,
+      healthBefore: base.healthScore,
+      healthAfter: current.healthScore,
+      newHighIssues,
+      newIssueCount: comparison.newIssues.length,
+      resolvedIssueCount: comparison.resolvedIssues.length,
+      detectedAt: new Date().toISOString()
+    };
+  }
+
+  private onJobCompleted = (job: QueueJob) => {
+    if (job.data.trigger !== 'schedule') return;
+
+    this.checkScan(job.data.sessionId).catch(error => {
+      console.error(`Regression check failed for session ${job.data.sessionId}:`, error);
+    });
+  };
+}
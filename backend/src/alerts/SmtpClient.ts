@@ -0,0 +1,200 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it, and required with a user
+  user?: string;
+  pass?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+// Collects multi-line replies ("250-..." continued until "250 ...") from the socket
+class ResponseReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+  private socket: net.Socket | null = null;
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.responses.push({ code: parseInt(line.slice(0, 3)), lines: this.lines.map(l => l.slice(4)) });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private onError = (error: Error) => {
+    this.error = error;
+    this.flush();
+  };
+
+  private onClose = () => {
+    this.onError(new Error('SMTP connection closed unexpectedly'));
+  };
+
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  detach(): void {
+    this.socket?.off('data', this.onData);
+    this.socket?.off('error', this.onError);
+    this.socket?.off('close', this.onClose);
+    this.socket = null;
+  }
+
+  read(): Promise<SmtpResponse> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const waiting = this.waiting;
+    if (this.responses.length > 0) {
+      this.waiting = null;
+      waiting.resolve(this.responses.shift()!);
+    } else if (this.error) {
+      this.waiting = null;
+      waiting.reject(this.error);
+    }
+  }
+}
+
+export class SmtpClient {
+  private timeout = 30000;
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    let socket = await this.connect();
+    const reader = new ResponseReader();
+    reader.attach(socket);
+
+    try {
+      await this.expect(reader, 220);
+      const features = await this.command(socket, reader, `EHLO ${os.hostname()}`, 250);
+      let encrypted = this.options.secure;
+
+      if (!encrypted && features.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await this.command(socket, reader, 'STARTTLS', 220);
+        reader.detach();
+        socket = await this.upgrade(socket);
+        reader.attach(socket);
+        await this.command(socket, reader, `EHLO ${os.hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (this.options.user) {
+        // AUTH PLAIN is only base64, so credentials never go over an unencrypted connection
+        if (!encrypted) {
+          throw new Error('SMTP server does not support STARTTLS; refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass || ''}`).toString('base64');
+        await this.command(socket, reader, `AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await this.command(socket, reader, `MAIL FROM:<${this.address(message.from)}>`, 250);
+      for (const recipient of message.to) {
+        await this.command(socket, reader, `RCPT TO:<${this.address(recipient)}>`, 250, 251);
+      }
+      await this.command(socket, reader, 'DATA', 354);
+      await this.command(socket, reader, `${this.format(message)}\r\n.`, 250);
+      await this.command(socket, reader, 'QUIT', 221).catch(() => undefined);
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(this.timeout, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: this.options.host }, () => resolve(secured));
+      secured.setTimeout(this.timeout, () => secured.destroy(new Error('SMTP connection timed out')));
+      secured.once('error', reject);
+    });
+  }
+
+  private async command(socket: net.Socket, reader: ResponseReader, line: string, ...expected: number[]): Promise<SmtpResponse> {
+    socket.write(`${line}\r\n`);
+    return this.expect(reader, ...expected);
+  }
+
+  private async expect(reader: ResponseReader, ...expected: number[]): Promise<SmtpResponse> {
+    const response = await reader.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP server replied ${response.code} ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  // Accepts both "Name <user@example.com>" and a bare address
+  private address(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return (match ? match[1] : value).trim();
+  }
+
+  private format(message: MailMessage): string {
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ];
+
+    // Lines starting with a dot are escaped so they cannot end the DATA section early
+    const body = message.text
+      .replace(/\r?\n/g, '\r\n')
+      .split('\r\n')
+      .map(line => line.startsWith('.') ? `.${line}` : line)
+      .join('\r\n');
+
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+}
@@ -0,0 +1,31 @@
+import { createHmac } from 'crypto';
+import { RegressionAlert } from '../types';
+import { Notifier } from './Notifier';
+
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+  private timeout = 10000;
+
+  constructor(private url: string, private secret?: string) {}
+
+  async send(alert: RegressionAlert): Promise<void> {
+    const body = JSON.stringify({ type: 'seo.regression', alert });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // Lets receivers verify the payload came from us
+    if (this.secret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.timeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+// Runs a scan from the command line, without the API server or a database:
+//
+//   seo-tag-helper scan https://example.com --max-pages 20 --format docx --out report.docx --fail-on high
+//
+// Exit codes: 0 when the scan passed, 1 when --fail-on found issues, 2 for bad arguments or a failed scan.
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { InputValidator } from './utils/validation';
+import { ScanData, IssueSeverity, CrawlOptions, ReportFormat } from './types';
+
+const USAGE = `Usage: seo-tag-helper scan <url> [options]
+
+Options:
+  --max-pages <n>       Maximum number of pages to scan (default 50)
+  --max-depth <n>       Maximum link depth from the start page (default 3)
+  --render <mode>       browser, static or auto (default auto)
+  --format <format>     Write a report: docx, pdf, html, json, xlsx or csv (default: from --out, else docx)
+  --out <file>          Where to write the report (default seo-report-<host>-<date>.<format>)
+  --fail-on <severity>  Exit with code 1 when any issue of this severity or worse is found: high, medium or low
+  --verbose             Log crawl progress to stderr
+  -h, --help            Show this help
+`;
+
+const FORMATS: ReportFormat[] = ['docx', 'pdf', 'html', 'json', 'xlsx', 'csv'];
+const SEVERITIES: IssueSeverity[] = ['high', 'medium', 'low'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface ScanCommand {
+  url: string;
+  crawlOptions: CrawlOptions;
+  format: ReportFormat | null;
+  out: string | null;
+  failOn: IssueSeverity | null;
+  verbose: boolean;
+}
+
+function parseCommand(argv: string[]): ScanCommand | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'max-pages': { type: 'string' },
+      'max-depth': { type: 'string' },
+      render: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      'fail-on': { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) return null;
+
+  const [command, url, ...extra] = positionals;
+  if (command !== 'scan') {
+    throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+  if (!url || extra.length > 0) {
+    throw new UsageError('Expected exactly one URL to scan');
+  }
+
+  // Unlike the API, internal hosts are allowed: CI usually audits a staging or local build
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    throw new UsageError(`Invalid URL: ${url}`);
+  }
+  if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+    throw new UsageError('Only HTTP and HTTPS URLs can be scanned');
+  }
+
+  const crawlValidation = InputValidator.validateCrawlOptions({
+    maxPages: values['max-pages'],
+    maxDepth: values['max-depth'],
+    renderMode: values.render
+  });
+  if (!crawlValidation.isValid) {
+    throw new UsageError(crawlValidation.error!);
+  }
+
+  const out = values.out || null;
+  const format = values.format || (out ? path.extname(out).slice(1).toLowerCase() || 'docx' : null);
+  if (format !== null && !FORMATS.includes(format as ReportFormat)) {
+    throw new UsageError(`--format must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const failOn = values['fail-on'] || null;
+  if (failOn !== null && !SEVERITIES.includes(failOn as IssueSeverity)) {
+    throw new UsageError(`--fail-on must be one of: ${SEVERITIES.join(', ')}`);
+  }
+
+  return {
+    url: parsedUrl.href,
+    crawlOptions: crawlValidation.sanitized,
+    format: format as ReportFormat | null,
+    out,
+    failOn: failOn as IssueSeverity | null,
+    verbose: values.verbose === true
+  };
+}
+
+async function runScan(command: ScanCommand): Promise<number> {
+  // Scans stay in this process; set before the modules below create the storage
+  process.env.STORAGE_DRIVER = 'memory';
+  // The CLI runs on the user's own machine, where scanning a local server (a preview build in CI) is the point;
+  // SCAN_ALLOW_PRIVATE_NETWORKS=false restores the server's protection
+  process.env.SCAN_ALLOW_PRIVATE_NETWORKS = process.env.SCAN_ALLOW_PRIVATE_NETWORKS || 'true';
+  const { storage } = await import('./storage/Storage');
+  const { LightweightScraper } = await import('./scraper/LightweightScraper');
+
+  const session = await storage.sessions.create({ url: command.url, brandColors: {} });
+  await new LightweightScraper().scanWebsite(command.url, session.id, command.crawlOptions);
+
+  const result = await storage.sessions.get(session.id);
+  if (result?.status !== 'completed') {
+    console.error(`Scan failed: ${result?.scan_data?.error || 'unknown error'}`);
+    return 2;
+  }
+
+  const scanData = result.scan_data;
+  process.stdout.write(formatSummary(command.url, scanData));
+
+  if (command.format) {
+    const out = command.out || `seo-report-${new URL(command.url).hostname}-${new Date().toISOString().split('T')[0]}.${command.format}`;
+    await fs.writeFile(out, await renderReport(command.format, session.id));
+    process.stdout.write(`\nReport written to ${out}\n`);
+  }
+
+  if (command.failOn) {
+    const threshold = SEVERITIES.indexOf(command.failOn);
+    const failing = scanData.pages
+      .flatMap(page => page.issues)
+      .filter(issue => SEVERITIES.indexOf(issue.severity) <= threshold);
+
+    if (failing.length > 0) {
+      console.error(`\nFailed: ${failing.length} issue(s) of ${command.failOn} severity or worse`);
+      return 1;
+    }
+  }
+
+  return 0;
+}
+
+// CSV holds the pages sheet; the XLSX workbook also has the images sheet
+async function renderReport(format: ReportFormat, sessionId: string): Promise<Buffer> {
+  const { ReportGenerator } = await import('./report/ReportGenerator');
+  const generator = new ReportGenerator();
+  const { reportId } = await generator.generateReport(sessionId, undefined, { format });
+  const buffer = await generator.getReport(reportId);
+  if (!buffer) {
+    throw new Error('Report was not generated');
+  }
+  return buffer;
+}
+
+function formatSummary(url: string, scanData: ScanData): string {
+  const lines = [
+    `SEO scan of ${url}`,
+    `Health score: ${scanData.health ? `${scanData.health.score}/100` : 'n/a'}`,
+    `Pages scanned: ${scanData.pagesProcessed}  Skipped: ${scanData.pagesSkipped}  Errors: ${scanData.errors.length}`,
+    ''
+  ];
+
+  const issues = scanData.issueSummary || [];
+  if (issues.length === 0) {
+    lines.push('No issues found.');
+  } else {
+    lines.push(...formatTable(
+      ['Issue', 'Severity', 'Pages'],
+      issues.map(issue => [issue.title, issue.severity, String(issue.pageCount)])
+    ));
+  }
+
+  // The pages most worth a look first
+  const worstPages = [...scanData.pages].sort((a, b) => a.score - b.score).slice(0, 10);
+  if (worstPages.length > 0) {
+    lines.push('', ...formatTable(
+      ['Page', 'Score', 'Issues'],
+      worstPages.map(page => [page.url, String(page.score), String(page.issues.length)])
+    ));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, column) =>
+    Math.min(80, Math.max(header.length, ...rows.map(row => row[column].length))));
+  const format = (cells: string[]) => cells
+    .map((cell, column) => {
+      const text = cell.length > widths[column] ? `${cell.slice(0, widths[column] - 1)}…` : cell;
+      return text.padEnd(widths[column]);
+    })
+    .join('  ')
+    .trimEnd();
+
+  return [format(headers), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)];
+}
+
+async function main(): Promise<number> {
+  let command: ScanCommand | null;
+  try {
+    command = parseCommand(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (!command) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  // The scraper logs every page; keep stdout for the summary
+  const log = console.log;
+  console.log = command.verbose ? console.error : () => undefined;
+  try {
+    return await runScan(command);
+  } finally {
+    console.log = log;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Scan failed:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,53 @@
+import { EventEmitter } from 'events';
+import { ScanEvent, ScanEventPayload } from '../types';
+
+const HISTORY_LIMIT = 200;
+const HISTORY_TTL_MS = 10 * 60 * 1000;
+
+// In-process fan-out of scan events to open SSE connections, with a short replay log for clients that
+// connect late or reconnect. Scans run by another process (a separate Postgres queue worker) never reach
+// this bus; their streams fall back to the status snapshots the server reads from the database.
+export class ScanEventBus {
+  private emitter = new EventEmitter();
+  private history: Map<string, { events: ScanEvent[]; expiry: NodeJS.Timeout }> = new Map();
+  private nextId = 1;
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(sessionId: string, payload: ScanEventPayload): ScanEvent {
+    const event = { ...payload, id: this.nextId++, timestamp: new Date().toISOString() } as ScanEvent;
+
+    const log = this.history.get(sessionId);
+    const events = log ? log.events : [];
+    if (log) clearTimeout(log.expiry);
+    events.push(event);
+    if (events.length > HISTORY_LIMIT) {
+      events.shift();
+    }
+
+    // Forget the log once the scan has been quiet for a while
+    const expiry = setTimeout(() => this.history.delete(sessionId), HISTORY_TTL_MS);
+    expiry.unref();
+    this.history.set(sessionId, { events, expiry });
+
+    this.emitter.emit(sessionId, event);
+    return event;
+  }
+
+  // Logged events newer than lastEventId, oldest first
+  since(sessionId: string, lastEventId = 0): ScanEvent[] {
+    return (this.history.get(sessionId)?.events || []).filter(event => event.id > lastEventId);
+  }
+
+  subscribe(sessionId: string, listener: (event: ScanEvent) => void): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+}
+
+export const scanEvents = new ScanEventBus();
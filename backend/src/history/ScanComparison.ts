@@ -0,0 +1,68 @@
+import { ScanData, ScanSession, ScanComparison as Comparison, ComparedIssue, MetadataChange, IssueSeverity } from '../types';
+import { ScanHistory } from './ScanHistory';
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+type Page = ScanData['pages'][number];
+
+export class ScanComparison {
+  static compare(base: ScanSession, current: ScanSession): Comparison {
+    const basePages = new Map(base.scan_data.pages.map(page => [page.url, page]));
+    const currentPages = new Map(current.scan_data.pages.map(page => [page.url, page]));
+
+    const pagesAdded = Array.from(currentPages.keys()).filter(url => !basePages.has(url));
+    const pagesRemoved = Array.from(basePages.keys()).filter(url => !currentPages.has(url));
+
+    const baseIssues = this.issueMap(base.scan_data.pages);
+    const currentIssues = this.issueMap(current.scan_data.pages);
+
+    const newIssues = Array.from(currentIssues.entries())
+      .filter(([key]) => !baseIssues.has(key))
+      .map(([, issue]) => issue);
+
+    // A page that disappeared did not fix its issues, so only pages in both scans can resolve one
+    const resolvedIssues = Array.from(baseIssues.entries())
+      .filter(([key, issue]) => !currentIssues.has(key) && currentPages.has(issue.url))
+      .map(([, issue]) => issue);
+
+    const metadataChanges: MetadataChange[] = [];
+    currentPages.forEach((page, url) => {
+      const previous = basePages.get(url);
+      if (!previous) return;
+      (['title', 'metaDescription'] as const).forEach(field => {
+        if ((previous[field] || '') !== (page[field] || '')) {
+          metadataChanges.push({ url, field, before: previous[field] || '', after: page[field] || '' });
+        }
+      });
+    });
+
+    return {
+      base: ScanHistory.toEntry(base),
+      current: ScanHistory.toEntry(current),
+      newIssues: this.sortIssues(newIssues),
+      resolvedIssues: this.sortIssues(resolvedIssues),
+      pagesAdded,
+      pagesRemoved,
+      metadataChanges
+    };
+  }
+
+  private static issueMap(pages: Page[]): Map<string, ComparedIssue> {
+    const issues = new Map<string, ComparedIssue>();
+    pages.forEach(page => {
+      (page.issues || []).forEach(issue => {
+        issues.set(`${page.url} ${issue.ruleId}`, {
+          url: page.url,
+          ruleId: issue.ruleId,
+          title: issue.title,
+          severity: issue.severity
+        });
+      });
+    });
+    return issues;
+  }
+
+  private static sortIssues(issues: ComparedIssue[]): ComparedIssue[] {
+    return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.url.localeCompare(b.url));
+  }
+}
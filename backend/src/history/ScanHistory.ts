@@ -0,0 +1,117 @@
+import { storage, ProjectRow } from '../storage/Storage';
+import { Project, ProjectScanOptions, ScanHistoryEntry, ScanSession, ScanStatus, CrawlState, BrandColors } from '../types';
+import { CronExpression } from '../schedule/CronExpression';
+
+const MAX_HISTORY = 100;
+
+export class ScanHistory {
+  static async listProjects(): Promise<Project[]> {
+    const rows = await storage.projects.list();
+    return rows.map(row => this.toProject(row));
+  }
+
+  static async getProject(projectId: string): Promise<Project | null> {
+    const row = await storage.projects.get(projectId);
+    return row ? this.toProject(row) : null;
+  }
+
+  static async createProject(name: string, url: string): Promise<Project> {
+    return this.toProject(await storage.projects.create(name, url));
+  }
+
+  static async listScheduledProjects(): Promise<Array<{ project: Project; scanOptions: ProjectScanOptions }>> {
+    const rows = await storage.projects.listScheduled();
+    return rows.map(row => ({ project: this.toProject(row), scanOptions: row.scan_options || {} }));
+  }
+
+  static async updateSchedule(projectId: string, schedule: string | null, scanOptions: ProjectScanOptions): Promise<Project> {
+    const row = await storage.projects.update(projectId, {
+      schedule,
+      scan_options: scanOptions,
+      // Start counting from now so a new schedule does not fire for runs it "missed"
+      last_scheduled_at: new Date().toISOString()
+    });
+
+    if (!row) {
+      throw new Error('Failed to update schedule: project not found');
+    }
+
+    return this.toProject(row);
+  }
+
+  // Records a scheduled run unless another server instance already recorded one since `project` was read
+  static async claimScheduledRun(project: Project, at: Date): Promise<boolean> {
+    return storage.projects.claimScheduledRun(project.id, project.lastScheduledAt || null, at.toISOString());
+  }
+
+  // Scans saved to a project are kept for history instead of expiring
+  static async createSession(url: string, brandColors: Partial<BrandColors> = {}, projectId?: string): Promise<ScanSession> {
+    return storage.sessions.create({ url, brandColors, projectId });
+  }
+
+  // Only moves a session that is still in one of the expected states, so concurrent requests cannot both win.
+  // Any pending pause/cancel request is cleared; crawlState is left alone when undefined.
+  static async transition(sessionId: string, from: ScanStatus[], to: ScanStatus, crawlState?: CrawlState | null): Promise<boolean> {
+    return storage.sessions.transition(sessionId, from, {
+      status: to,
+      control: null,
+      ...(crawlState !== undefined ? { crawl_state: crawlState } : {})
+    });
+  }
+
+  // For sessions that never made it into the queue
+  static async deleteSession(sessionId: string): Promise<void> {
+    await storage.sessions.delete(sessionId);
+  }
+
+  // Newest first
+  static async listScans(projectId: string): Promise<ScanHistoryEntry[]> {
+    return storage.sessions.listByProject(projectId, MAX_HISTORY);
+  }
+
+  static async getSession(sessionId: string): Promise<ScanSession | null> {
+    return storage.sessions.get(sessionId);
+  }
+
+  // The most recent completed scan of the same project that ran before this one
+  static async findPreviousScan(session: ScanSession): Promise<ScanSession | null> {
+    return storage.sessions.findPrevious(session);
+  }
+
+  // Scheduled runs are counted from the last one, or from project creation
+  static scheduleBase(project: Project): Date {
+    return new Date(project.lastScheduledAt || project.createdAt);
+  }
+
+  static toEntry(session: ScanSession): ScanHistoryEntry {
+    return {
+      sessionId: session.id,
+      status: session.status,
+      createdAt: session.created_at,
+      completedAt: session.scan_data?.completedAt,
+      pagesProcessed: session.scan_data?.pagesProcessed || 0,
+      healthScore: session.scan_data?.health?.score
+    };
+  }
+
+  private static toProject(row: ProjectRow): Project {
+    const project: Project = {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      createdAt: row.created_at,
+      schedule: row.schedule || null,
+      lastScheduledAt: row.last_scheduled_at || undefined
+    };
+
+    if (project.schedule) {
+      try {
+        project.nextRunAt = CronExpression.parse(project.schedule).next(this.scheduleBase(project)).toISOString();
+      } catch (e) {
+        // Leave nextRunAt unset for expressions that no longer parse
+      }
+    }
+
+    return project;
+  }
+}
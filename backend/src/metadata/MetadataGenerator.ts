@@ -0,0 +1,220 @@
+import { PageContent } from '../types';
+import { KeyPhrase } from './SiteCorpus';
+import { PixelWidth } from './PixelWidth';
+import { TextAnalysis } from './TextAnalysis';
+
+// Google shows titles in 20px Arial cut off around 600px, and snippets in 14px Arial around 920px
+const TITLE_FONT_SIZE = 20;
+const TITLE_MAX_WIDTH = 600;
+const DESCRIPTION_FONT_SIZE = 14;
+const DESCRIPTION_MAX_WIDTH = 920;
+
+// Pages with less main text than this have no meaningful key phrase. A keyword has to recur on the
+// page, single words more often than phrases since on their own they are less specific.
+const MIN_KEYWORD_WORDS = 30;
+const MIN_PHRASE_COUNT = 2;
+const MIN_WORD_COUNT = 3;
+
+// Sentences earlier on the page summarize it better; this is the weight lost per position
+const POSITION_DECAY = 0.03;
+const MIN_POSITION_WEIGHT = 0.6;
+
+// Lowercase words kept that way in Title Case
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'vs', 'via', 'with']);
+
+export interface MetadataSource {
+  url: string;
+  title: string;
+  metaDescription: string;
+  h1?: string;
+  content?: PageContent;
+  keyPhrases: KeyPhrase[];
+  siteName: string;
+}
+
+// Titles and descriptions written from the page's own content: no templates and no external service
+export class MetadataGenerator {
+  // "H1 – Primary Keyword | Site Name", dropping the keyword, then the site name, until it fits. A
+  // title that would be shorter than the minimum is padded with what else the page offers, so the
+  // recommendation passes the title length rule whenever the page has enough to say.
+  static title(source: MetadataSource, limits: Record<string, number>): string {
+    const siteName = source.siteName;
+    const name = this.clean(source.h1 || '') ||
+      this.pageName(source.title, siteName) ||
+      this.keywordText(this.primaryKeyword(source), source.content) ||
+      this.nameFromUrl(source.url) ||
+      siteName ||
+      this.hostname(source.url);
+    if (!name) return '';
+
+    const brand = siteName && !this.contains(name, siteName) ? ` | ${siteName}` : '';
+    const exclude = [name, siteName];
+    const qualify = (qualifier: string) => qualifier ? `${name} – ${qualifier}` : '';
+    const keyword = qualify(this.keywordText(this.primaryKeyword(source, exclude), source.content));
+
+    // Padding, from most to least natural: the title's own wording when the name came from the H1, the
+    // first sentence of the page, any phrase of the page, and the domain for sites with no name
+    const pads = [
+      source.h1 ? qualify(this.distinct(this.pageName(source.title, siteName), exclude)) : '',
+      qualify(this.distinct(this.leadClause(source, name), exclude)),
+      qualify(this.keywordText(this.primaryKeyword(source, exclude, false), source.content)),
+      siteName ? '' : this.distinct(this.hostname(source.url), [name]) && `${name} | ${this.hostname(source.url)}`
+    ];
+
+    const candidates = Array.from(new Set([
+      keyword && `${keyword}${brand}`,
+      `${name}${brand}`,
+      keyword,
+      name,
+      ...pads.filter(Boolean).flatMap(pad => [`${pad}${brand}`, pad])
+    ].filter(Boolean)));
+
+    const fitting = candidates.filter(candidate => candidate.length <= limits.max && PixelWidth.fits(candidate, TITLE_MAX_WIDTH, TITLE_FONT_SIZE));
+    const longest = fitting.reduce((best, candidate) => candidate.length > best.length ? candidate : best, '');
+    return fitting.find(candidate => candidate.length >= limits.min) || longest || this.fitTitle(name, limits);
+  }
+
+  // The sentences closest to what the page is about, in page order, as many as fit
+  static description(source: MetadataSource, limits: Record<string, number>): string {
+    const sentences = source.content?.sentences || [];
+    const weights = new Map(source.keyPhrases.filter(({ phrase }) => !phrase.includes(' ')).map(({ phrase, weight }) => [phrase, weight]));
+    const fits = (text: string) => text.length <= limits.max && PixelWidth.fits(text, DESCRIPTION_MAX_WIDTH, DESCRIPTION_FONT_SIZE);
+
+    const ranked = sentences
+      .map((sentence, index) => ({ sentence, index, score: this.representativeness(sentence, weights) * Math.max(MIN_POSITION_WEIGHT, 1 - index * POSITION_DECAY) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    // Best sentences first, skipping any that would overflow, until the description is long enough
+    const join = (picked: typeof ranked) => picked.map(({ sentence }) => sentence).join(' ');
+    let chosen: typeof ranked = [];
+    for (const candidate of ranked) {
+      const next = [...chosen, candidate].sort((a, b) => a.index - b.index);
+      if (!fits(join(next))) continue;
+      chosen = next;
+      if (join(chosen).length >= limits.min) break;
+    }
+
+    if (chosen.length > 0) {
+      return join(chosen);
+    }
+
+    // Nothing fits whole: shorten the best sentence, what the page already has or, on pages too thin
+    // for full sentences, whatever text it has
+    const fallback = ranked[0]?.sentence ||
+      this.clean(source.metaDescription) ||
+      this.lead(source) ||
+      this.clean(source.h1 || '') ||
+      this.clean(source.title) ||
+      this.nameFromUrl(source.url) ||
+      this.hostname(source.url);
+    return PixelWidth.truncate(fallback, DESCRIPTION_MAX_WIDTH, DESCRIPTION_FONT_SIZE, limits.max);
+  }
+
+  // The highest-weighted phrase not already in the given text (plural or not). Unless only padding is
+  // asked for, it has to recur on a page with enough text to tell.
+  private static primaryKeyword(source: MetadataSource, exclude: string[] = [], recurring = true): string {
+    const content = source.content;
+    if (!content || (recurring && content.wordCount < MIN_KEYWORD_WORDS)) return '';
+
+    const keyPhrase = source.keyPhrases.find(({ phrase }) =>
+      (!recurring || content.terms[phrase] >= (phrase.includes(' ') ? MIN_PHRASE_COUNT : MIN_WORD_COUNT)) &&
+      !exclude.some(text => this.contains(text, phrase.replace(/s$/, ''))));
+    return keyPhrase?.phrase || '';
+  }
+
+  // The keyword as the page spells it (keeping "SEO" or "iPhone"), in Title Case
+  private static keywordText(keyword: string, content?: PageContent): string {
+    if (!keyword) return '';
+    for (const sentence of content?.sentences || []) {
+      const index = sentence.toLowerCase().indexOf(keyword);
+      if (index >= 0) {
+        return this.titleCase(sentence.slice(index, index + keyword.length));
+      }
+    }
+    return this.titleCase(keyword);
+  }
+
+  // Cosine similarity between the sentence's words and the page's word weights
+  private static representativeness(sentence: string, weights: Map<string, number>): number {
+    const counts = new Map<string, number>();
+    TextAnalysis.tokenize(sentence).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+    let dot = 0;
+    let sentenceNorm = 0;
+    counts.forEach((count, word) => {
+      dot += count * (weights.get(word) || 0);
+      sentenceNorm += count * count;
+    });
+    const pageNorm = Math.sqrt(Array.from(weights.values()).reduce((sum, weight) => sum + weight * weight, 0));
+    return dot > 0 ? dot / (Math.sqrt(sentenceNorm) * pageNorm) : 0;
+  }
+
+  // The start of the main text, without the H1 it usually opens with
+  private static lead(source: MetadataSource): string {
+    const lead = this.clean(source.content?.lead || '');
+    const h1 = this.clean(source.h1 || '');
+    return h1 && lead.toLowerCase().startsWith(h1.toLowerCase()) ? lead.slice(h1.length).trim() : lead;
+  }
+
+  // The lead's first sentence without closing punctuation, leaving out the name it may repeat
+  private static leadClause(source: MetadataSource, name: string): string {
+    const first = TextAnalysis.sentences(this.lead(source))[0] || '';
+    const clause = this.contains(first, name) ? '' : first;
+    return clause.replace(/[\s.!?:;,]+$/, '');
+  }
+
+  // Empty when the text repeats any of the given text
+  private static distinct(text: string, exclude: string[]): string {
+    return text && !exclude.some(other => other && (this.contains(other, text) || this.contains(text, other))) ? text : '';
+  }
+
+  // The current title without the site name, e.g. "Pricing" from "Pricing | Acme"
+  private static pageName(title: string, siteName: string): string {
+    const cleaned = this.clean(title);
+    if (!siteName) return cleaned;
+
+    const escaped = siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return cleaned
+      .replace(new RegExp(`\\s*[|–—·•:-]\\s*${escaped}$`, 'i'), '')
+      .replace(new RegExp(`^${escaped}\\s*[|–—·•:-]\\s*`, 'i'), '')
+      .trim();
+  }
+
+  // "/services/roof-repair" becomes "Roof Repair"; the home page has no name in its URL
+  private static nameFromUrl(url: string): string {
+    try {
+      const segment = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() || '').replace(/\.[a-z0-9]+$/i, '');
+      return this.titleCase(segment.replace(/[-_+]+/g, ' ').trim());
+    } catch (error) {
+      return '';
+    }
+  }
+
+  private static hostname(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch (error) {
+      return '';
+    }
+  }
+
+  private static fitTitle(text: string, limits: Record<string, number>): string {
+    return text ? PixelWidth.truncate(text, TITLE_MAX_WIDTH, TITLE_FONT_SIZE, limits.max) : '';
+  }
+
+  private static titleCase(text: string): string {
+    return text
+      .split(/\s+/)
+      .map((word, index) => index > 0 && MINOR_WORDS.has(word.toLowerCase()) ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private static contains(text: string, part: string): boolean {
+    return text.toLowerCase().includes(part.toLowerCase());
+  }
+
+  private static clean(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,58 @@
+// Advance widths of Arial, the font Google renders result titles and snippets in, per 1000 units of font size
+const ARIAL_WIDTHS: Record<string, number> = {
+  ' ': 278, '!': 278, '"': 355, '#': 556, '$': 556, '%': 889, '&': 667, '\'': 191, '(': 333, ')': 333,
+  '*': 389, '+': 584, ',': 278, '-': 333, '.': 278, '/': 278, ':': 278, ';': 278, '<': 584, '=': 584,
+  '>': 584, '?': 556, '@': 1015, '[': 278, '\\': 278, ']': 278, '^': 469, '_': 556, '`': 333, '{': 334,
+  '|': 260, '}': 334, '~': 584, '–': 556, '—': 1000, '…': 1000, '·': 278, '‘': 222, '’': 222, '“': 333,
+  '”': 333, '•': 350, '©': 737, '®': 737, '™': 1000,
+  A: 667, B: 667, C: 722, D: 722, E: 667, F: 611, G: 778, H: 722, I: 278, J: 500, K: 667, L: 556, M: 833,
+  N: 722, O: 778, P: 667, Q: 778, R: 722, S: 667, T: 611, U: 722, V: 667, W: 944, X: 667, Y: 667, Z: 611,
+  a: 556, b: 556, c: 500, d: 556, e: 556, f: 278, g: 556, h: 556, i: 222, j: 222, k: 500, l: 222, m: 833,
+  n: 556, o: 556, p: 556, q: 556, r: 333, s: 500, t: 278, u: 556, v: 500, w: 722, x: 500, y: 500, z: 500
+};
+
+// Digits share one width; wide scripts (CJK, Hangul, fullwidth forms) take a full em
+const DIGIT_WIDTH = 556;
+const WIDE_WIDTH = 1000;
+const DEFAULT_WIDTH = 556;
+const WIDE_CHARACTERS = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+// Estimates how wide text renders in a search result, since results are cut off by pixels rather than characters
+export class PixelWidth {
+  static measure(text: string, fontSize: number): number {
+    let units = 0;
+    for (const char of text) {
+      units += ARIAL_WIDTHS[char]
+        ?? (/[0-9]/.test(char) ? DIGIT_WIDTH : WIDE_CHARACTERS.test(char) ? WIDE_WIDTH : DEFAULT_WIDTH);
+    }
+    return (units * fontSize) / 1000;
+  }
+
+  static fits(text: string, maxWidth: number, fontSize: number): boolean {
+    return this.measure(text, fontSize) <= maxWidth;
+  }
+
+  // Cuts at the last word boundary that fits, with an ellipsis when anything was dropped
+  static truncate(text: string, maxWidth: number, fontSize: number, maxLength = Infinity): string {
+    if (text.length <= maxLength && this.fits(text, maxWidth, fontSize)) {
+      return text;
+    }
+
+    const words = text.split(/\s+/);
+    let result = '';
+    for (const word of words) {
+      const candidate = result ? `${result} ${word}` : word;
+      if (candidate.length + 1 > maxLength || !this.fits(`${candidate}…`, maxWidth, fontSize)) break;
+      result = candidate;
+    }
+
+    // A single word wider than the limit is cut mid-word
+    if (!result) {
+      for (const char of text) {
+        if (result.length + 2 > maxLength || !this.fits(`${result}${char}…`, maxWidth, fontSize)) break;
+        result += char;
+      }
+    }
+    return `${result.replace(/[\s,;:–—-]+$/, '')}…`;
+  }
+}
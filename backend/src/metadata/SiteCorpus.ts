@@ -0,0 +1,115 @@
+import { PageContent } from '../types';
+
+export interface KeyPhrase {
+  phrase: string;
+  weight: number;
+}
+
+// Longer phrases are more specific than the words they contain, so they are preferred at similar frequency
+const PHRASE_LENGTH_BOOST = [1, 1.5, 1.8];
+
+// Separators sites put between a page name and the site name in titles
+const TITLE_SEPARATOR = /\s+[|–—·•:-]\s+|\s*[|–—·•]\s*/;
+
+// Title segments shared by at least this share of pages are taken as the site name
+const SITE_NAME_MIN_SHARE = 0.4;
+const MAX_SITE_NAME_WORDS = 5;
+
+// The content of every page scanned so far. Phrase weights are TF-IDF over these pages, so words
+// that appear everywhere on the site (product name, boilerplate) rank below what a page is about.
+export class SiteCorpus {
+  private pages = new Map<string, PageContent>();
+  private documentFrequency = new Map<string, number>();
+
+  constructor(pages: Record<string, PageContent> = {}) {
+    Object.entries(pages).forEach(([url, content]) => this.add(url, content));
+  }
+
+  add(url: string, content: PageContent): void {
+    this.remove(url);
+    this.pages.set(url, content);
+    Object.keys(content.terms).forEach(term => {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    });
+  }
+
+  get(url: string): PageContent | undefined {
+    return this.pages.get(url);
+  }
+
+  // For the crawl state of a paused scan
+  toJSON(): Record<string, PageContent> {
+    return Object.fromEntries(this.pages);
+  }
+
+  // Phrases of a page by TF-IDF weight, highest first
+  keyPhrases(url: string): KeyPhrase[] {
+    const content = this.pages.get(url);
+    if (!content || content.wordCount === 0) return [];
+
+    return Object.entries(content.terms)
+      .map(([phrase, count]) => {
+        const termFrequency = count / content.wordCount;
+        const inverseDocumentFrequency = Math.log((1 + this.pages.size) / (1 + (this.documentFrequency.get(phrase) || 0))) + 1;
+        const words = phrase.split(' ').length;
+        return { phrase, weight: termFrequency * inverseDocumentFrequency * PHRASE_LENGTH_BOOST[words - 1] };
+      })
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  // The name a site declares (og:site_name, application-name) or, failing that, the title segment
+  // most pages share, as in "Pricing | Acme" and "About us | Acme"
+  siteName(): string {
+    const declared = this.mostCommon(Array.from(this.pages.values()).map(page => page.siteName).filter(Boolean));
+    if (declared) return declared.value;
+
+    const titles = Array.from(this.pages.values()).map(page => page.title).filter(Boolean);
+    const segmented = titles
+      .map(title => title.split(TITLE_SEPARATOR).map(part => part.trim()).filter(Boolean))
+      .filter(parts => parts.length > 1);
+    const isName = (segment: string) => segment.split(/\s+/).length <= MAX_SITE_NAME_WORDS;
+
+    // A lone page has no other title to compare with, so its last segment is the best guess
+    if (titles.length === 1) {
+      const last = segmented[0]?.[segmented[0].length - 1];
+      return last && isName(last) ? last : '';
+    }
+
+    const shared = this.mostCommon(segmented
+      .flatMap(parts => Array.from(new Set([parts[0], parts[parts.length - 1]])))
+      .filter(isName));
+    return shared && shared.count >= 2 && shared.count >= titles.length * SITE_NAME_MIN_SHARE ? shared.value : '';
+  }
+
+  private remove(url: string): void {
+    const previous = this.pages.get(url);
+    if (!previous) return;
+
+    Object.keys(previous.terms).forEach(term => {
+      const count = (this.documentFrequency.get(term) || 1) - 1;
+      if (count > 0) {
+        this.documentFrequency.set(term, count);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    });
+    this.pages.delete(url);
+  }
+
+  // Case-insensitive; returns the first spelling seen
+  private mostCommon(values: string[]): { value: string; count: number } | null {
+    const counts = new Map<string, { value: string; count: number }>();
+    values.forEach(value => {
+      const key = value.toLowerCase();
+      const entry = counts.get(key) || { value, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+
+    let best: { value: string; count: number } | null = null;
+    for (const entry of counts.values()) {
+      if (!best || entry.count > best.count) best = entry;
+    }
+    return best;
+  }
+}
@@ -0,0 +1,104 @@
+import { PageContent } from '../types';
+
+// Common English function words and interface words (menu, click, ...); they never start or end a key phrase
+const STOP_WORDS = new Set(`
+a about above after again against all also am an and any are aren't as at be because been before being below
+between both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during each etc
+few for from further get gets got had hadn't has hasn't have haven't having he her here hers herself him himself
+his how however i if in into is isn't it it's its itself just let's like may me might more most much must my
+myself need no nor not now of off on once only or other ought our ours ourselves out over own per please same
+shall she should shouldn't so some such than that that's the their theirs them themselves then there there's
+these they this those through to too under until up upon us use used using very via was wasn't we we're were
+weren't what what's when where which while who whom whose why will with within without won't would wouldn't
+yet you you're your yours yourself yourselves one two three new see read find click here learn back home next
+previous menu skip content cookie cookies
+`.trim().split(/\s+/));
+
+// Bounds on what is kept per page, so a paused scan's saved state stays small
+const MAX_SINGLE_TERMS = 60;
+const MAX_PHRASES = 40;
+const MAX_SENTENCES = 40;
+const MIN_SENTENCE_LENGTH = 40;
+const MAX_SENTENCE_LENGTH = 320;
+const MIN_SENTENCE_WORDS = 6;
+const MAX_LEAD_LENGTH = 300;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export class TextAnalysis {
+  // Lowercased words; apostrophes are normalized so "don’t" and "don't" match
+  static tokenize(text: string): string[] {
+    return (text.toLowerCase().match(WORD_PATTERN) || []).map(word => word.replace(/’/g, '\''));
+  }
+
+  static isStopWord(word: string): boolean {
+    return STOP_WORDS.has(word);
+  }
+
+  // Sentences within each line of the main text; lines never run into each other
+  static sentences(text: string): string[] {
+    return text
+      .split('\n')
+      .flatMap(line => line.split(/(?<=[.!?])\s+(?=["“(]?[\p{Lu}\p{N}])/u))
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+  }
+
+  // Runs of one to three words that neither start nor end with a stop word. Single words must
+  // have three or more letters and not be numbers.
+  static phrases(tokens: string[]): string[] {
+    const phrases: string[] = [];
+    tokens.forEach((word, start) => {
+      if (this.isStopWord(word)) return;
+      for (let length = 1; length <= 3 && start + length <= tokens.length; length++) {
+        const last = tokens[start + length - 1];
+        if (this.isStopWord(last) || /^\d+$/.test(last)) continue;
+        if (length === 1 && (word.length < 3 || /^\d+$/.test(word))) continue;
+        phrases.push(tokens.slice(start, start + length).join(' '));
+      }
+    });
+    return phrases;
+  }
+
+  // Reduces a page's main text to phrase counts and description candidates
+  static summarize(mainText: string, title: string, siteName: string): PageContent {
+    const allSentences = this.sentences(mainText);
+    const counts = new Map<string, number>();
+    let wordCount = 0;
+
+    // Phrases are counted per sentence so none spans two blocks
+    allSentences.forEach(sentence => {
+      const tokens = this.tokenize(sentence);
+      wordCount += tokens.length;
+      this.phrases(tokens).forEach(phrase => counts.set(phrase, (counts.get(phrase) || 0) + 1));
+    });
+
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    const singles = ranked.filter(([phrase]) => !phrase.includes(' ')).slice(0, MAX_SINGLE_TERMS);
+    const phrases = ranked.filter(([phrase, count]) => phrase.includes(' ') && count > 1).slice(0, MAX_PHRASES);
+
+    // Full sentences only: headings, labels and menu items have no closing punctuation
+    const sentences = allSentences
+      .filter(sentence =>
+        sentence.length >= MIN_SENTENCE_LENGTH &&
+        sentence.length <= MAX_SENTENCE_LENGTH &&
+        /[.!?]["”)]?$/.test(sentence) &&
+        this.tokenize(sentence).length >= MIN_SENTENCE_WORDS)
+      .slice(0, MAX_SENTENCES);
+
+    // Cut at a word boundary so the lead never ends in half a word
+    const text = mainText.replace(/\s+/g, ' ').trim();
+    const lead = text.length > MAX_LEAD_LENGTH
+      ? text.slice(0, MAX_LEAD_LENGTH + 1).replace(/\s+\S*$/, '')
+      : text;
+
+    return {
+      title,
+      siteName,
+      terms: Object.fromEntries([...singles, ...phrases]),
+      wordCount,
+      sentences,
+      lead
+    };
+  }
+}
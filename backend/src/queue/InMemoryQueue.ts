@@ -1,17 +1,37 @@
+import { EventEmitter } from 'events';
 import { QueueJob, ScanJob } from '../types';
 import { LightweightScraper } from '../scraper/LightweightScraper';
+import { storage } from '../storage/Storage';
+import { JobQueue, QueueStats, QueueFullError } from './JobQueue';
 
-export class InMemoryQueue {
-  private queue: Map<string, QueueJob> = new Map();
-  private processing = false;
-  private maxConcurrent = 1; // Single job at a time for free tier
-  private scraper: LightweightScraper;
+const INTERRUPTED_SCAN_DATA = {
+  error: 'Scan interrupted by a server restart',
+  pages: [],
+  totalPages: 0,
+  pagesProcessed: 0,
+  pagesSkipped: 0,
+  errors: []
+};
 
-  constructor() {
-    this.scraper = new LightweightScraper();
-  }
+// Jobs live in process memory and are lost on restart; use PostgresQueue in production
+export class InMemoryQueue extends EventEmitter implements JobQueue {
+  readonly driver = 'memory';
+  private queue: Map<string, QueueJob> = new Map();
+  private stopped = false;
+  private activeWorkers = 0;
+  private concurrency = Math.max(1, parseInt(process.env.QUEUE_CONCURRENCY || '2'));
+  private maxLength = parseInt(process.env.QUEUE_MAX_LENGTH || '100');
+  // Idle scrapers; a worker holds one for as long as it runs so crawl state is never shared between scans
+  private scrapers: LightweightScraper[] = [];
+  // Dispatch tick at which each client last had a job started, for round-robin
+  private lastServed: Map<string, number> = new Map();
+  private dispatches = 0;
   
   async add(jobData: ScanJob): Promise<string> {
+    if (this.pendingJobs().length >= this.maxLength) {
+      throw new QueueFullError(this.maxLength);
+    }
+    
     const jobId = crypto.randomUUID();
     
     this.queue.set(jobId, {
@@ -22,19 +42,29 @@ export class InMemoryQueue {
       attempts: 0
     });
     
-    // Start processing if not already running
-    if (!this.processing) {
-      this.processQueue();
-    }
+    this.spawnWorkers();
     
     return jobId;
   }
   
-  getJobStatus(jobId: string): QueueJob | null {
+  async getJobStatus(jobId: string): Promise<QueueJob | null> {
     return this.queue.get(jobId) || null;
   }
   
-  getQueueStats() {
+  async getQueuePosition(sessionId: string): Promise<number | null> {
+    const index = this.fairOrder(this.pendingJobs()).findIndex(job => job.data.sessionId === sessionId);
+    return index >= 0 ? index + 1 : null;
+  }
+  
+  async remove(sessionId: string): Promise<ScanJob | null> {
+    const job = this.pendingJobs().find(pending => pending.data.sessionId === sessionId);
+    if (!job) return null;
+    
+    this.queue.delete(job.id);
+    return job.data;
+  }
+  
+  async getQueueStats(): Promise<QueueStats> {
     const jobs = Array.from(this.queue.values());
     return {
       total: jobs.length,
@@ -45,65 +75,120 @@ export class InMemoryQueue {
     };
   }
   
-  private async processQueue(): Promise<void> {
-    this.processing = true;
+  // Nothing survives a restart, so sessions left pending or scanning by the last process can never finish
+  async start(): Promise<void> {
+    try {
+      const count = await storage.sessions.failUnfinished(INTERRUPTED_SCAN_DATA);
+      if (count > 0) {
+        console.log(`Marked ${count} interrupted scan(s) as failed`);
+      }
+    } catch (error) {
+      console.error('Failed to mark interrupted scans:', error);
+    }
+  }
+  
+  async stop(): Promise<void> {
+    this.stopped = true;
+  }
+  
+  // Starts workers until every ready job has one or the concurrency limit is reached
+  private spawnWorkers(): void {
+    while (!this.stopped && this.activeWorkers < this.concurrency && this.pendingJobs().length > 0) {
+      this.activeWorkers++;
+      this.runWorker();
+    }
+  }
+  
+  // Claims its first job synchronously, so spawnWorkers sees an accurate count of pending jobs
+  private async runWorker(): Promise<void> {
+    const scraper = this.scrapers.pop() || new LightweightScraper();
     
-    while (this.queue.size > 0) {
-      const pendingJobs = Array.from(this.queue.values())
-        .filter(job => job.status === 'pending')
-        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-      
-      if (pendingJobs.length === 0) break;
-      
-      const job = pendingJobs[0];
-      job.status = 'processing';
-      
-      console.log(`Processing job ${job.id} for URL: ${job.data.url}`);
-      
-      try {
-        await this.executeJob(job);
-        job.status = 'completed';
-        console.log(`Job ${job.id} completed successfully`);
-        
-        // Clean up completed job after 1 hour
-        setTimeout(() => {
-          this.queue.delete(job.id);
-        }, 60 * 60 * 1000);
-        
-      } catch (error) {
-        job.attempts++;
-        console.error(`Job ${job.id} failed (attempt ${job.attempts}):`, error);
-        
-        if (job.attempts < 3) {
-          job.status = 'pending';
-          console.log(`Retrying job ${job.id} in 5 seconds...`);
-          await this.delay(5000); // Wait 5s before retry
-        } else {
-          job.status = 'failed';
-          console.error(`Job ${job.id} failed permanently after ${job.attempts} attempts`);
-          
-          // Clean up failed job after 1 hour
-          setTimeout(() => {
-            this.queue.delete(job.id);
-          }, 60 * 60 * 1000);
-        }
+    try {
+      let job = this.next();
+      while (job) {
+        await this.runJob(job, scraper);
+        job = this.stopped ? null : this.next();
+      }
+    } finally {
+      this.scrapers.push(scraper);
+      this.activeWorkers--;
+      if (this.activeWorkers === 0) {
+        console.log('Queue processing completed');
+      }
+    }
+  }
+  
+  private next(): QueueJob | null {
+    const job = this.fairOrder(this.pendingJobs())[0];
+    if (!job) return null;
+    
+    job.status = 'processing';
+    job.attempts++;
+    this.lastServed.set(this.clientOf(job), ++this.dispatches);
+    return job;
+  }
+  
+  // Failed scans are not retried: the scraper has already recorded the failure on the session.
+  // Cancelled and paused scans emit neither event.
+  private async runJob(job: QueueJob, scraper: LightweightScraper): Promise<void> {
+    console.log(`Processing job ${job.id} for URL: ${job.data.url}`);
+    
+    try {
+      const status = await scraper.scanWebsite(job.data.url, job.data.sessionId, job.data.crawlOptions, job.data.ruleSettings, job.data.resume, job.data);
+      job.status = status === 'failed' ? 'failed' : 'completed';
+      console.log(`Job ${job.id} finished with scan ${status}`);
+      if (status === 'completed' || status === 'failed') {
+        this.emit(status, job);
       }
+    } catch (error) {
+      job.status = 'failed';
+      console.error(`Job ${job.id} failed:`, error);
+      this.emit('failed', job);
     }
     
-    this.processing = false;
-    console.log('Queue processing completed');
+    // Clean up the finished job after 1 hour
+    setTimeout(() => {
+      this.queue.delete(job.id);
+    }, 60 * 60 * 1000);
+  }
+  
+  private pendingJobs(): QueueJob[] {
+    return Array.from(this.queue.values()).filter(job => job.status === 'pending');
   }
   
-  private async executeJob(job: QueueJob): Promise<void> {
-    await this.scraper.scanWebsite(job.data.url, job.data.sessionId);
+  private clientOf(job: QueueJob): string {
+    return job.data.clientId || 'anonymous';
   }
   
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Round-robin between clients: every waiting client gets a turn before any client gets a second one.
+  // Clients take turns in order of when they were last served (never served first), then by their oldest job.
+  private fairOrder(jobs: QueueJob[]): QueueJob[] {
+    const byClient = new Map<string, QueueJob[]>();
+    [...jobs]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach(job => {
+        const client = this.clientOf(job);
+        byClient.set(client, [...(byClient.get(client) || []), job]);
+      });
+    
+    const clients = Array.from(byClient.entries()).sort(([a, aJobs], [b, bJobs]) =>
+      ((this.lastServed.get(a) ?? 0) - (this.lastServed.get(b) ?? 0)) ||
+      (aJobs[0].createdAt.getTime() - bJobs[0].createdAt.getTime())
+    );
+    
+    const ordered: QueueJob[] = [];
+    for (let turn = 0; ordered.length < jobs.length; turn++) {
+      clients.forEach(([, clientJobs]) => {
+        if (turn < clientJobs.length) {
+          ordered.push(clientJobs[turn]);
+        }
+      });
+    }
+    return ordered;
   }
   
   // Clean up old completed/failed jobs
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     const now = Date.now();
     const oneHourAgo = now - (60 * 60 * 1000);
     
@@ -114,4 +199,4 @@ export class InMemoryQueue {
       }
     });
   }
-}
\ No newline at end of file
+}
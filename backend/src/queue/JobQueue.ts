@@ -0,0 +1,55 @@
+import { QueueJob, ScanJob } from '../types';
+import { InMemoryQueue } from './InMemoryQueue';
+import { PostgresQueue } from './PostgresQueue';
+import { storage } from '../storage/Storage';
+
+export interface QueueStats {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
+export class QueueFullError extends Error {
+  constructor(public maxLength: number) {
+    super(`The scan queue is full (${maxLength} scans waiting). Please try again in a few minutes.`);
+    this.name = 'QueueFullError';
+  }
+}
+
+// Both drivers emit 'completed' and 'failed' with the job when its scan completes or fails
+export interface JobQueue {
+  readonly driver: string;
+  // Rejects with QueueFullError once QUEUE_MAX_LENGTH scans are waiting
+  add(jobData: ScanJob): Promise<string>;
+  getJobStatus(jobId: string): Promise<QueueJob | null>;
+  // 1-based position of a session's waiting job in dispatch order, or null when it is not waiting
+  getQueuePosition(sessionId: string): Promise<number | null>;
+  // Drops a session's job if no worker has picked it up yet, returning what it would have scanned
+  remove(sessionId: string): Promise<ScanJob | null>;
+  getQueueStats(): Promise<QueueStats>;
+  cleanup(): Promise<void>;
+  // Recovers work left behind by a previous process and starts processing
+  start(): Promise<void>;
+  // Stops taking new jobs; a job in progress is handed back for another worker
+  stop(): Promise<void>;
+  on(event: 'completed' | 'failed', listener: (job: QueueJob) => void): this;
+  off(event: 'completed' | 'failed', listener: (job: QueueJob) => void): this;
+}
+
+// QUEUE_DRIVER=postgres survives restarts; memory is meant for local development
+export function createJobQueue(driver: string = process.env.QUEUE_DRIVER || 'memory'): JobQueue {
+  switch (driver) {
+    case 'postgres':
+      // Jobs reference their sessions, so both have to live in the same database
+      if (storage.driver !== 'supabase') {
+        throw new Error(`QUEUE_DRIVER=postgres requires STORAGE_DRIVER=supabase (storage driver is ${storage.driver})`);
+      }
+      return new PostgresQueue();
+    case 'memory':
+      return new InMemoryQueue();
+    default:
+      throw new Error(`Unknown queue driver: ${driver}`);
+  }
+}
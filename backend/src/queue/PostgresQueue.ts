@@ -0,0 +1,302 @@
+import { EventEmitter } from 'events';
+import os from 'os';
+import { QueueJob, ScanJob } from '../types';
+import { LightweightScraper } from '../scraper/LightweightScraper';
+import { getSupabase } from '../utils/supabase';
+import { storage } from '../storage/Storage';
+import { JobQueue, QueueStats, QueueFullError } from './JobQueue';
+
+interface JobRow {
+  id: string;
+  session_id: string;
+  data: ScanJob;
+  status: QueueJob['status'];
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+}
+
+const STATUSES: QueueJob['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
+// Jobs are rows in scan_jobs. Workers claim them with FOR UPDATE SKIP LOCKED (see claim_scan_job)
+// and hold a lease that a heartbeat keeps extending; jobs whose lease runs out are put back in the queue.
+// Each process runs QUEUE_CONCURRENCY workers, and claim_scan_job takes turns between clients.
+export class PostgresQueue extends EventEmitter implements JobQueue {
+  readonly driver = 'postgres';
+  private workerId = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  private running = false;
+  private currentJobs: Set<JobRow> = new Set();
+  private idleWorkers: Set<() => void> = new Set();
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private leaseSeconds = parseInt(process.env.QUEUE_LEASE_SECONDS || '120');
+  private pollInterval = parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '5000');
+  private concurrency = Math.max(1, parseInt(process.env.QUEUE_CONCURRENCY || '2'));
+  private maxLength = parseInt(process.env.QUEUE_MAX_LENGTH || '100');
+  // A job whose worker died is handed to another worker until it has been claimed this many times
+  private maxAttempts = 3;
+
+  // The length check and the insert are not atomic, so concurrent requests can overshoot the limit slightly
+  async add(jobData: ScanJob): Promise<string> {
+    const { count, error: countError } = await getSupabase()
+      .from('scan_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (countError) {
+      throw new Error(`Failed to check queue length: ${countError.message}`);
+    }
+    if ((count || 0) >= this.maxLength) {
+      throw new QueueFullError(this.maxLength);
+    }
+
+    const { data, error } = await getSupabase()
+      .from('scan_jobs')
+      .insert({
+        session_id: jobData.sessionId,
+        client_id: jobData.clientId || 'anonymous',
+        data: jobData,
+        max_attempts: this.maxAttempts
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to enqueue job: ${error?.message || 'no data returned'}`);
+    }
+
+    // Skip the poll delay for one idle worker
+    const [wake] = this.idleWorkers;
+    wake?.();
+    return data.id;
+  }
+
+  async getJobStatus(jobId: string): Promise<QueueJob | null> {
+    const { data, error } = await getSupabase()
+      .from('scan_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job: ${error.message}`);
+    }
+
+    return data ? this.toQueueJob(data) : null;
+  }
+
+  async getQueuePosition(sessionId: string): Promise<number | null> {
+    const { data, error } = await getSupabase().rpc('scan_job_position', { p_session: sessionId });
+
+    if (error) {
+      throw new Error(`Failed to load queue position: ${error.message}`);
+    }
+
+    return typeof data === 'number' ? data : null;
+  }
+
+  // Claimed jobs are no longer pending, so this cannot race a worker that just picked the job up
+  async remove(sessionId: string): Promise<ScanJob | null> {
+    const { data, error } = await getSupabase()
+      .from('scan_jobs')
+      .delete()
+      .eq('session_id', sessionId)
+      .eq('status', 'pending')
+      .select('data');
+
+    if (error) {
+      throw new Error(`Failed to remove job: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? data[0].data : null;
+  }
+
+  async getQueueStats(): Promise<QueueStats> {
+    const counts = await Promise.all(STATUSES.map(async status => {
+      const { count, error } = await getSupabase()
+        .from('scan_jobs')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        throw new Error(`Failed to count ${status} jobs: ${error.message}`);
+      }
+      return count || 0;
+    }));
+
+    const [pending, processing, completed, failed] = counts;
+    return { total: pending + processing + completed + failed, pending, processing, completed, failed };
+  }
+
+  // Finished jobs are only kept for a day; their sessions hold the results
+  async cleanup(): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scan_jobs')
+      .delete()
+      .in('status', ['completed', 'failed'])
+      .lt('updated_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+    if (error) {
+      console.error('Failed to clean up jobs:', error);
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    await this.recover();
+    // Other workers can die at any time, not just before we start
+    this.recoveryTimer = setInterval(() => this.recover(), this.leaseSeconds * 1000);
+    for (let i = 0; i < this.concurrency; i++) {
+      this.work();
+    }
+    console.log(`Postgres queue ${this.workerId} started with ${this.concurrency} worker(s)`);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.idleWorkers.forEach(wake => wake());
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+
+    // Expire our leases right away so the next recovery hands the jobs to other workers
+    const jobIds = Array.from(this.currentJobs).map(job => job.id);
+    if (jobIds.length > 0) {
+      await getSupabase()
+        .from('scan_jobs')
+        .update({ lease_expires_at: new Date().toISOString() })
+        .in('id', jobIds)
+        .eq('locked_by', this.workerId);
+    }
+  }
+
+  // Each worker owns its scraper so crawl state is never shared between scans
+  private async work(): Promise<void> {
+    const scraper = new LightweightScraper();
+
+    while (this.running) {
+      let job: JobRow | null = null;
+      try {
+        job = await this.claim();
+      } catch (error) {
+        console.error('Failed to claim job:', error);
+      }
+
+      if (job) {
+        await this.process(job, scraper);
+      } else {
+        await this.idle();
+      }
+    }
+  }
+
+  private idle(): Promise<void> {
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.idleWorkers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, this.pollInterval);
+      this.idleWorkers.add(wake);
+    });
+  }
+
+  private async claim(): Promise<JobRow | null> {
+    const { data, error } = await getSupabase().rpc('claim_scan_job', {
+      p_worker: this.workerId,
+      p_lease_seconds: this.leaseSeconds
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data && data[0]) || null;
+  }
+
+  private async process(job: JobRow, scraper: LightweightScraper): Promise<void> {
+    this.currentJobs.add(job);
+    console.log(`Processing job ${job.id} for URL: ${job.data.url} (attempt ${job.attempts})`);
+
+    const heartbeat = setInterval(() => this.heartbeat(job), (this.leaseSeconds * 1000) / 3);
+
+    // Failed scans are not retried: the scraper has already recorded the failure on the session.
+    // Cancelled and paused scans emit neither event.
+    try {
+      const status = await scraper.scanWebsite(job.data.url, job.data.sessionId, job.data.crawlOptions, job.data.ruleSettings, job.data.resume, job.data);
+      if (status === 'failed') {
+        await this.finish(job, { status: 'failed', last_error: 'Scan failed' });
+      } else {
+        await this.finish(job, { status: 'completed' });
+      }
+      console.log(`Job ${job.id} finished with scan ${status}`);
+      if (status === 'completed' || status === 'failed') {
+        this.emit(status, { ...this.toQueueJob(job), status });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Job ${job.id} failed:`, error);
+      await this.finish(job, { status: 'failed', last_error: message });
+      await storage.sessions.update(job.session_id, { status: 'failed' })
+        .catch(error => console.error(`Failed to mark session ${job.session_id} as failed:`, error));
+      this.emit('failed', { ...this.toQueueJob(job), status: 'failed' });
+    } finally {
+      clearInterval(heartbeat);
+      this.currentJobs.delete(job);
+    }
+  }
+
+  private async heartbeat(job: JobRow): Promise<void> {
+    const { data, error } = await getSupabase().rpc('heartbeat_scan_job', {
+      p_job: job.id,
+      p_worker: this.workerId,
+      p_lease_seconds: this.leaseSeconds
+    });
+
+    if (error) {
+      console.error(`Heartbeat failed for job ${job.id}:`, error);
+    } else if (data === false) {
+      console.warn(`Lease on job ${job.id} was lost; another worker may pick it up`);
+    }
+  }
+
+  // Only the worker holding the lease may finish a job
+  private async finish(job: JobRow, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scan_jobs')
+      .update({ ...updates, locked_by: null, lease_expires_at: null, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId);
+
+    if (error) {
+      console.error(`Failed to update job ${job.id}:`, error);
+    }
+  }
+
+  private async recover(): Promise<void> {
+    const { data, error } = await getSupabase().rpc('recover_scan_jobs');
+
+    if (error) {
+      console.error('Job recovery failed:', error);
+      return;
+    }
+
+    const { requeued = 0, failed = 0 } = (data && data[0]) || {};
+    if (requeued > 0 || failed > 0) {
+      console.log(`Recovered orphaned jobs: ${requeued} requeued, ${failed} failed`);
+    }
+  }
+
+  private toQueueJob(row: JobRow): QueueJob {
+    return {
+      id: row.id,
+      data: row.data,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts
+    };
+  }
+}
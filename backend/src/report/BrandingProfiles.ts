@@ -0,0 +1,40 @@
+import { BrandingProfile, BrandingSettings } from '../types';
+import { storage, BrandingProfileRow } from '../storage/Storage';
+
+// Saved white-label settings that can be applied to any report
+export class BrandingProfiles {
+  static async list(): Promise<BrandingProfile[]> {
+    const rows = await storage.branding.list();
+    return rows.map(row => this.toProfile(row));
+  }
+
+  static async get(profileId: string): Promise<BrandingProfile | null> {
+    const row = await storage.branding.get(profileId);
+    return row ? this.toProfile(row) : null;
+  }
+
+  static async create(name: string, settings: BrandingSettings): Promise<BrandingProfile> {
+    return this.toProfile(await storage.branding.create(name, settings));
+  }
+
+  // null when the profile does not exist
+  static async update(profileId: string, name: string, settings: BrandingSettings): Promise<BrandingProfile | null> {
+    const row = await storage.branding.update(profileId, name, settings);
+    return row ? this.toProfile(row) : null;
+  }
+
+  static async delete(profileId: string): Promise<boolean> {
+    return storage.branding.delete(profileId);
+  }
+
+  private static toProfile(row: BrandingProfileRow): BrandingProfile {
+    return {
+      ...row.settings,
+      colors: row.settings.colors || {},
+      id: row.id,
+      name: row.name,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Cell, Sheet } from './FindingsSheets';
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvExporter {
+  static export(sheet: Sheet): string {
+    // The byte order mark makes Excel read the file as UTF-8
+    return '\uFEFF' + sheet.rows.map(row => row.map(cell => this.cell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private static cell(value: Cell): string {
+    let text = String(value ?? '');
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,1058 @@
+import { Document, Packer, Paragraph, TextRun, ImageRun, HeadingLevel, AlignmentType } from 'docx';
+import { ScanComparison, ReportSectionId } from '../types';
+import {
+  ReportModel, ReportPage, SEVERITY_COLORS, PRIORITY_COLORS, RENDER_ELEMENT_LABELS,
+  RENDER_CHANGE_LABELS, STRUCTURED_DATA_FORMAT_LABELS, healthColor, formatReportDate
+} from './ReportModel';
+import { ImageProbe } from '../scraper/ImageProbe';
+
+// Long change lists are cut off in the document; the comparison view has the full list
+const MAX_CHANGES_LISTED = 25;
+// Images listed per page before the rest are summarised in one line
+const MAX_IMAGES_LISTED = 75;
+// Logos are scaled down to fit this box on the cover, in pixels
+const LOGO_MAX_WIDTH = 240;
+const LOGO_MAX_HEIGHT = 100;
+
+// docx wants colours without the leading #
+function hex(color: string): string {
+  return color.replace('#', '');
+}
+
+export class DocxRenderer {
+  static async render(model: ReportModel): Promise<Buffer> {
+    const doc = new Document({
+      sections: [{
+        properties: {},
+        children: [
+          ...this.createCoverPage(model),
+          ...this.createIntroduction(model),
+          ...model.sections.flatMap(section => this.createSection(section, model)),
+          ...this.createFooter(model)
+        ]
+      }]
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  private static createSection(section: ReportSectionId, model: ReportModel): Paragraph[] {
+    switch (section) {
+      case 'summary': return this.createExecutiveSummary(model);
+      case 'changes': return model.changes !== undefined ? this.createChangesSection(model.changes, model) : [];
+      case 'findings': return this.createKeyFindings(model);
+      case 'pages': return this.createPageAnalysis(model.pages);
+      case 'images': return this.createImageAnalysis(model);
+      case 'rendering': return this.createRenderingAnalysis(model);
+      case 'links': return this.createLinkAnalysis(model);
+      case 'structuredData': return this.createStructuredDataAnalysis(model);
+      case 'recommendations': return this.createRecommendations(model);
+    }
+  }
+
+  private static createCoverPage(model: ReportModel): Paragraph[] {
+    const { colors, agencyName, clientName } = model.branding;
+    const health = model.health;
+    const logo = this.createLogo(model.branding.logo);
+
+    return [
+      ...(logo ? [
+        new Paragraph({
+          children: [logo],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 300 }
+        })
+      ] : []),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: "SEO Analysis Report",
+            bold: true,
+            size: 48,
+            color: hex(colors.primary)
+          })
+        ],
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 400 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: model.url,
+            bold: true,
+            size: 28,
+            color: hex(colors.secondary)
+          })
+        ],
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 200 }
+      }),
+      ...(clientName ? [
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Prepared for ", size: 24 }),
+            new TextRun({ text: clientName, bold: true, size: 24 })
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 }
+        })
+      ] : []),
+      ...(health ? [
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `Site Health Score: ${health.score}/100`,
+              bold: true,
+              size: 36,
+              color: hex(healthColor(health.score))
+            }),
+            new TextRun({
+              text: ` (${health.label})`,
+              size: 28,
+              color: hex(healthColor(health.score))
+            })
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 }
+        })
+      ] : []),
+      new Paragraph({
+        text: `Generated on ${formatReportDate(model.generatedAt)}`,
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 600 }
+      }),
+      new Paragraph({
+        text: agencyName ? `Prepared by ${agencyName}` : "Powered by SEO Tag Helper Tool",
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 800 }
+      })
+    ];
+  }
+
+  private static createLogo(dataUrl?: string): ImageRun | null {
+    const match = dataUrl && /^data:image\/(?:png|jpeg|gif);base64,(.+)$/.exec(dataUrl);
+    if (!match) return null;
+
+    const data = Buffer.from(match[1], 'base64');
+    const size = ImageProbe.parse(data);
+    if (!size || size.width === 0 || size.height === 0) return null;
+
+    const scale = Math.min(1, LOGO_MAX_WIDTH / size.width, LOGO_MAX_HEIGHT / size.height);
+    return new ImageRun({
+      data,
+      transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) }
+    });
+  }
+
+  // Free text from the branding profile; blank lines separate paragraphs
+  private static paragraphs(text: string, spacingAfter: number): Paragraph[] {
+    return text.split(/\n\s*\n/).map(block => new Paragraph({
+      children: block.split('\n').map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined })),
+      spacing: { after: spacingAfter }
+    }));
+  }
+
+  private static createIntroduction(model: ReportModel): Paragraph[] {
+    const { introText, colors } = model.branding;
+    if (!introText) return [];
+
+    return [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: "Introduction",
+            bold: true,
+            size: 32,
+            color: hex(colors.primary)
+          })
+        ],
+        spacing: { before: 400, after: 200 }
+      }),
+      ...this.paragraphs(introText, 200)
+    ];
+  }
+
+  private static createExecutiveSummary(model: ReportModel): Paragraph[] {
+    const { colors } = model.branding;
+    const { summary } = model;
+
+    return [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: "Executive Summary",
+            bold: true,
+            size: 32,
+            color: hex(colors.primary)
+          })
+        ],
+        spacing: { before: 400, after: 200 }
+      }),
+      new Paragraph({
+        text: `This report provides a comprehensive SEO analysis of your website. Our automated scanner reviewed ${summary.pagesAnalyzed} pages and identified key opportunities for improvement.`,
+        spacing: { after: 200 }
+      }),
+      new Paragraph({
+        text: "Scan Results:",
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 200, after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• Total Pages Analyzed: ", bold: true }),
+          new TextRun({ text: summary.pagesAnalyzed.toString() })
+        ],
+        spacing: { after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• High Priority Issues: ", bold: true }),
+          new TextRun({ text: summary.highPriorityPages.toString(), color: hex(colors.secondary), bold: true })
+        ],
+        spacing: { after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• Medium Priority Issues: ", bold: true }),
+          new TextRun({ text: summary.mediumPriorityPages.toString(), color: hex(colors.tertiary), bold: true })
+        ],
+        spacing: { after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• Images Missing Alt Text: ", bold: true }),
+          new TextRun({
+            text: summary.imagesMissingAlt.toString(),
+            color: hex(summary.imagesMissingAlt > 0 ? colors.secondary : colors.tertiary),
+            bold: true
+          })
+        ],
+        spacing: { after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• Pages Skipped: ", bold: true }),
+          new TextRun({ text: summary.pagesSkipped.toString() })
+        ],
+        spacing: { after: 400 }
+      }),
+      ...this.createHealthBreakdown(model.health)
+    ];
+  }
+
+  private static createHealthBreakdown(health: ReportModel['health']): Paragraph[] {
+    if (!health) return [];
+
+    return [
+      new Paragraph({
+        text: "Site Health:",
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 200, after: 100 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "• Overall Score: ", bold: true }),
+          new TextRun({
+            text: `${health.score}/100 (${health.label})`,
+            color: hex(healthColor(health.score)),
+            bold: true
+          })
+        ],
+        spacing: { after: 100 }
+      }),
+      ...health.categories.map((category, index, categories) =>
+        new Paragraph({
+          children: [
+            new TextRun({ text: `• ${category.label}: `, bold: true }),
+            new TextRun({
+              text: `${category.score}/100`,
+              color: hex(healthColor(category.score))
+            })
+          ],
+          spacing: { after: index === categories.length - 1 ? 400 : 100 }
+        })
+      )
+    ];
+  }
+
+  private static createChangesSection(changes: ScanComparison | null, model: ReportModel): Paragraph[] {
+    const elements: Paragraph[] = [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: "Changes Since Last Scan",
+            bold: true,
+            size: 32,
+            color: hex(model.branding.colors.primary)
+          })
+        ],
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    if (!changes) {
+      elements.push(
+        new Paragraph({
+          text: "This is the first completed scan of this project, so there is nothing to compare with yet.",
+          spacing: { after: 400 }
+        })
+      );
+      return elements;
+    }
+
+    const { base, current } = changes;
+    elements.push(
+      new Paragraph({
+        text: `Compared with the scan from ${formatReportDate(base.createdAt)}.`,
+        spacing: { after: 200 }
+      })
+    );
+
+    if (base.healthScore !== undefined && current.healthScore !== undefined) {
+      const delta = current.healthScore - base.healthScore;
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "• Site Health Score: ", bold: true }),
+            new TextRun({ text: `${base.healthScore} → ${current.healthScore} ` }),
+            new TextRun({
+              text: `(${delta > 0 ? '+' : ''}${delta})`,
+              bold: true,
+              color: delta > 0 ? "16a34a" : delta < 0 ? "dc2626" : "6b7280"
+            })
+          ],
+          spacing: { after: 100 }
+        })
+      );
+    }
+
+    const counts: Array<[string, number, string]> = [
+      ["New Issues", changes.newIssues.length, "dc2626"],
+      ["Resolved Issues", changes.resolvedIssues.length, "16a34a"],
+      ["Pages Added", changes.pagesAdded.length, "374151"],
+      ["Pages Removed", changes.pagesRemoved.length, "374151"],
+      ["Title & Description Changes", changes.metadataChanges.length, "374151"]
+    ];
+    counts.forEach(([label, count, color]) => {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `• ${label}: `, bold: true }),
+            new TextRun({ text: count.toString(), bold: true, color: count > 0 ? color : "6b7280" })
+          ],
+          spacing: { after: 100 }
+        })
+      );
+    });
+
+    const addList = (title: string, lines: TextRun[][], total: number) => {
+      if (total === 0) return;
+      elements.push(
+        new Paragraph({
+          text: `${title}:`,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 100 }
+        })
+      );
+      lines.slice(0, MAX_CHANGES_LISTED).forEach(children => {
+        elements.push(new Paragraph({ children, spacing: { after: 50 } }));
+      });
+      if (total > MAX_CHANGES_LISTED) {
+        elements.push(
+          new Paragraph({
+            children: [new TextRun({ text: `  …and ${total - MAX_CHANGES_LISTED} more`, italics: true })],
+            spacing: { after: 50 }
+          })
+        );
+      }
+    };
+
+    addList("New Issues", changes.newIssues.map(issue => [
+      new TextRun({ text: `  • ${issue.title}: `, bold: true, color: hex(SEVERITY_COLORS[issue.severity]) }),
+      new TextRun({ text: issue.url, size: 20 })
+    ]), changes.newIssues.length);
+    addList("Resolved Issues", changes.resolvedIssues.map(issue => [
+      new TextRun({ text: `  • ${issue.title}: `, bold: true, color: "16a34a" }),
+      new TextRun({ text: issue.url, size: 20 })
+    ]), changes.resolvedIssues.length);
+    addList("Pages Added", changes.pagesAdded.map(url => [
+      new TextRun({ text: `  • ${url}`, size: 20 })
+    ]), changes.pagesAdded.length);
+    addList("Pages Removed", changes.pagesRemoved.map(url => [
+      new TextRun({ text: `  • ${url}`, size: 20 })
+    ]), changes.pagesRemoved.length);
+    addList("Title & Description Changes", changes.metadataChanges.map(change => [
+      new TextRun({ text: `  • ${change.field === 'title' ? 'Title' : 'Description'} on ${change.url}: `, bold: true }),
+      new TextRun({ text: `"${change.before || '(none)'}" → "${change.after || '(none)'}"`, size: 20 })
+    ]), changes.metadataChanges.length);
+
+    elements.push(new Paragraph({ text: "", spacing: { after: 200 } }));
+    return elements;
+  }
+
+  private static createKeyFindings(model: ReportModel): Paragraph[] {
+    const findings = [
+      new Paragraph({
+        text: "Key Findings",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    if (model.findings.length === 0) {
+      findings.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "✅ Great job! ", bold: true, color: "16a34a" }),
+            new TextRun({ text: "No SEO issues were found on the scanned pages." })
+          ],
+          spacing: { after: 200 }
+        })
+      );
+    }
+
+    model.findings.forEach(summary => {
+      findings.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `⚠️ ${summary.title}: `, bold: true, color: hex(SEVERITY_COLORS[summary.severity]) }),
+            new TextRun({ text: `${summary.pageCount} ${summary.pageCount === 1 ? 'page' : 'pages'}. ${summary.description}` })
+          ],
+          spacing: { after: 50 }
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({ text: "    Affected: ", bold: true, size: 18 }),
+            new TextRun({
+              text: summary.urls.join(', ') + (summary.pageCount > summary.urls.length ? ` and ${summary.pageCount - summary.urls.length} more` : ''),
+              size: 18
+            })
+          ],
+          spacing: { after: 150 }
+        })
+      );
+    });
+
+    findings.push(
+      new Paragraph({
+        spacing: { after: 400 }
+      })
+    );
+
+    return findings;
+  }
+
+  private static createPageAnalysis(pages: ReportPage[]): Paragraph[] {
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "Detailed Page Analysis",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    pages.forEach((page, index) => {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `Page ${index + 1}: `,
+              bold: true,
+              size: 24
+            }),
+            new TextRun({
+              text: page.url,
+              size: 20,
+              color: "1f2937"
+            })
+          ],
+          spacing: { before: 300, after: 150 }
+        }),
+
+        // Priority indicator
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Priority: ", bold: true }),
+            new TextRun({
+              text: page.priority.toUpperCase(),
+              bold: true,
+              color: hex(PRIORITY_COLORS[page.priority])
+            }),
+            new TextRun({ text: page.score !== undefined ? `  •  Score: ${page.score}/100` : '' })
+          ],
+          spacing: { after: 100 }
+        }),
+
+        ...this.createPageIssues(page),
+
+        // Current title
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Current Title ", bold: true }),
+            new TextRun({ text: `(${page.title.length} chars): `, size: 18 }),
+            new TextRun({ text: page.title || "Missing", italics: !page.title })
+          ],
+          spacing: { after: 50 }
+        }),
+
+        // Recommended title
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Recommended Title: ", bold: true, color: "16a34a" }),
+            new TextRun({ text: page.recommendedTitle })
+          ],
+          spacing: { after: 150 }
+        }),
+
+        // Current description
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Current Description ", bold: true }),
+            new TextRun({ text: `(${page.metaDescription.length} chars): `, size: 18 }),
+            new TextRun({ text: page.metaDescription || "Missing", italics: !page.metaDescription })
+          ],
+          spacing: { after: 50 }
+        }),
+
+        // Recommended description
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Recommended Description: ", bold: true, color: "16a34a" }),
+            new TextRun({ text: page.recommendedDescription })
+          ],
+          spacing: { after: 150 }
+        }),
+
+        ...this.createSocialRecommendations(page),
+
+        // Content stats
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Content: ", bold: true }),
+            new TextRun({ text: `${page.wordCount} words, ` }),
+            new TextRun({ text: `${page.headingCounts.h1} H1, ` }),
+            new TextRun({ text: `${page.headingCounts.h2} H2, ` }),
+            new TextRun({ text: `${page.headingCounts.h3} H3 tags` })
+          ],
+          spacing: { after: 250 }
+        })
+      );
+    });
+
+    return elements;
+  }
+
+  private static createPageIssues(page: ReportPage): Paragraph[] {
+    if (page.issues.length === 0) {
+      return [];
+    }
+
+    return [
+      new Paragraph({
+        children: [new TextRun({ text: "Issues:", bold: true })],
+        spacing: { after: 25 }
+      }),
+      ...page.issues.flatMap(issue => [
+        new Paragraph({
+          children: [
+            new TextRun({ text: `  • ${issue.title}: `, bold: true, color: hex(SEVERITY_COLORS[issue.severity]) }),
+            new TextRun({ text: issue.message })
+          ],
+          spacing: { after: 25 }
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({ text: "    Fix: ", bold: true, color: "16a34a", size: 18 }),
+            new TextRun({ text: issue.fix, size: 18 })
+          ],
+          spacing: { after: 50 }
+        })
+      ]),
+      new Paragraph({ spacing: { after: 100 } })
+    ];
+  }
+
+  private static createSocialRecommendations(page: ReportPage): Paragraph[] {
+    if (!page.social) {
+      return [];
+    }
+
+    return [
+      new Paragraph({
+        children: [
+          new TextRun({ text: "Social Sharing Issues: ", bold: true }),
+          new TextRun({ text: page.social.issues.join('; '), size: 18 })
+        ],
+        spacing: { after: 50 }
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: "Recommended Social Tags:", bold: true, color: "16a34a" })
+        ],
+        spacing: { after: 25 }
+      }),
+      ...page.social.recommendedTags.map(({ tag, value }) => new Paragraph({
+        children: [
+          new TextRun({ text: `    ${tag}: `, bold: true, size: 18 }),
+          new TextRun({ text: value, size: 18 })
+        ],
+        spacing: { after: 25 }
+      })),
+      new Paragraph({ spacing: { after: 100 } })
+    ];
+  }
+
+  private static createImageAnalysis(model: ReportModel): Paragraph[] {
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "Image Optimization Analysis",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    model.images.forEach(page => {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Page: ", bold: true }),
+            new TextRun({ text: page.url })
+          ],
+          spacing: { before: 200, after: 100 }
+        })
+      );
+
+      page.missingAlt.slice(0, MAX_IMAGES_LISTED).forEach((image, i) => {
+        const dimensions = image.width && image.height ? ` (${image.width}x${image.height})` : '';
+
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `  • Image ${i + 1}: `, bold: true }),
+              new TextRun({ text: image.fileName + dimensions, size: 20 }),
+              new TextRun({ text: " - Missing alt text", color: "dc2626" })
+            ],
+            spacing: { after: 50 }
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "    URL: ", bold: true }),
+              new TextRun({ text: image.src.length > 80 ? image.src.substring(0, 80) + '...' : image.src, size: 18 })
+            ],
+            spacing: { after: 25 }
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "    Recommended Alt Text: ", bold: true, color: "16a34a" }),
+              new TextRun({ text: image.recommendedAlt })
+            ],
+            spacing: { after: 100 }
+          })
+        );
+      });
+
+      if (page.missingAlt.length > MAX_IMAGES_LISTED) {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `    ⚠️ Additional Images: `, bold: true, color: "ea580c" }),
+              new TextRun({ text: `${page.missingAlt.length - MAX_IMAGES_LISTED} more images on this page also need alt text` })
+            ],
+            spacing: { after: 150 }
+          })
+        );
+      }
+    });
+
+    const { imagesMissingAlt, totalImages } = model.summary;
+    if (imagesMissingAlt === 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "✅ Great job! ", bold: true, color: "16a34a" }),
+            new TextRun({ text: "All images have alt text." })
+          ],
+          spacing: { after: 200 }
+        })
+      );
+    } else {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Summary: ", bold: true }),
+            new TextRun({ text: `${imagesMissingAlt} out of ${totalImages} images are missing alt text.` })
+          ],
+          spacing: { before: 200, after: 200 }
+        })
+      );
+    }
+
+    return elements;
+  }
+
+  private static createLinkAnalysis(model: ReportModel): Paragraph[] {
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "HTTP Status & Link Analysis",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    const { errorPages, brokenLinks, redirects } = model.links;
+
+    if (errorPages.length === 0 && redirects.length === 0 && brokenLinks.length === 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "✅ Great job! ", bold: true, color: "16a34a" }),
+            new TextRun({ text: "No broken links, error pages or redirects were found." })
+          ],
+          spacing: { after: 200 }
+        })
+      );
+      return elements;
+    }
+
+    if (errorPages.length > 0) {
+      elements.push(
+        new Paragraph({
+          text: "Pages Returning Errors:",
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 100 }
+        })
+      );
+      errorPages.forEach(error => {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `  • ${error.status ? `HTTP ${error.status}` : error.reason}: `, bold: true, color: "dc2626" }),
+              new TextRun({ text: error.url })
+            ],
+            spacing: { after: 50 }
+          })
+        );
+      });
+    }
+
+    if (brokenLinks.length > 0) {
+      elements.push(
+        new Paragraph({
+          text: "Broken Links:",
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 100 }
+        })
+      );
+      brokenLinks.forEach(link => {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `  • ${link.status ? `HTTP ${link.status}` : link.reason}: `, bold: true, color: "dc2626" }),
+              new TextRun({ text: link.url }),
+              new TextRun({ text: link.external ? " (external)" : "", italics: true })
+            ],
+            spacing: { after: 25 }
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "    Linked from: ", bold: true }),
+              new TextRun({ text: link.foundOn.join(', '), size: 18 })
+            ],
+            spacing: { after: 100 }
+          })
+        );
+      });
+    }
+
+    if (redirects.length > 0) {
+      elements.push(
+        new Paragraph({
+          text: "Redirected Pages:",
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 100 }
+        }),
+        new Paragraph({
+          text: "Internal links should point directly at the final URL to avoid wasting crawl budget.",
+          spacing: { after: 100 }
+        })
+      );
+      redirects.forEach(redirect => {
+        const hops = redirect.chain.map(hop => `${hop.url} (${hop.status})`).join(' → ');
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: "  • ", bold: true }),
+              new TextRun({ text: `${hops} → ${redirect.finalUrl}`, size: 20 })
+            ],
+            spacing: { after: 50 }
+          })
+        );
+      });
+    }
+
+    return elements;
+  }
+
+  private static createStructuredDataAnalysis(model: ReportModel): Paragraph[] {
+    const structuredData = model.structuredData;
+    if (!structuredData) {
+      return [];
+    }
+
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "Structured Data Analysis",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      }),
+      new Paragraph({
+        text: "Structured data (schema.org markup) helps search engines understand your content and makes pages eligible for rich results such as product ratings, breadcrumbs and FAQs.",
+        spacing: { after: 200 }
+      })
+    ];
+
+    if (structuredData.pages.length === 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "✅ Great job! ", bold: true, color: "16a34a" }),
+            new TextRun({ text: "Every page has valid structured data." })
+          ],
+          spacing: { after: 200 }
+        })
+      );
+      return elements;
+    }
+
+    structuredData.pages.forEach(page => {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Page: ", bold: true }),
+            new TextRun({ text: page.url })
+          ],
+          spacing: { before: 200, after: 100 }
+        })
+      );
+
+      if (page.found.length > 0) {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: "Found: ", bold: true }),
+              new TextRun({ text: page.found.map(item => `${item.type || 'Untyped'} (${STRUCTURED_DATA_FORMAT_LABELS[item.format]})`).join(', ') })
+            ],
+            spacing: { after: 50 }
+          })
+        );
+      }
+
+      page.issues.forEach(issue => {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `  • ${issue.severity === 'error' ? 'Error' : 'Warning'} (${issue.type}): `,
+                bold: true,
+                color: issue.severity === 'error' ? "dc2626" : "ea580c"
+              }),
+              new TextRun({ text: issue.message })
+            ],
+            spacing: { after: 25 }
+          })
+        );
+      });
+
+      if (page.suggestedJsonLd) {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: "No structured data found. Suggested JSON-LD:", bold: true, color: "16a34a" })
+            ],
+            spacing: { after: 50 }
+          }),
+          ...page.suggestedJsonLd.split('\n').map(line => new Paragraph({
+            children: [
+              new TextRun({ text: line, font: "Courier New", size: 16 })
+            ]
+          }))
+        );
+      }
+    });
+
+    return elements;
+  }
+
+  private static createRenderingAnalysis(model: ReportModel): Paragraph[] {
+    const rendering = model.rendering;
+    if (!rendering) {
+      return [];
+    }
+
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "JavaScript Rendering Analysis",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      }),
+      new Paragraph({
+        text: `We compared the raw HTML returned by your server with the page after JavaScript ran for ${rendering.pagesCompared} pages. Search engines and social crawlers that do not execute JavaScript only see the raw HTML.`,
+        spacing: { after: 200 }
+      })
+    ];
+
+    if (rendering.pagesAffected === 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "✅ Great job! ", bold: true, color: "16a34a" }),
+            new TextRun({ text: "All SEO elements are present in the server-rendered HTML." })
+          ],
+          spacing: { after: 200 }
+        })
+      );
+      return elements;
+    }
+
+    rendering.pages.forEach(page => {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Page: ", bold: true }),
+            new TextRun({ text: page.url })
+          ],
+          spacing: { before: 200, after: 100 }
+        })
+      );
+
+      page.differences.forEach(difference => {
+        elements.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `  • ${RENDER_ELEMENT_LABELS[difference.element]}: `, bold: true }),
+              new TextRun({
+                text: RENDER_CHANGE_LABELS[difference.change],
+                color: difference.change === 'changed' ? "ea580c" : "dc2626"
+              })
+            ],
+            spacing: { after: 25 }
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "    Raw HTML: ", bold: true }),
+              new TextRun({ text: difference.raw || "Missing", italics: !difference.raw, size: 18 })
+            ],
+            spacing: { after: 25 }
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "    Rendered: ", bold: true }),
+              new TextRun({ text: difference.rendered || "Missing", italics: !difference.rendered, size: 18 })
+            ],
+            spacing: { after: 100 }
+          })
+        );
+      });
+    });
+
+    elements.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: "Summary: ", bold: true }),
+          new TextRun({ text: `${rendering.pagesAffected} out of ${rendering.pagesCompared} compared pages depend on JavaScript for at least one SEO element. Render these elements on the server to make sure every crawler sees them.` })
+        ],
+        spacing: { before: 200, after: 200 }
+      })
+    );
+
+    return elements;
+  }
+
+  private static createRecommendations(model: ReportModel): Paragraph[] {
+    const elements: Paragraph[] = [
+      new Paragraph({
+        text: "Implementation Recommendations",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      })
+    ];
+
+    const groups: Array<{ label: string; severity: string }> = [
+      { label: 'High Priority Actions:', severity: 'high' },
+      { label: 'Medium Priority Actions:', severity: 'medium' },
+      { label: 'Low Priority Actions:', severity: 'low' }
+    ];
+
+    groups.forEach(group => {
+      const summaries = model.findings.filter(summary => summary.severity === group.severity);
+      if (summaries.length === 0) return;
+
+      elements.push(
+        new Paragraph({
+          text: group.label,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 100 }
+        }),
+        ...summaries.map((summary, index) => new Paragraph({
+          text: `${index + 1}. ${summary.title} - ${summary.description} (${summary.pageCount} ${summary.pageCount === 1 ? 'page' : 'pages'})`,
+          spacing: { after: index === summaries.length - 1 ? 200 : 100 }
+        }))
+      );
+    });
+
+    elements.push(new Paragraph({ spacing: { after: 200 } }));
+
+    return elements;
+  }
+
+  private static createFooter(model: ReportModel): Paragraph[] {
+    const { agencyName, callToAction, contact, colors } = model.branding;
+    const contactLines = contact
+      ? [contact.name, contact.email, contact.phone, contact.website].filter((line): line is string => !!line)
+      : [];
+
+    if (!agencyName && !callToAction && contactLines.length === 0) {
+      return [
+        new Paragraph({
+          text: "Generated by SEO Tag Helper Tool",
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 600, after: 200 }
+        }),
+        new Paragraph({
+          text: "For questions or support, please visit our website.",
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 }
+        })
+      ];
+    }
+
+    return [
+      ...(callToAction ? [
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: "Next Steps",
+              bold: true,
+              size: 32,
+              color: hex(colors.primary)
+            })
+          ],
+          spacing: { before: 600, after: 200 }
+        }),
+        ...this.paragraphs(callToAction, 200)
+      ] : []),
+      ...(agencyName ? [
+        new Paragraph({
+          children: [new TextRun({ text: `Prepared by ${agencyName}`, bold: true })],
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 600, after: 100 }
+        })
+      ] : []),
+      ...contactLines.map((line, index) => new Paragraph({
+        text: line,
+        alignment: AlignmentType.CENTER,
+        spacing: { before: index === 0 && !agencyName ? 600 : 0, after: 50 }
+      }))
+    ];
+  }
+}
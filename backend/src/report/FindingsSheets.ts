@@ -0,0 +1,51 @@
+import { ScanData } from '../types';
+
+export type Cell = string | number;
+
+export interface Sheet {
+  name: string;
+  // The first row holds the column headers
+  rows: Cell[][];
+}
+
+// Per-page findings laid out for spreadsheets, where content teams bulk-edit metadata
+export class FindingsSheets {
+  static all(scanData: ScanData): Sheet[] {
+    return [this.pages(scanData), this.images(scanData)];
+  }
+
+  static pages(scanData: ScanData): Sheet {
+    const rows: Cell[][] = [[
+      'URL', 'Current Title', 'Recommended Title', 'Current Description', 'Recommended Description',
+      'Priority', 'Word Count', 'H1s', 'Issues'
+    ]];
+
+    for (const page of scanData.pages) {
+      rows.push([
+        page.url,
+        page.title,
+        page.recommendations.title,
+        page.metaDescription,
+        page.recommendations.metaDescription,
+        page.recommendations.priority,
+        page.wordCount,
+        page.headings.h1.join(' | '),
+        page.issues.map(issue => `${issue.title} (${issue.severity})`).join('; ')
+      ]);
+    }
+
+    return { name: 'Pages', rows };
+  }
+
+  static images(scanData: ScanData): Sheet {
+    const rows: Cell[][] = [['Page URL', 'Image URL', 'Current Alt Text', 'Recommended Alt Text']];
+
+    for (const page of scanData.pages) {
+      for (const image of page.images) {
+        rows.push([page.url, image.src, image.currentAlt, image.recommendedAlt]);
+      }
+    }
+
+    return { name: 'Images', rows };
+  }
+}
@@ -0,0 +1,438 @@
+import { ScanComparison, ReportSectionId } from '../types';
+import {
+  ReportModel, ReportPage, SEVERITY_COLORS, PRIORITY_COLORS,
+  RENDER_ELEMENT_LABELS, RENDER_CHANGE_LABELS, STRUCTURED_DATA_FORMAT_LABELS, healthColor, formatReportDate
+} from './ReportModel';
+import { ReportCharts } from './ReportCharts';
+
+const MAX_CHANGES_LISTED = 25;
+
+export interface HtmlRenderOptions {
+  // Open every collapsible section, for printing
+  expandAll?: boolean;
+}
+
+// A single HTML file with no external requests: it can be mailed, archived or opened offline.
+// Page and image details are collapsible so long reports stay skimmable.
+export class HtmlRenderer {
+  static render(model: ReportModel, options: HtmlRenderOptions = {}): string {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="SEO Tag Helper Tool">
+<title>SEO Analysis Report: ${this.escape(model.url)}</title>
+<style>${this.styles(model.branding.colors)}</style>
+</head>
+<body>
+<main>
+${this.cover(model)}
+${this.introduction(model)}
+${model.sections.map(section => this.section(section, model)).join('\n')}
+${this.footer(model)}
+</main>
+</body>
+</html>
+`;
+
+    return options.expandAll ? html.replace(/<details>/g, '<details open>') : html;
+  }
+
+  private static section(section: ReportSectionId, model: ReportModel): string {
+    switch (section) {
+      case 'summary': return this.summary(model);
+      case 'changes': return model.changes !== undefined ? this.changes(model.changes) : '';
+      case 'findings': return this.findings(model);
+      case 'pages': return this.pages(model.pages);
+      case 'images': return this.images(model);
+      case 'rendering': return this.rendering(model);
+      case 'links': return this.links(model);
+      case 'structuredData': return this.structuredData(model);
+      case 'recommendations': return this.recommendations(model);
+    }
+  }
+
+  private static styles(colors: { primary: string; secondary: string; tertiary: string }): string {
+    return `
+:root { --primary: ${colors.primary}; --secondary: ${colors.secondary}; --tertiary: ${colors.tertiary}; }
+* { box-sizing: border-box; }
+body { margin: 0; background: #f3f4f6; color: #1f2937; font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 32px 20px 48px; }
+header.cover { background: var(--primary); color: #fff; border-radius: 12px; padding: 32px; margin-bottom: 24px; }
+header.cover h1 { margin: 0 0 6px; font-size: 30px; }
+header.cover .url { font-size: 18px; font-weight: 600; word-break: break-all; opacity: 0.95; }
+header.cover .logo { display: block; max-width: 240px; max-height: 100px; margin-bottom: 20px; background: #fff; border-radius: 8px; padding: 8px; }
+header.cover .prepared { margin-top: 8px; font-size: 15px; }
+header.cover .meta { margin-top: 12px; font-size: 13px; opacity: 0.85; }
+.score { display: inline-block; margin-top: 16px; background: #fff; border-radius: 999px; padding: 6px 16px; font-weight: 700; }
+section { background: #fff; border-radius: 12px; padding: 24px; margin-bottom: 20px; box-shadow: 0 1px 2px rgba(0,0,0,0.06); }
+section > h2 { margin: 0 0 16px; color: var(--primary); font-size: 22px; }
+h3 { margin: 20px 0 8px; font-size: 16px; color: #374151; }
+.cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(150px, 1fr)); gap: 12px; margin-bottom: 16px; }
+.card { border: 1px solid #e5e7eb; border-top: 4px solid var(--secondary); border-radius: 8px; padding: 12px; }
+.card:nth-child(odd) { border-top-color: var(--tertiary); }
+.card .value { font-size: 26px; font-weight: 700; }
+.card .label { font-size: 13px; color: #6b7280; }
+.charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; margin-bottom: 16px; }
+.chart { margin: 0; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; break-inside: avoid; }
+.chart figcaption { font-weight: 600; font-size: 14px; margin-bottom: 6px; }
+.bar { display: flex; align-items: center; gap: 12px; margin: 6px 0; }
+.bar .name { width: 140px; font-size: 14px; }
+.bar .track { flex: 1; height: 10px; background: #e5e7eb; border-radius: 5px; overflow: hidden; }
+.bar .fill { height: 100%; }
+.bar .num { width: 48px; text-align: right; font-weight: 600; font-size: 14px; }
+ul { margin: 6px 0; padding-left: 22px; }
+li { margin: 3px 0; }
+.muted { color: #6b7280; font-size: 13px; }
+.good { color: #16a34a; font-weight: 600; }
+.tag { display: inline-block; border-radius: 4px; padding: 1px 8px; font-size: 12px; font-weight: 700; color: #fff; text-transform: uppercase; vertical-align: middle; }
+details { border: 1px solid #e5e7eb; border-radius: 8px; margin: 8px 0; }
+details > summary { cursor: pointer; padding: 10px 14px; display: flex; gap: 10px; align-items: center; }
+details > summary .url { flex: 1; word-break: break-all; font-weight: 600; }
+details[open] > summary { border-bottom: 1px solid #e5e7eb; }
+details > .body { padding: 12px 16px; }
+dl { display: grid; grid-template-columns: 200px 1fr; gap: 6px 12px; margin: 8px 0; }
+dt { font-weight: 600; }
+dd { margin: 0; word-break: break-word; }
+.recommended { color: #15803d; }
+pre { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px; overflow-x: auto; font-size: 12px; }
+section.cta { border-left: 6px solid var(--secondary); }
+footer { text-align: center; color: #6b7280; font-size: 13px; margin-top: 32px; }
+footer > div { margin: 4px 0; }
+footer a { color: var(--primary); }
+@media print {
+  body { background: #fff; }
+  section { box-shadow: none; border: 1px solid #e5e7eb; }
+  section > h2, h3 { break-after: avoid; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  main { max-width: none; padding: 0; }
+  details > summary { list-style: none; }
+  details > summary::-webkit-details-marker { display: none; }
+  details { break-inside: avoid; }
+}
+`;
+  }
+
+  private static cover(model: ReportModel): string {
+    const { health } = model;
+    const { logo, agencyName, clientName } = model.branding;
+    return `<header class="cover">
+${logo ? `<img class="logo" src="${this.escape(logo)}" alt="${this.escape(agencyName || 'Logo')}">` : ''}
+<h1>SEO Analysis Report</h1>
+<div class="url">${this.escape(model.url)}</div>
+${clientName ? `<div class="prepared">Prepared for <strong>${this.escape(clientName)}</strong>${agencyName ? ` by <strong>${this.escape(agencyName)}</strong>` : ''}</div>` : ''}
+${!clientName && agencyName ? `<div class="prepared">Prepared by <strong>${this.escape(agencyName)}</strong></div>` : ''}
+${health ? `<div class="score" style="color: ${healthColor(health.score)}">Site Health Score: ${health.score}/100 (${this.escape(health.label)})</div>` : ''}
+<div class="meta">Generated on ${this.escape(formatReportDate(model.generatedAt))}${model.scannedAt ? ` · Scanned ${this.escape(formatReportDate(model.scannedAt))}` : ''}</div>
+</header>`;
+  }
+
+  private static introduction(model: ReportModel): string {
+    const { introText } = model.branding;
+    if (!introText) return '';
+
+    return `<section id="introduction">
+<h2>Introduction</h2>
+${this.paragraphs(introText)}
+</section>`;
+  }
+
+  private static footer(model: ReportModel): string {
+    const { agencyName, callToAction, contact } = model.branding;
+    const generated = `Generated on ${this.escape(formatReportDate(model.generatedAt))}`;
+    const contactLines = contact ? [
+      contact.name && this.escape(contact.name),
+      contact.email && `<a href="mailto:${this.escape(contact.email)}">${this.escape(contact.email)}</a>`,
+      contact.phone && this.escape(contact.phone),
+      contact.website && `<a href="${this.escape(contact.website)}">${this.escape(contact.website)}</a>`
+    ].filter(Boolean) : [];
+
+    if (!agencyName && !callToAction && contactLines.length === 0) {
+      return `<footer>Generated by SEO Tag Helper Tool · ${generated}</footer>`;
+    }
+
+    return `${callToAction ? `<section id="next-steps" class="cta">
+<h2>Next Steps</h2>
+${this.paragraphs(callToAction)}
+</section>` : ''}
+<footer>
+${agencyName ? `<div><strong>Prepared by ${this.escape(agencyName)}</strong></div>` : ''}
+${contactLines.length > 0 ? `<div>${contactLines.join(' · ')}</div>` : ''}
+<div>${generated}</div>
+</footer>`;
+  }
+
+  // Free text from the branding profile; blank lines separate paragraphs
+  private static paragraphs(text: string): string {
+    return text.split(/\n\s*\n/).map(block => `<p>${this.escape(block).replace(/\n/g, '<br>')}</p>`).join('\n');
+  }
+
+  private static summary(model: ReportModel): string {
+    const { summary, health } = model;
+    const cards: Array<[string, number]> = [
+      ['Pages Analyzed', summary.pagesAnalyzed],
+      ['High Priority Pages', summary.highPriorityPages],
+      ['Medium Priority Pages', summary.mediumPriorityPages],
+      ['Images Missing Alt Text', summary.imagesMissingAlt],
+      ['Pages Skipped', summary.pagesSkipped]
+    ];
+
+    return `<section id="summary">
+<h2>Executive Summary</h2>
+<p>This report provides a comprehensive SEO analysis of your website. Our automated scanner reviewed ${summary.pagesAnalyzed} pages and identified key opportunities for improvement.</p>
+<div class="cards">
+${cards.map(([label, value]) => `<div class="card"><div class="value">${value}</div><div class="label">${label}</div></div>`).join('\n')}
+</div>
+<div class="charts">
+${ReportCharts.priorityDistribution(model)}
+${ReportCharts.issueCategories(model)}
+${ReportCharts.altCoverage(model)}
+</div>
+${health ? `<h3>Site Health</h3>
+${[{ label: 'Overall', score: health.score }, ...health.categories].map(category => this.bar(category.label, category.score)).join('\n')}` : ''}
+</section>`;
+  }
+
+  private static bar(label: string, score: number): string {
+    const color = healthColor(score);
+    return `<div class="bar"><span class="name">${this.escape(label)}</span><span class="track"><span class="fill" style="display: block; width: ${Math.max(0, Math.min(100, score))}%; background: ${color}"></span></span><span class="num" style="color: ${color}">${score}</span></div>`;
+  }
+
+  private static changes(changes: ScanComparison | null): string {
+    if (!changes) {
+      return `<section id="changes">
+<h2>Changes Since Last Scan</h2>
+<p>This is the first completed scan of this project, so there is nothing to compare with yet.</p>
+</section>`;
+    }
+
+    const { base, current } = changes;
+    let delta = '';
+    if (base.healthScore !== undefined && current.healthScore !== undefined) {
+      const change = current.healthScore - base.healthScore;
+      const color = change > 0 ? '#16a34a' : change < 0 ? '#dc2626' : '#6b7280';
+      delta = `<p><strong>Site Health Score:</strong> ${base.healthScore} → ${current.healthScore} <strong style="color: ${color}">(${change > 0 ? '+' : ''}${change})</strong></p>`;
+    }
+
+    const list = (title: string, items: string[]) => items.length === 0 ? '' : `<h3>${title} (${items.length})</h3>
+<ul>
+${items.slice(0, MAX_CHANGES_LISTED).map(item => `<li>${item}</li>`).join('\n')}
+${items.length > MAX_CHANGES_LISTED ? `<li class="muted">…and ${items.length - MAX_CHANGES_LISTED} more</li>` : ''}
+</ul>`;
+
+    return `<section id="changes">
+<h2>Changes Since Last Scan</h2>
+<p>Compared with the scan from ${this.escape(formatReportDate(base.createdAt))}.</p>
+${delta}
+${list('New Issues', changes.newIssues.map(issue => `<strong style="color: ${SEVERITY_COLORS[issue.severity]}">${this.escape(issue.title)}:</strong> ${this.escape(issue.url)}`))}
+${list('Resolved Issues', changes.resolvedIssues.map(issue => `<strong class="good">${this.escape(issue.title)}:</strong> ${this.escape(issue.url)}`))}
+${list('Pages Added', changes.pagesAdded.map(url => this.escape(url)))}
+${list('Pages Removed', changes.pagesRemoved.map(url => this.escape(url)))}
+${list('Title &amp; Description Changes', changes.metadataChanges.map(change =>
+  `<strong>${change.field === 'title' ? 'Title' : 'Description'} on ${this.escape(change.url)}:</strong> "${this.escape(change.before || '(none)')}" → "${this.escape(change.after || '(none)')}"`))}
+</section>`;
+  }
+
+  private static findings(model: ReportModel): string {
+    if (model.findings.length === 0) {
+      return `<section id="findings">
+<h2>Key Findings</h2>
+<p><span class="good">✅ Great job!</span> No SEO issues were found on the scanned pages.</p>
+</section>`;
+    }
+
+    return `<section id="findings">
+<h2>Key Findings</h2>
+<ul>
+${model.findings.map(summary => {
+  const more = summary.pageCount > summary.urls.length ? ` and ${summary.pageCount - summary.urls.length} more` : '';
+  return `<li>${this.severityTag(summary.severity)} <strong>${this.escape(summary.title)}</strong>: ${summary.pageCount} ${summary.pageCount === 1 ? 'page' : 'pages'}. ${this.escape(summary.description)}
+<div class="muted">Affected: ${summary.urls.map(url => this.escape(url)).join(', ')}${more}</div></li>`;
+}).join('\n')}
+</ul>
+</section>`;
+  }
+
+  private static pages(pages: ReportPage[]): string {
+    return `<section id="pages">
+<h2>Detailed Page Analysis</h2>
+${pages.map(page => this.page(page)).join('\n')}
+</section>`;
+  }
+
+  private static page(page: ReportPage): string {
+    const issues = page.issues.length === 0 ? '' : `<h3>Issues</h3>
+<ul>
+${page.issues.map(issue => `<li><strong style="color: ${SEVERITY_COLORS[issue.severity]}">${this.escape(issue.title)}:</strong> ${this.escape(issue.message)}
+<div class="muted"><strong class="good">Fix:</strong> ${this.escape(issue.fix)}</div></li>`).join('\n')}
+</ul>`;
+
+    const social = !page.social ? '' : `<h3>Social Sharing</h3>
+<p>${page.social.issues.map(issue => this.escape(issue)).join('; ')}</p>
+<dl>
+${page.social.recommendedTags.map(({ tag, value }) => `<dt>${this.escape(tag)}</dt><dd class="recommended">${this.escape(value)}</dd>`).join('\n')}
+</dl>`;
+
+    // High priority pages start expanded
+    return `<details${page.priority === 'high' ? ' open' : ''}>
+<summary><span class="tag" style="background: ${PRIORITY_COLORS[page.priority]}">${page.priority}</span><span class="url">${this.escape(page.url)}</span><span class="muted">Score ${page.score}/100 · ${page.issues.length} ${page.issues.length === 1 ? 'issue' : 'issues'}</span></summary>
+<div class="body">
+${issues}
+<dl>
+<dt>Current Title (${page.title.length} chars)</dt><dd>${page.title ? this.escape(page.title) : '<em>Missing</em>'}</dd>
+<dt>Recommended Title</dt><dd class="recommended">${this.escape(page.recommendedTitle)}</dd>
+<dt>Current Description (${page.metaDescription.length} chars)</dt><dd>${page.metaDescription ? this.escape(page.metaDescription) : '<em>Missing</em>'}</dd>
+<dt>Recommended Description</dt><dd class="recommended">${this.escape(page.recommendedDescription)}</dd>
+<dt>Content</dt><dd>${page.wordCount} words, ${page.headingCounts.h1} H1, ${page.headingCounts.h2} H2, ${page.headingCounts.h3} H3 tags</dd>
+</dl>
+${social}
+</div>
+</details>`;
+  }
+
+  private static images(model: ReportModel): string {
+    const { imagesMissingAlt, totalImages } = model.summary;
+    if (imagesMissingAlt === 0) {
+      return `<section id="images">
+<h2>Image Optimization Analysis</h2>
+<p><span class="good">✅ Great job!</span> All images have alt text.</p>
+</section>`;
+    }
+
+    return `<section id="images">
+<h2>Image Optimization Analysis</h2>
+<p>${imagesMissingAlt} out of ${totalImages} images are missing alt text.</p>
+${model.images.map(page => `<details>
+<summary><span class="url">${this.escape(page.url)}</span><span class="muted">${page.missingAlt.length} missing</span></summary>
+<div class="body">
+<ul>
+${page.missingAlt.map(image => {
+  const dimensions = image.width && image.height ? ` (${image.width}x${image.height})` : '';
+  return `<li><strong>${this.escape(image.fileName)}</strong>${dimensions}
+<div class="muted">${this.escape(image.src)}</div>
+<div class="recommended">Recommended alt text: ${this.escape(image.recommendedAlt)}</div></li>`;
+}).join('\n')}
+</ul>
+</div>
+</details>`).join('\n')}
+</section>`;
+  }
+
+  private static rendering(model: ReportModel): string {
+    const rendering = model.rendering;
+    if (!rendering) return '';
+
+    const intro = `<p>We compared the raw HTML returned by your server with the page after JavaScript ran for ${rendering.pagesCompared} pages. Search engines and social crawlers that do not execute JavaScript only see the raw HTML.</p>`;
+    if (rendering.pagesAffected === 0) {
+      return `<section id="rendering">
+<h2>JavaScript Rendering Analysis</h2>
+${intro}
+<p><span class="good">✅ Great job!</span> All SEO elements are present in the server-rendered HTML.</p>
+</section>`;
+    }
+
+    return `<section id="rendering">
+<h2>JavaScript Rendering Analysis</h2>
+${intro}
+<p>${rendering.pagesAffected} out of ${rendering.pagesCompared} compared pages depend on JavaScript for at least one SEO element. Render these elements on the server to make sure every crawler sees them.</p>
+${rendering.pages.map(page => `<h3>${this.escape(page.url)}</h3>
+<ul>
+${page.differences.map(difference => `<li><strong>${RENDER_ELEMENT_LABELS[difference.element]}:</strong> <span style="color: ${difference.change === 'changed' ? '#ea580c' : '#dc2626'}">${RENDER_CHANGE_LABELS[difference.change]}</span>
+<div class="muted">Raw HTML: ${difference.raw ? this.escape(difference.raw) : '<em>Missing</em>'}</div>
+<div class="muted">Rendered: ${difference.rendered ? this.escape(difference.rendered) : '<em>Missing</em>'}</div></li>`).join('\n')}
+</ul>`).join('\n')}
+</section>`;
+  }
+
+  private static links(model: ReportModel): string {
+    const { errorPages, brokenLinks, redirects } = model.links;
+    if (errorPages.length === 0 && brokenLinks.length === 0 && redirects.length === 0) {
+      return `<section id="links">
+<h2>HTTP Status &amp; Link Analysis</h2>
+<p><span class="good">✅ Great job!</span> No broken links, error pages or redirects were found.</p>
+</section>`;
+    }
+
+    return `<section id="links">
+<h2>HTTP Status &amp; Link Analysis</h2>
+${errorPages.length === 0 ? '' : `<h3>Pages Returning Errors</h3>
+<ul>
+${errorPages.map(error => `<li><strong style="color: #dc2626">${error.status ? `HTTP ${error.status}` : this.escape(error.reason)}:</strong> ${this.escape(error.url)}</li>`).join('\n')}
+</ul>`}
+${brokenLinks.length === 0 ? '' : `<h3>Broken Links</h3>
+<ul>
+${brokenLinks.map(link => `<li><strong style="color: #dc2626">${link.status ? `HTTP ${link.status}` : this.escape(link.reason)}:</strong> ${this.escape(link.url)}${link.external ? ' <em>(external)</em>' : ''}
+<div class="muted">Linked from: ${link.foundOn.map(url => this.escape(url)).join(', ')}</div></li>`).join('\n')}
+</ul>`}
+${redirects.length === 0 ? '' : `<h3>Redirected Pages</h3>
+<p class="muted">Internal links should point directly at the final URL to avoid wasting crawl budget.</p>
+<ul>
+${redirects.map(redirect => `<li>${redirect.chain.map(hop => `${this.escape(hop.url)} (${hop.status})`).join(' → ')} → ${this.escape(redirect.finalUrl)}</li>`).join('\n')}
+</ul>`}
+</section>`;
+  }
+
+  private static structuredData(model: ReportModel): string {
+    const structuredData = model.structuredData;
+    if (!structuredData) return '';
+
+    const intro = '<p>Structured data (schema.org markup) helps search engines understand your content and makes pages eligible for rich results such as product ratings, breadcrumbs and FAQs.</p>';
+    if (structuredData.pages.length === 0) {
+      return `<section id="structured-data">
+<h2>Structured Data Analysis</h2>
+${intro}
+<p><span class="good">✅ Great job!</span> Every page has valid structured data.</p>
+</section>`;
+    }
+
+    return `<section id="structured-data">
+<h2>Structured Data Analysis</h2>
+${intro}
+${structuredData.pages.map(page => `<details>
+<summary><span class="url">${this.escape(page.url)}</span><span class="muted">${page.issues.length} ${page.issues.length === 1 ? 'issue' : 'issues'}</span></summary>
+<div class="body">
+${page.found.length > 0 ? `<p><strong>Found:</strong> ${page.found.map(item => `${this.escape(item.type || 'Untyped')} (${STRUCTURED_DATA_FORMAT_LABELS[item.format]})`).join(', ')}</p>` : ''}
+${page.issues.length > 0 ? `<ul>
+${page.issues.map(issue => `<li><strong style="color: ${issue.severity === 'error' ? '#dc2626' : '#ea580c'}">${issue.severity === 'error' ? 'Error' : 'Warning'} (${this.escape(issue.type)}):</strong> ${this.escape(issue.message)}</li>`).join('\n')}
+</ul>` : ''}
+${page.suggestedJsonLd ? `<p class="good">No structured data found. Suggested JSON-LD:</p>
+<pre>${this.escape(page.suggestedJsonLd)}</pre>` : ''}
+</div>
+</details>`).join('\n')}
+</section>`;
+  }
+
+  private static recommendations(model: ReportModel): string {
+    const groups = [
+      { label: 'High Priority Actions', severity: 'high' },
+      { label: 'Medium Priority Actions', severity: 'medium' },
+      { label: 'Low Priority Actions', severity: 'low' }
+    ];
+
+    return `<section id="recommendations">
+<h2>Implementation Recommendations</h2>
+${groups.map(group => {
+  const summaries = model.findings.filter(summary => summary.severity === group.severity);
+  if (summaries.length === 0) return '';
+  return `<h3>${group.label}</h3>
+<ol>
+${summaries.map(summary => `<li><strong>${this.escape(summary.title)}</strong> - ${this.escape(summary.description)} (${summary.pageCount} ${summary.pageCount === 1 ? 'page' : 'pages'})</li>`).join('\n')}
+</ol>`;
+}).join('\n')}
+</section>`;
+  }
+
+  private static severityTag(severity: keyof typeof SEVERITY_COLORS): string {
+    return `<span class="tag" style="background: ${SEVERITY_COLORS[severity]}">${severity}</span>`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,41 @@
+import { launchBrowser } from '../utils/browser';
+import { ReportModel } from './ReportModel';
+import { HtmlRenderer } from './HtmlRenderer';
+
+const RENDER_TIMEOUT_MS = 60000;
+
+// Renders wait for each other so only one extra Chromium runs next to the scans
+let queue: Promise<unknown> = Promise.resolve();
+
+// Prints the HTML report with headless Chromium. Charts are inline SVG, so the page
+// needs neither scripts nor network access.
+export class PdfRenderer {
+  static render(model: ReportModel): Promise<Buffer> {
+    const result = queue.then(() => this.print(model));
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static async print(model: ReportModel): Promise<Buffer> {
+    const browser = await launchBrowser();
+    try {
+      const page = await browser.newPage();
+      await page.setJavaScriptEnabled(false);
+      await page.emulateMediaType('print');
+      await page.setContent(HtmlRenderer.render(model, { expandAll: true }), { waitUntil: 'load', timeout: RENDER_TIMEOUT_MS });
+
+      const pdf = await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', right: '14mm', bottom: '18mm', left: '14mm' },
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate: '<div style="width: 100%; font-size: 8px; color: #6b7280; text-align: center;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>',
+        timeout: RENDER_TIMEOUT_MS
+      });
+      return Buffer.from(pdf);
+    } finally {
+      await browser.close();
+    }
+  }
+}
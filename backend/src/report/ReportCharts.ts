@@ -0,0 +1,108 @@
+import { RuleCategory } from '../types';
+import { ReportModel, CATEGORY_LABELS } from './ReportModel';
+
+interface ChartItem {
+  label: string;
+  value: number;
+  color: string;
+}
+
+// Summary charts as inline SVG: they need no script or external request, so they show up the same
+// in a browser, an e-mailed HTML file and a PDF printed by Chromium
+export class ReportCharts {
+  static priorityDistribution(model: ReportModel): string {
+    const { colors } = model.branding;
+    const { highPriorityPages, mediumPriorityPages, lowPriorityPages, pagesAnalyzed } = model.summary;
+
+    return this.donut('Pages by Priority', [
+      { label: 'High', value: highPriorityPages, color: colors.secondary },
+      { label: 'Medium', value: mediumPriorityPages, color: colors.tertiary },
+      { label: 'Low', value: lowPriorityPages, color: colors.primary }
+    ], String(pagesAnalyzed), 'pages');
+  }
+
+  // How many pages each category's issues affect, summed over the rules in that category
+  static issueCategories(model: ReportModel): string {
+    const counts = new Map<RuleCategory, number>();
+    model.findings.forEach(finding => {
+      counts.set(finding.category, (counts.get(finding.category) || 0) + finding.pageCount);
+    });
+
+    return this.bars('Issues by Category', (Object.keys(CATEGORY_LABELS) as RuleCategory[]).map(category => ({
+      label: CATEGORY_LABELS[category],
+      value: counts.get(category) || 0,
+      color: model.branding.colors.primary
+    })));
+  }
+
+  static altCoverage(model: ReportModel): string {
+    const { colors } = model.branding;
+    const { totalImages, imagesMissingAlt } = model.summary;
+    const coverage = totalImages === 0 ? 100 : Math.round(((totalImages - imagesMissingAlt) / totalImages) * 100);
+
+    return this.donut('Image Alt Text Coverage', [
+      { label: 'With alt text', value: totalImages - imagesMissingAlt, color: colors.tertiary },
+      { label: 'Missing alt text', value: imagesMissingAlt, color: colors.secondary }
+    ], `${coverage}%`, 'covered');
+  }
+
+  private static donut(title: string, items: ChartItem[], centerValue: string, centerLabel: string): string {
+    const radius = 60;
+    const circumference = 2 * Math.PI * radius;
+    const total = items.reduce((sum, item) => sum + item.value, 0);
+
+    // Each segment is a dashed stroke on the same circle, offset by the segments before it
+    let offset = 0;
+    const segments = items.filter(item => item.value > 0).map(item => {
+      const length = (item.value / total) * circumference;
+      const segment = `<circle cx="90" cy="90" r="${radius}" fill="none" stroke="${item.color}" stroke-width="28" stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}" transform="rotate(-90 90 90)"/>`;
+      offset += length;
+      return segment;
+    });
+
+    const legend = items.map((item, index) =>
+      `<g transform="translate(185 ${50 + index * 26})"><rect width="14" height="14" rx="3" fill="${item.color}"/><text x="22" y="12" font-size="13" fill="#374151">${this.escape(item.label)}: ${item.value}</text></g>`);
+
+    return `<figure class="chart">
+<figcaption>${this.escape(title)}</figcaption>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 360 180" width="100%" role="img" aria-label="${this.escape(title)}">
+<circle cx="90" cy="90" r="${radius}" fill="none" stroke="#e5e7eb" stroke-width="28"/>
+${segments.join('\n')}
+<text x="90" y="90" text-anchor="middle" font-size="22" font-weight="700" fill="#1f2937">${this.escape(centerValue)}</text>
+<text x="90" y="108" text-anchor="middle" font-size="11" fill="#6b7280">${this.escape(centerLabel)}</text>
+${legend.join('\n')}
+</svg>
+</figure>`;
+  }
+
+  private static bars(title: string, items: ChartItem[]): string {
+    const max = Math.max(1, ...items.map(item => item.value));
+    const rowHeight = 26;
+    const labelWidth = 120;
+    const barWidth = 190;
+
+    const rows = items.map((item, index) => {
+      const y = 10 + index * rowHeight;
+      const width = (item.value / max) * barWidth;
+      return `<text x="${labelWidth - 8}" y="${y + 13}" text-anchor="end" font-size="12" fill="#374151">${this.escape(item.label)}</text>
+<rect x="${labelWidth}" y="${y + 2}" width="${barWidth}" height="14" rx="3" fill="#f3f4f6"/>
+<rect x="${labelWidth}" y="${y + 2}" width="${width.toFixed(2)}" height="14" rx="3" fill="${item.color}"/>
+<text x="${labelWidth + barWidth + 8}" y="${y + 13}" font-size="12" font-weight="600" fill="#374151">${item.value}</text>`;
+    });
+
+    return `<figure class="chart">
+<figcaption>${this.escape(title)}</figcaption>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 360 ${20 + items.length * rowHeight}" width="100%" role="img" aria-label="${this.escape(title)}">
+${rows.join('\n')}
+</svg>
+</figure>`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,36 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export type LinkCheck = 'valid' | 'expired' | 'invalid';
+
+// Without a configured secret, links stop working when the server restarts
+const secret = process.env.REPORT_SIGNING_SECRET || randomBytes(32).toString('hex');
+if (!process.env.REPORT_SIGNING_SECRET) {
+  console.warn('REPORT_SIGNING_SECRET is not set; report download links will not survive a restart');
+}
+
+// Download links carry their expiry and an HMAC of the report id and expiry, so a report can only be
+// fetched through a link the API handed out, and only until the stored report itself expires
+export class ReportLinks {
+  static downloadUrl(reportId: string, expiresAt: Date): string {
+    const expires = expiresAt.getTime();
+    return `/api/report/${reportId}/download?expires=${expires}&signature=${this.signature(reportId, expires)}`;
+  }
+
+  static verify(reportId: string, expires: unknown, signature: unknown): LinkCheck {
+    if (typeof expires !== 'string' || !/^\d{1,15}$/.test(expires) || typeof signature !== 'string') {
+      return 'invalid';
+    }
+
+    const expected = Buffer.from(this.signature(reportId, Number(expires)), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return 'invalid';
+    }
+
+    return Number(expires) > Date.now() ? 'valid' : 'expired';
+  }
+
+  private static signature(reportId: string, expires: number): string {
+    return createHmac('sha256', secret).update(`${reportId}:${expires}`).digest('hex');
+  }
+}
@@ -0,0 +1,332 @@
+import {
+  ScanData, ScanSession, BrandColors, RuleCategory, IssueSeverity, SeoIssue, IssueSummary, ExtractedPage,
+  RenderDifference, StructuredDataFormat, StructuredDataIssue, ScanComparison, ReportSectionId, BrandingSettings,
+  BrandingContact
+} from '../types';
+import { HealthScore } from '../rules/HealthScore';
+
+// Bump on any change that could break a consumer of the JSON report; adding optional fields is not one
+export const REPORT_SCHEMA_VERSION = 1;
+
+// Everything a report shows, independent of the file format. Renderers walk `sections` in order
+// and skip sections whose data is missing.
+export interface ReportModel {
+  schemaVersion: number;
+  generatedAt: string;
+  sessionId: string;
+  url: string;
+  scannedAt?: string;
+  // White-label details from a branding profile; only the colours are always set
+  branding: {
+    colors: Required<BrandColors>;
+    logo?: string;
+    agencyName?: string;
+    clientName?: string;
+    contact?: BrandingContact;
+    introText?: string;
+    callToAction?: string;
+  };
+  sections: ReportSectionId[];
+  health?: {
+    score: number;
+    label: string;
+    categories: Array<{ category: RuleCategory; label: string; score: number }>;
+  };
+  summary: {
+    pagesAnalyzed: number;
+    pagesSkipped: number;
+    highPriorityPages: number;
+    mediumPriorityPages: number;
+    lowPriorityPages: number;
+    totalImages: number;
+    imagesMissingAlt: number;
+  };
+  // Only when requested; null when there is no earlier scan to compare with
+  changes?: ScanComparison | null;
+  // One finding per rule, most severe and most widespread first
+  findings: IssueSummary[];
+  pages: ReportPage[];
+  images: Array<{
+    url: string;
+    missingAlt: ReportImage[];
+  }>;
+  links: {
+    errorPages: Array<{ url: string; status?: number; reason: string }>;
+    brokenLinks: Array<{ url: string; status: number | null; reason: string; external: boolean; foundOn: string[] }>;
+    redirects: Array<{ url: string; chain: Array<{ url: string; status: number }>; finalUrl: string }>;
+  };
+  structuredData?: {
+    pagesChecked: number;
+    // Pages without markup or with markup problems
+    pages: Array<{
+      url: string;
+      found: Array<{ type: string; format: StructuredDataFormat }>;
+      issues: StructuredDataIssue[];
+      suggestedJsonLd?: string;
+    }>;
+  };
+  rendering?: {
+    pagesCompared: number;
+    pagesAffected: number;
+    pages: Array<{ url: string; differences: RenderDifference[] }>;
+  };
+}
+
+export interface ReportPage {
+  url: string;
+  priority: IssueSeverity;
+  score: number;
+  title: string;
+  recommendedTitle: string;
+  metaDescription: string;
+  recommendedDescription: string;
+  issues: Array<Pick<SeoIssue, 'ruleId' | 'title' | 'severity' | 'message' | 'fix'>>;
+  social?: {
+    issues: string[];
+    recommendedTags: Array<{ tag: string; value: string }>;
+  };
+  wordCount: number;
+  headingCounts: { h1: number; h2: number; h3: number };
+}
+
+export interface ReportImage {
+  src: string;
+  fileName: string;
+  width?: number;
+  height?: number;
+  recommendedAlt: string;
+}
+
+export const DEFAULT_REPORT_SECTIONS: ReportSectionId[] = [
+  'summary', 'changes', 'findings', 'pages', 'images', 'rendering', 'links', 'structuredData', 'recommendations'
+];
+
+export const DEFAULT_BRAND_COLORS: Required<BrandColors> = {
+  primary: '#2563eb',
+  secondary: '#7c3aed',
+  tertiary: '#059669'
+};
+
+// Labels and colours shared by every renderer
+
+export const SEVERITY_COLORS: Record<IssueSeverity, string> = {
+  high: '#dc2626',
+  medium: '#ea580c',
+  low: '#ca8a04'
+};
+
+export const PRIORITY_COLORS: Record<IssueSeverity, string> = {
+  high: '#dc2626',
+  medium: '#ea580c',
+  low: '#16a34a'
+};
+
+export const CATEGORY_LABELS: Record<RuleCategory, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  images: 'Images',
+  technical: 'Technical',
+  links: 'Links',
+  structuredData: 'Structured Data'
+};
+
+export const RENDER_ELEMENT_LABELS: Record<RenderDifference['element'], string> = {
+  title: 'Title',
+  metaDescription: 'Meta Description',
+  canonical: 'Canonical URL',
+  h1: 'H1 Headings',
+  h2: 'H2 Headings',
+  h3: 'H3 Headings',
+  internalLinks: 'Internal Links',
+  structuredData: 'Structured Data'
+};
+
+export const RENDER_CHANGE_LABELS: Record<RenderDifference['change'], string> = {
+  added: 'only present after JavaScript runs',
+  changed: 'changed by JavaScript',
+  removed: 'removed by JavaScript'
+};
+
+export const STRUCTURED_DATA_FORMAT_LABELS: Record<StructuredDataFormat, string> = {
+  'json-ld': 'JSON-LD',
+  'microdata': 'Microdata',
+  'rdfa': 'RDFa'
+};
+
+export function healthColor(score: number): string {
+  if (score >= 90) return '#16a34a';
+  if (score >= 75) return '#65a30d';
+  if (score >= 50) return '#ea580c';
+  return '#dc2626';
+}
+
+export function formatReportDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+const HEX_COLOR = /^#[0-9a-f]{3,8}$/i;
+
+// The scraper stores everything it extracted about an image, not just what ScanData declares
+type StoredImage = ScanData['pages'][number]['images'][number] &
+  Partial<Pick<ExtractedPage['images'][number], 'fileName' | 'width' | 'height'>>;
+
+export interface ReportModelOptions {
+  // Take precedence over the profile's colours
+  brandColors?: BrandColors;
+  branding?: BrandingSettings;
+  changes?: ScanComparison | null;
+}
+
+export class ReportModelBuilder {
+  static build(session: ScanSession, options: ReportModelOptions = {}): ReportModel {
+    const scanData = session.scan_data;
+    const pages = scanData.pages;
+    const images = pages.flatMap(page => page.images);
+    const branding = options.branding;
+    const colors = { ...branding?.colors, ...options.brandColors };
+
+    return {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      sessionId: session.id,
+      url: session.url,
+      scannedAt: scanData.completedAt,
+      branding: {
+        colors: {
+          primary: this.brandColor(colors.primary, DEFAULT_BRAND_COLORS.primary),
+          secondary: this.brandColor(colors.secondary, DEFAULT_BRAND_COLORS.secondary),
+          tertiary: this.brandColor(colors.tertiary, DEFAULT_BRAND_COLORS.tertiary)
+        },
+        logo: branding?.logo,
+        agencyName: branding?.agencyName,
+        clientName: branding?.clientName,
+        contact: branding?.contact,
+        introText: branding?.introText,
+        callToAction: branding?.callToAction
+      },
+      // The changes section needs a comparison, which is only made when asked for
+      sections: (branding?.sections || DEFAULT_REPORT_SECTIONS)
+        .filter(section => section !== 'changes' || options.changes !== undefined),
+      health: scanData.health && {
+        score: scanData.health.score,
+        label: HealthScore.label(scanData.health.score),
+        categories: (Object.keys(CATEGORY_LABELS) as RuleCategory[]).map(category => ({
+          category,
+          label: CATEGORY_LABELS[category],
+          score: scanData.health!.categories[category]
+        }))
+      },
+      summary: {
+        pagesAnalyzed: scanData.pagesProcessed,
+        pagesSkipped: scanData.pagesSkipped,
+        highPriorityPages: pages.filter(page => page.recommendations.priority === 'high').length,
+        mediumPriorityPages: pages.filter(page => page.recommendations.priority === 'medium').length,
+        lowPriorityPages: pages.filter(page => page.recommendations.priority === 'low').length,
+        totalImages: images.length,
+        imagesMissingAlt: images.filter(image => !image.currentAlt).length
+      },
+      changes: options.changes,
+      findings: scanData.issueSummary || [],
+      pages: pages.map(page => this.page(page)),
+      images: pages
+        .map(page => ({
+          url: page.url,
+          missingAlt: (page.images as StoredImage[]).filter(image => !image.currentAlt).map(image => this.image(image))
+        }))
+        .filter(page => page.missingAlt.length > 0),
+      links: this.links(scanData),
+      structuredData: this.structuredData(scanData),
+      rendering: this.rendering(scanData)
+    };
+  }
+
+  // Colours end up in stylesheets and SVG, so only plain hex values are let through
+  private static brandColor(value: string | undefined, fallback: string): string {
+    return value && HEX_COLOR.test(value) ? value : fallback;
+  }
+
+  private static page(page: ScanData['pages'][number]): ReportPage {
+    const social = page.recommendations.social;
+    const hasSocialIssues = social && page.social && page.social.issues.length > 0;
+
+    return {
+      url: page.url,
+      priority: page.recommendations.priority,
+      score: page.score,
+      title: page.title,
+      recommendedTitle: page.recommendations.title,
+      metaDescription: page.metaDescription,
+      recommendedDescription: page.recommendations.metaDescription,
+      issues: (page.issues || []).map(({ ruleId, title, severity, message, fix }) => ({ ruleId, title, severity, message, fix })),
+      social: hasSocialIssues ? {
+        issues: page.social.issues.map(issue => issue.message),
+        recommendedTags: [
+          { tag: 'og:title', value: social.ogTitle },
+          { tag: 'og:description', value: social.ogDescription },
+          { tag: 'og:image', value: social.ogImage },
+          { tag: 'og:url', value: social.ogUrl },
+          { tag: 'og:type', value: social.ogType },
+          { tag: 'twitter:card', value: social.twitterCard }
+        ].filter(({ value }) => value)
+      } : undefined,
+      wordCount: page.wordCount,
+      headingCounts: {
+        h1: page.headings.h1.length,
+        h2: page.headings.h2.length,
+        h3: page.headings.h3.length
+      }
+    };
+  }
+
+  private static image(image: StoredImage): ReportImage {
+    return {
+      src: image.src,
+      fileName: image.fileName || image.src.split('/').pop()?.split('?')[0] || 'Unknown',
+      width: image.width || undefined,
+      height: image.height || undefined,
+      recommendedAlt: image.recommendedAlt
+    };
+  }
+
+  private static links(scanData: ScanData): ReportModel['links'] {
+    return {
+      errorPages: scanData.errors
+        .filter(error => error.status !== undefined || error.reason === 'Redirect loop')
+        .map(({ url, status, reason }) => ({ url, status, reason })),
+      brokenLinks: (scanData.linkCheck?.broken || []).map(({ url, status, reason, external, foundOn }) => ({ url, status, reason, external, foundOn })),
+      redirects: scanData.pages
+        .filter(page => page.http && page.http.redirectChain.length > 0)
+        .map(page => ({ url: page.url, chain: page.http.redirectChain, finalUrl: page.http.finalUrl }))
+    };
+  }
+
+  private static structuredData(scanData: ScanData): ReportModel['structuredData'] {
+    const pages = scanData.pages.filter(page => page.structuredData);
+    if (pages.length === 0) return undefined;
+
+    return {
+      pagesChecked: pages.length,
+      pages: pages
+        .filter(page => page.structuredData.items.length === 0 || page.structuredData.issues.length > 0)
+        .map(page => ({
+          url: page.url,
+          found: page.structuredData.items.map(({ type, format }) => ({ type, format })),
+          issues: page.structuredData.issues,
+          suggestedJsonLd: page.structuredData.suggestedJsonLd
+        }))
+    };
+  }
+
+  private static rendering(scanData: ScanData): ReportModel['rendering'] {
+    const rendering = scanData.rendering;
+    if (!rendering || rendering.pagesCompared === 0) return undefined;
+
+    return {
+      pagesCompared: rendering.pagesCompared,
+      pagesAffected: rendering.pagesAffected,
+      pages: scanData.pages
+        .filter(page => page.renderDiff && page.renderDiff.length > 0)
+        .map(page => ({ url: page.url, differences: page.renderDiff! }))
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import JSZip from 'jszip';
+import { Cell, Sheet } from './FindingsSheets';
+
+// Excel refuses cells longer than this
+const MAX_CELL_LENGTH = 32767;
+const MAX_COLUMN_WIDTH = 60;
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+// Writes a minimal SpreadsheetML workbook: one worksheet per sheet, a bold frozen header row and
+// inline strings, so no shared string table is needed. Inline strings are never evaluated as formulas.
+export class XlsxExporter {
+  static async export(sheets: Sheet[]): Promise<Buffer> {
+    const zip = new JSZip();
+    // Folder entries are not part of the package format
+    const add = (name: string, content: string) => zip.file(name, content, { createFolders: false });
+
+    add('[Content_Types].xml', this.xml(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`));
+
+    add('_rels/.rels', this.xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`));
+
+    add('xl/workbook.xml', this.xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>
+${sheets.map((sheet, index) => `<sheet name="${this.escape(sheet.name.slice(0, 31))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('\n')}
+</sheets>
+</workbook>`));
+
+    add('xl/_rels/workbook.xml.rels', this.xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`));
+
+    // Style 0 is the default, style 1 the bold header
+    add('xl/styles.xml', this.xml(`<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`));
+
+    sheets.forEach((sheet, index) => {
+      add(`xl/worksheets/sheet${index + 1}.xml`, this.worksheet(sheet));
+    });
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  private static worksheet(sheet: Sheet): string {
+    const columnCount = Math.max(0, ...sheet.rows.map(row => row.length));
+    const widths = Array.from({ length: columnCount }, (_, column) => Math.min(MAX_COLUMN_WIDTH,
+      Math.max(10, ...sheet.rows.map(row => String(row[column] ?? '').length + 2))));
+
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const cells = row.map((cell, column) => this.cell(cell, `${this.columnName(column)}${rowIndex + 1}`, rowIndex === 0));
+      return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+
+    const lastCell = `${this.columnName(Math.max(0, columnCount - 1))}${Math.max(1, sheet.rows.length)}`;
+
+    return this.xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+${columnCount > 0 ? `<cols>${widths.map((width, column) => `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>` : ''}
+<sheetData>
+${rows.join('\n')}
+</sheetData>
+${sheet.rows.length > 1 ? `<autoFilter ref="A1:${lastCell}"/>` : ''}
+</worksheet>`);
+  }
+
+  private static cell(value: Cell, ref: string, header: boolean): string {
+    const style = header ? ' s="1"' : '';
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${ref}"${style}><v>${value}</v></c>`;
+    }
+
+    const text = String(value ?? '').replace(INVALID_XML_CHARS, '').slice(0, MAX_CELL_LENGTH);
+    return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${this.escape(text)}</t></is></c>`;
+  }
+
+  // 0 → A, 25 → Z, 26 → AA
+  private static columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static xml(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+  }
+}
@@ -0,0 +1,54 @@
+import { ScanData, SiteHealth, RuleCategory, IssueSeverity } from '../types';
+
+// How much each category contributes to the overall site score
+const CATEGORY_WEIGHTS: Record<RuleCategory, number> = {
+  metadata: 0.25,
+  content: 0.2,
+  technical: 0.2,
+  links: 0.15,
+  images: 0.1,
+  structuredData: 0.1
+};
+
+// Points a single issue takes off its category score on that page
+const CATEGORY_DEDUCTIONS: Record<IssueSeverity, number> = {
+  high: 50,
+  medium: 25,
+  low: 10
+};
+
+export class HealthScore {
+  static calculate(scanData: ScanData): SiteHealth {
+    const categories = Object.keys(CATEGORY_WEIGHTS) as RuleCategory[];
+    const totals = Object.fromEntries(categories.map(category => [category, 0])) as Record<RuleCategory, number>;
+
+    scanData.pages.forEach(page => {
+      categories.forEach(category => {
+        const deductions = (page.issues || [])
+          .filter(issue => issue.category === category)
+          .reduce((sum, issue) => sum + CATEGORY_DEDUCTIONS[issue.severity], 0);
+        totals[category] += Math.max(0, 100 - deductions);
+      });
+    });
+
+    // Pages that could not be loaded at all score zero for technical health
+    const errorPages = scanData.errors.length;
+    const scores = Object.fromEntries(categories.map(category => {
+      const pageCount = scanData.pages.length + (category === 'technical' ? errorPages : 0);
+      return [category, pageCount > 0 ? Math.round(totals[category] / pageCount) : 100];
+    })) as Record<RuleCategory, number>;
+
+    const score = Math.round(
+      categories.reduce((sum, category) => sum + scores[category] * CATEGORY_WEIGHTS[category], 0)
+    );
+
+    return { score, categories: scores };
+  }
+
+  static label(score: number): string {
+    if (score >= 90) return 'Excellent';
+    if (score >= 75) return 'Good';
+    if (score >= 50) return 'Needs Improvement';
+    return 'Poor';
+  }
+}
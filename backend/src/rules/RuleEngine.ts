@@ -0,0 +1,183 @@
+import {
+  ScanData,
+  SeoIssue,
+  IssueSeverity,
+  RuleCategory,
+  RuleSettings,
+  RuleDefinition,
+  IssueSummary,
+  BrokenLink,
+  DuplicateCluster
+} from '../types';
+import { DEFAULT_RULES } from './defaultRules';
+
+export type RulePage = ScanData['pages'][number];
+
+// Site-wide facts that only exist once the crawl has finished
+export interface RuleContext {
+  duplicateTypes: Map<string, Set<DuplicateCluster['type']>>;
+  brokenLinks: Map<string, BrokenLink[]>;
+}
+
+export interface RuleFinding {
+  message: string;
+  fix: string;
+}
+
+export interface SeoRule {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: IssueSeverity;
+  thresholds?: Record<string, number>;
+  describe(thresholds: Record<string, number>): string;
+  check(page: RulePage, context: RuleContext, thresholds: Record<string, number>): RuleFinding | null;
+}
+
+// Points deducted from a page's 100 point score per issue
+const SEVERITY_WEIGHTS: Record<IssueSeverity, number> = {
+  high: 15,
+  medium: 7,
+  low: 3
+};
+
+export const EMPTY_RULE_CONTEXT: RuleContext = {
+  duplicateTypes: new Map(),
+  brokenLinks: new Map()
+};
+
+export class RuleEngine {
+  private rules = new Map<string, SeoRule>();
+
+  constructor(private settings: RuleSettings = {}, rules: SeoRule[] = DEFAULT_RULES) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  register(rule: SeoRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule ${rule.id} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  listRules(): RuleDefinition[] {
+    return Array.from(this.rules.values()).map(rule => {
+      const thresholds = this.thresholds(rule.id);
+      return {
+        id: rule.id,
+        title: rule.title,
+        category: rule.category,
+        severity: this.severity(rule),
+        description: rule.describe(thresholds),
+        thresholds
+      };
+    });
+  }
+
+  isEnabled(ruleId: string): boolean {
+    return this.rules.has(ruleId) && this.settings[ruleId]?.enabled !== false;
+  }
+
+  thresholds(ruleId: string): Record<string, number> {
+    return { ...this.rules.get(ruleId)?.thresholds, ...this.settings[ruleId]?.thresholds };
+  }
+
+  evaluatePage(page: RulePage, context: RuleContext = EMPTY_RULE_CONTEXT): { issues: SeoIssue[]; score: number } {
+    const issues: SeoIssue[] = [];
+
+    this.rules.forEach(rule => {
+      if (!this.isEnabled(rule.id)) return;
+
+      const finding = rule.check(page, context, this.thresholds(rule.id));
+      if (finding) {
+        issues.push({
+          ruleId: rule.id,
+          title: rule.title,
+          severity: this.severity(rule),
+          category: rule.category,
+          ...finding
+        });
+      }
+    });
+
+    const deductions = issues.reduce((sum, issue) => sum + SEVERITY_WEIGHTS[issue.severity], 0);
+    return { issues, score: Math.max(0, 100 - deductions) };
+  }
+
+  // Re-runs every rule with site-wide context and stores issues, score and priority on each page
+  evaluate(scanData: ScanData): void {
+    const context = RuleEngine.buildContext(scanData);
+
+    scanData.pages.forEach(page => {
+      const { issues, score } = this.evaluatePage(page, context);
+      page.issues = issues;
+      page.score = score;
+      page.recommendations.priority = RuleEngine.priorityFor(score);
+    });
+
+    scanData.ruleSettings = this.settings;
+    scanData.issueSummary = this.summarize(scanData);
+  }
+
+  static priorityFor(score: number): IssueSeverity {
+    if (score <= 70) return 'high';
+    if (score <= 95) return 'medium';
+    return 'low';
+  }
+
+  static buildContext(scanData: ScanData): RuleContext {
+    const duplicateTypes = new Map<string, Set<DuplicateCluster['type']>>();
+    (scanData.duplicates || []).forEach(cluster => {
+      cluster.urls.forEach(url => {
+        const types = duplicateTypes.get(url) || new Set();
+        types.add(cluster.type);
+        duplicateTypes.set(url, types);
+      });
+    });
+
+    const brokenLinks = new Map<string, BrokenLink[]>();
+    (scanData.linkCheck?.broken || []).forEach(link => {
+      link.foundOn.forEach(pageUrl => {
+        brokenLinks.set(pageUrl, [...(brokenLinks.get(pageUrl) || []), link]);
+      });
+    });
+
+    return { duplicateTypes, brokenLinks };
+  }
+
+  private severity(rule: SeoRule): IssueSeverity {
+    return this.settings[rule.id]?.severity || rule.severity;
+  }
+
+  private summarize(scanData: ScanData): IssueSummary[] {
+    const definitions = new Map(this.listRules().map(rule => [rule.id, rule]));
+    const summaries = new Map<string, IssueSummary>();
+
+    scanData.pages.forEach(page => {
+      page.issues.forEach(issue => {
+        let summary = summaries.get(issue.ruleId);
+        if (!summary) {
+          const definition = definitions.get(issue.ruleId)!;
+          summary = {
+            ruleId: issue.ruleId,
+            title: issue.title,
+            severity: issue.severity,
+            category: issue.category,
+            description: definition.description,
+            pageCount: 0,
+            urls: []
+          };
+          summaries.set(issue.ruleId, summary);
+        }
+        summary.pageCount++;
+        if (summary.urls.length < 10) {
+          summary.urls.push(page.url);
+        }
+      });
+    });
+
+    const severityOrder: Record<IssueSeverity, number> = { high: 0, medium: 1, low: 2 };
+    return Array.from(summaries.values())
+      .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity] || b.pageCount - a.pageCount);
+  }
+}
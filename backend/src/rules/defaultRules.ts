@@ -0,0 +1,290 @@
+import { SeoRule } from './RuleEngine';
+
+const JS_CRITICAL_ELEMENTS = ['title', 'metaDescription', 'canonical', 'h1'];
+
+// A fix with the recommended value as its example, or without one when there is nothing to recommend
+const withExample = (fix: string, example: string) => example ? `${fix}, e.g. "${example}"` : fix;
+
+export const DEFAULT_RULES: SeoRule[] = [
+  // Metadata
+  {
+    id: 'title-missing',
+    title: 'Missing Title Tag',
+    category: 'metadata',
+    severity: 'high',
+    describe: () => 'Every page needs a unique, descriptive title tag; it is the headline shown in search results.',
+    check: page => page.title ? null : {
+      message: 'Page has no title tag',
+      fix: withExample('Add a title tag', page.recommendations.title)
+    }
+  },
+  {
+    id: 'title-length',
+    title: 'Title Length',
+    category: 'metadata',
+    severity: 'medium',
+    thresholds: { min: 30, max: 60 },
+    describe: ({ min, max }) => `Title tags should be ${min}-${max} characters long so they are descriptive without being truncated.`,
+    check: (page, context, { min, max }) => {
+      const length = page.title.length;
+      if (!page.title || (length >= min && length <= max)) return null;
+      return {
+        message: `Title is ${length} characters (recommended ${min}-${max})`,
+        fix: withExample('Rewrite the title', page.recommendations.title)
+      };
+    }
+  },
+  {
+    id: 'description-missing',
+    title: 'Missing Meta Description',
+    category: 'metadata',
+    severity: 'high',
+    describe: () => 'Without a meta description search engines pick a random snippet from the page.',
+    check: page => page.metaDescription ? null : {
+      message: 'Page has no meta description',
+      fix: withExample('Add a meta description', page.recommendations.metaDescription)
+    }
+  },
+  {
+    id: 'description-length',
+    title: 'Meta Description Length',
+    category: 'metadata',
+    severity: 'medium',
+    thresholds: { min: 120, max: 160 },
+    describe: ({ min, max }) => `Meta descriptions should be ${min}-${max} characters to maximize search result visibility.`,
+    check: (page, context, { min, max }) => {
+      const length = page.metaDescription.length;
+      if (!page.metaDescription || (length >= min && length <= max)) return null;
+      return {
+        message: `Meta description is ${length} characters (recommended ${min}-${max})`,
+        fix: withExample('Rewrite the description', page.recommendations.metaDescription)
+      };
+    }
+  },
+  {
+    id: 'duplicate-title',
+    title: 'Duplicate Title',
+    category: 'metadata',
+    severity: 'medium',
+    describe: () => 'Pages sharing a title compete with each other in search results.',
+    check: (page, context) => context.duplicateTypes.get(page.url)?.has('title') ? {
+      message: 'Another page uses the same title',
+      fix: 'Give each page a title that describes its own content'
+    } : null
+  },
+  {
+    id: 'duplicate-description',
+    title: 'Duplicate Meta Description',
+    category: 'metadata',
+    severity: 'medium',
+    describe: () => 'Pages sharing a meta description look identical in search results.',
+    check: (page, context) => context.duplicateTypes.get(page.url)?.has('description') ? {
+      message: 'Another page uses the same meta description',
+      fix: 'Write a unique meta description for each page'
+    } : null
+  },
+  {
+    id: 'social-tags',
+    title: 'Social Sharing Tags',
+    category: 'metadata',
+    severity: 'low',
+    describe: () => 'Open Graph and Twitter Card tags control how pages look when shared on social networks.',
+    check: page => {
+      const issues = (page.social?.issues || []).filter(issue => issue.tag !== 'og:image' || issue.type === 'missing');
+      if (issues.length === 0) return null;
+      return {
+        message: issues.map(issue => issue.message).join('; '),
+        fix: 'Add the recommended Open Graph and Twitter Card tags'
+      };
+    }
+  },
+  {
+    id: 'social-image',
+    title: 'Social Share Image',
+    category: 'metadata',
+    severity: 'low',
+    describe: () => 'Share images should be absolute URLs of at least 1200×630px for large previews.',
+    check: page => {
+      const issue = page.social?.issues.find(issue => issue.tag === 'og:image' && issue.type !== 'missing');
+      if (!issue) return null;
+      return {
+        message: issue.message,
+        fix: page.recommendations.social?.ogImage
+          ? `Use ${page.recommendations.social.ogImage} as og:image`
+          : 'Provide a 1200×630px og:image'
+      };
+    }
+  },
+
+  // Content
+  {
+    id: 'thin-content',
+    title: 'Thin Content',
+    category: 'content',
+    severity: 'high',
+    thresholds: { minWords: 50 },
+    describe: ({ minWords }) => `Pages with fewer than ${minWords} words rarely rank; expand them or merge them with related pages.`,
+    check: (page, context, { minWords }) => page.wordCount >= minWords ? null : {
+      message: `Page has only ${page.wordCount} words`,
+      fix: `Expand the content to at least ${minWords} words of useful text`
+    }
+  },
+  {
+    id: 'h1-missing',
+    title: 'Missing H1 Tag',
+    category: 'content',
+    severity: 'medium',
+    describe: () => 'Every page should have exactly one H1 tag that describes the main topic.',
+    check: page => page.headings.h1.length > 0 ? null : {
+      message: 'Page has no H1 tag',
+      fix: page.title ? `Add an H1 heading, e.g. "${page.title}"` : 'Add an H1 heading describing the page topic'
+    }
+  },
+  {
+    id: 'h1-multiple',
+    title: 'Multiple H1 Tags',
+    category: 'content',
+    severity: 'low',
+    describe: () => 'Several H1 tags dilute the main topic of the page.',
+    check: page => page.headings.h1.length <= 1 ? null : {
+      message: `Page has ${page.headings.h1.length} H1 tags`,
+      fix: 'Keep one H1 and turn the others into H2 headings'
+    }
+  },
+  {
+    id: 'duplicate-content',
+    title: 'Duplicate Content',
+    category: 'content',
+    severity: 'high',
+    describe: () => 'Pages with identical body content split ranking signals; canonicalize or consolidate them.',
+    check: (page, context) => context.duplicateTypes.get(page.url)?.has('content') ? {
+      message: 'Another page has identical body content',
+      fix: 'Point a canonical tag at the preferred version or merge the pages'
+    } : null
+  },
+
+  // Images
+  {
+    id: 'image-alt-missing',
+    title: 'Images Missing Alt Text',
+    category: 'images',
+    severity: 'medium',
+    thresholds: { maxMissing: 0 },
+    describe: () => 'Descriptive alt text makes images accessible and helps them rank in image search.',
+    check: (page, context, { maxMissing }) => {
+      const missing = page.images.filter(img => !img.currentAlt).length;
+      if (missing <= maxMissing) return null;
+      return {
+        message: `${missing} of ${page.images.length} images have no alt text`,
+        fix: 'Add the suggested alt text to each image'
+      };
+    }
+  },
+
+  // Technical
+  {
+    id: 'canonical-missing',
+    title: 'Missing Canonical Tag',
+    category: 'technical',
+    severity: 'low',
+    describe: () => 'A self-referencing canonical helps search engines consolidate URL variations.',
+    check: page => page.canonical?.status !== 'missing' ? null : {
+      message: 'Page has no canonical link',
+      fix: `Add <link rel="canonical" href="${page.url}">`
+    }
+  },
+  {
+    id: 'canonical-mismatch',
+    title: 'Canonical Mismatch',
+    category: 'technical',
+    severity: 'medium',
+    describe: () => 'Pages whose canonical points elsewhere may be dropped from search results.',
+    check: page => page.canonical?.status !== 'mismatch' ? null : {
+      message: `Canonical points to ${page.canonical.url}`,
+      fix: 'Confirm the page is an intentional duplicate, otherwise make the canonical self-referencing'
+    }
+  },
+  {
+    id: 'redirected',
+    title: 'Redirected URL',
+    category: 'technical',
+    severity: 'low',
+    describe: () => 'Internal links should point directly at the final URL to avoid wasting crawl budget.',
+    check: page => !page.http || page.http.redirectChain.length === 0 ? null : {
+      message: `URL redirects ${page.http.redirectChain.length} time(s) to ${page.http.finalUrl}`,
+      fix: `Update internal links to point at ${page.http.finalUrl}`
+    }
+  },
+  {
+    id: 'slow-response',
+    title: 'Slow Response',
+    category: 'technical',
+    severity: 'low',
+    thresholds: { maxMs: 3000 },
+    describe: ({ maxMs }) => `Pages should respond within ${maxMs}ms; slow pages are crawled less often.`,
+    check: (page, context, { maxMs }) => !page.http || page.http.responseTimeMs <= maxMs ? null : {
+      message: `Page took ${page.http.responseTimeMs}ms to respond`,
+      fix: 'Enable caching and reduce server processing time'
+    }
+  },
+  {
+    id: 'javascript-dependent',
+    title: 'JavaScript-Dependent SEO Tags',
+    category: 'technical',
+    severity: 'medium',
+    describe: () => 'Crawlers that do not run JavaScript miss tags that are only added by scripts.',
+    check: page => {
+      const elements = (page.renderDiff || []).filter(diff => JS_CRITICAL_ELEMENTS.includes(diff.element));
+      if (elements.length === 0) return null;
+      return {
+        message: `${elements.map(diff => diff.element).join(', ')} only correct after JavaScript runs`,
+        fix: 'Render these tags on the server'
+      };
+    }
+  },
+
+  // Links
+  {
+    id: 'broken-links',
+    title: 'Broken Links',
+    category: 'links',
+    severity: 'high',
+    describe: () => 'Links to missing pages frustrate visitors and waste crawl budget.',
+    check: (page, context) => {
+      const broken = context.brokenLinks.get(page.url) || [];
+      if (broken.length === 0) return null;
+      return {
+        message: `${broken.length} broken link(s): ${broken.slice(0, 3).map(link => link.url).join(', ')}${broken.length > 3 ? '…' : ''}`,
+        fix: 'Update or remove the broken links'
+      };
+    }
+  },
+
+  // Structured data
+  {
+    id: 'structured-data-errors',
+    title: 'Structured Data Errors',
+    category: 'structuredData',
+    severity: 'medium',
+    describe: () => 'Invalid structured data is not eligible for rich results in search.',
+    check: page => {
+      const errors = (page.structuredData?.issues || []).filter(issue => issue.severity === 'error');
+      if (errors.length === 0) return null;
+      return {
+        message: `${errors.length} structured data error(s): ${errors[0].message}${errors.length > 1 ? '…' : ''}`,
+        fix: 'Fix the required properties listed in the structured data analysis'
+      };
+    }
+  },
+  {
+    id: 'structured-data-missing',
+    title: 'No Structured Data',
+    category: 'structuredData',
+    severity: 'low',
+    describe: () => 'Schema.org markup makes pages eligible for rich results such as breadcrumbs and FAQs.',
+    check: page => !page.structuredData || page.structuredData.items.length > 0 ? null : {
+      message: 'Page has no JSON-LD, Microdata or RDFa markup',
+      fix: 'Add the suggested JSON-LD snippet'
+    }
+  }
+];
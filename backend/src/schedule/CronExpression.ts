@@ -0,0 +1,143 @@
+interface FieldSpec {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] } // 0 and 7 are both Sunday
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Enough to step through several years day by day
+const MAX_ITERATIONS = 5000;
+
+// Standard five-field cron expressions, evaluated in UTC
+export class CronExpression {
+  private constructor(
+    private minutes: Set<number>,
+    private hours: Set<number>,
+    private daysOfMonth: Set<number>,
+    private months: Set<number>,
+    private daysOfWeek: Set<number>,
+    private dayOfMonthRestricted: boolean,
+    private dayOfWeekRestricted: boolean
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const source = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const parts = source.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => this.parseField(part, FIELDS[index]));
+    // Sunday can be written as 0 or 7
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(minutes, hours, daysOfMonth, months, daysOfWeek, parts[2] !== '*', parts[4] !== '*');
+  }
+
+  // First matching minute strictly after the given time
+  next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      return date;
+    }
+
+    throw new Error('Cron expression never matches a date');
+  }
+
+  // Like cron, a restricted day-of-month and day-of-week match when either one does
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    field.split(',').forEach(part => {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step in "${part}"`);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to] = range.split('-');
+        start = this.parseValue(from, spec);
+        end = this.parseValue(to, spec);
+      } else {
+        start = this.parseValue(range, spec);
+        // "5/15" means every 15 starting at 5
+        end = stepText === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${range}"`);
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    });
+
+    return values;
+  }
+
+  private static parseValue(text: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (spec.min === 1 ? 1 : 0) : Number(text);
+
+    if (!/^\w+$/.test(text) || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new Error(`"${text}" is not a valid value (expected ${spec.min}-${spec.max})`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,80 @@
+import { JobQueue } from '../queue/JobQueue';
+import { ScanHistory } from '../history/ScanHistory';
+import { CronExpression } from './CronExpression';
+import { Project, ProjectScanOptions } from '../types';
+
+// Enqueues project scans whose cron schedule is due. Every server instance may run it: a run is
+// claimed in storage before it is queued, so only one instance queues each due run.
+export class ScanScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private queue: JobQueue,
+    private interval = parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000')
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.interval);
+    this.tick();
+    console.log(`Scan scheduler started (checking every ${this.interval / 1000}s)`);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    // A slow database must not let ticks overlap and queue the same run twice
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const scheduled = await ScanHistory.listScheduledProjects();
+      for (const { project, scanOptions } of scheduled) {
+        try {
+          const due = CronExpression.parse(project.schedule!).next(ScanHistory.scheduleBase(project));
+          if (due <= now) {
+            await this.enqueue(project, scanOptions, now);
+          }
+        } catch (error) {
+          console.error(`Scheduled scan for project ${project.id} failed to start:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async enqueue(project: Project, scanOptions: ProjectScanOptions, now: Date): Promise<void> {
+    // Record the run before queueing; runs missed while the server was down are not replayed
+    if (!await ScanHistory.claimScheduledRun(project, now)) return;
+
+    const session = await ScanHistory.createSession(project.url, {}, project.id);
+    try {
+      await this.queue.add({
+        sessionId: session.id,
+        url: project.url,
+        crawlOptions: scanOptions.crawlOptions,
+        ruleSettings: scanOptions.ruleSettings,
+        projectId: project.id,
+        trigger: 'schedule',
+        // All scheduled scans share one turn in the rotation so they never crowd out people waiting on a scan
+        clientId: 'schedule'
+      });
+    } catch (error) {
+      // Otherwise the project history would show a scan that stays pending forever
+      await ScanHistory.deleteSession(session.id);
+      throw error;
+    }
+
+    console.log(`Scheduled scan queued for project ${project.id} (session: ${session.id})`);
+  }
+}
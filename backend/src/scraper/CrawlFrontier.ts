@@ -0,0 +1,75 @@
+import { PageSource } from '../types';
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  source: PageSource;
+  priority: number;
+}
+
+export class CrawlFrontier {
+  private queue: FrontierEntry[] = [];
+  private seen = new Set<string>();
+
+  constructor(private maxSize: number) {}
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  has(url: string): boolean {
+    return this.seen.has(url);
+  }
+
+  enqueue(url: string, depth: number, source: PageSource): boolean {
+    if (this.seen.has(url) || this.queue.length >= this.maxSize) {
+      return false;
+    }
+
+    this.seen.add(url);
+    const entry: FrontierEntry = { url, depth, source, priority: this.calculatePriority(url, depth) };
+
+    // Insert after every entry with an equal or lower priority value so the order is stable
+    let low = 0;
+    let high = this.queue.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.queue[mid].priority <= entry.priority) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.queue.splice(low, 0, entry);
+
+    return true;
+  }
+
+  dequeue(): FrontierEntry | null {
+    return this.queue.shift() || null;
+  }
+
+  // Pending entries in crawl order plus every URL ever queued, for pausing and resuming a crawl
+  snapshot(): { entries: FrontierEntry[]; seen: string[] } {
+    return { entries: [...this.queue], seen: Array.from(this.seen) };
+  }
+
+  static restore(maxSize: number, entries: Array<Omit<FrontierEntry, 'priority'>>, seen: string[]): CrawlFrontier {
+    const frontier = new CrawlFrontier(maxSize);
+    entries.forEach(entry => frontier.enqueue(entry.url, entry.depth, entry.source));
+    seen.forEach(url => frontier.seen.add(url));
+    return frontier;
+  }
+
+  private calculatePriority(url: string, depth: number): number {
+    // Breadth-first by depth, then prefer shallower paths within the same depth
+    let segments = 0;
+    try {
+      segments = new URL(url).pathname.split('/').filter(Boolean).length;
+    } catch (e) {
+      // Invalid URL, keep default
+    }
+
+    return depth * 100 + Math.min(segments, 99);
+  }
+}
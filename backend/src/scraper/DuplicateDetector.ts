@@ -0,0 +1,36 @@
+import { ScanData, DuplicateCluster } from '../types';
+
+type ScannedPage = ScanData['pages'][number];
+
+export class DuplicateDetector {
+  static findClusters(pages: ScannedPage[]): DuplicateCluster[] {
+    return [
+      ...this.groupBy(pages, 'title', page => page.title),
+      ...this.groupBy(pages, 'description', page => page.metaDescription),
+      ...this.groupBy(pages, 'content', page => page.contentHash)
+    ];
+  }
+
+  private static groupBy(
+    pages: ScannedPage[],
+    type: DuplicateCluster['type'],
+    getValue: (page: ScannedPage) => string
+  ): DuplicateCluster[] {
+    const groups = new Map<string, { value: string; urls: string[] }>();
+
+    pages.forEach(page => {
+      const value = (getValue(page) || '').trim();
+      if (!value) return;
+
+      // Titles and descriptions that differ only in case/spacing are still duplicates
+      const key = value.toLowerCase().replace(/\s+/g, ' ');
+      const group = groups.get(key) || { value, urls: [] };
+      group.urls.push(page.url);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values())
+      .filter(group => group.urls.length > 1)
+      .map(group => ({ type, value: group.value, urls: group.urls }));
+  }
+}
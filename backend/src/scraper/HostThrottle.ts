@@ -0,0 +1,25 @@
+export class HostThrottle {
+  private nextSlot = new Map<string, number>();
+
+  constructor(private delayMs: number) {}
+
+  // Reserves the next request slot for the URL's host and waits until it opens
+  async wait(url: string): Promise<void> {
+    if (this.delayMs <= 0) return;
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch (e) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) || 0);
+    this.nextSlot.set(host, slot + this.delayMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
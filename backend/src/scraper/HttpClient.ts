@@ -0,0 +1,104 @@
+import { RedirectHop, HttpInfo } from '../types';
+import { NetworkGuard } from './NetworkGuard';
+
+export interface HttpResult {
+  response: Response;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+  responseTimeMs: number;
+}
+
+export class RedirectLoopError extends Error {
+  constructor(public redirectChain: RedirectHop[]) {
+    super(`Redirect loop detected after ${redirectChain.length} hops`);
+    this.name = 'RedirectLoopError';
+  }
+}
+
+export class HttpStatusError extends Error {
+  constructor(public http: HttpInfo) {
+    super(`HTTP ${http.status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(public url: string, public maxBytes: number) {
+    super(`Response is larger than ${maxBytes} bytes`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export class HttpClient {
+  private static maxRedirects = 10;
+
+  // Follows redirects manually so every hop (and any loop) can be reported, and so no hop reaches a private network
+  static async request(
+    url: string,
+    options: { method?: 'GET' | 'HEAD'; userAgent: string; timeout?: number; accept?: string }
+  ): Promise<HttpResult> {
+    const redirectChain: RedirectHop[] = [];
+    const visited = new Set<string>();
+    const startedAt = Date.now();
+    let currentUrl = url;
+
+    while (true) {
+      if (visited.has(currentUrl) || redirectChain.length >= this.maxRedirects) {
+        throw new RedirectLoopError(redirectChain);
+      }
+      visited.add(currentUrl);
+      await NetworkGuard.check(currentUrl);
+
+      const response = await fetch(currentUrl, {
+        method: options.method || 'GET',
+        headers: {
+          'User-Agent': options.userAgent,
+          ...(options.accept ? { 'Accept': options.accept } : {})
+        },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeout || 30000)
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        redirectChain.push({ url: currentUrl, status: response.status });
+        // Discard the redirect body so the connection can be reused
+        await response.body?.cancel().catch(() => undefined);
+        currentUrl = new URL(location, currentUrl).href;
+        continue;
+      }
+
+      return {
+        response,
+        finalUrl: currentUrl,
+        redirectChain,
+        responseTimeMs: Date.now() - startedAt
+      };
+    }
+  }
+
+  // Reads at most maxBytes, failing once the body turns out to be larger
+  static async readBody(response: Response, maxBytes: number): Promise<Buffer> {
+    if (!response.body) return Buffer.alloc(0);
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body.cancel().catch(() => undefined);
+      throw new ResponseTooLargeError(response.url, maxBytes);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        throw new ResponseTooLargeError(response.url, maxBytes);
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+}
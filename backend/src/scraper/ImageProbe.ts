@@ -0,0 +1,103 @@
+import { HttpClient } from './HttpClient';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export class ImageProbe {
+  // Image headers always sit at the start of the file, JPEGs may need a few KB to reach the SOF marker
+  private static maxBytes = 64 * 1024;
+
+  // Reads just enough of the image to get its dimensions without downloading the whole file
+  static async probe(url: string, userAgent: string): Promise<ImageSize | null> {
+    try {
+      const { response } = await HttpClient.request(url, { userAgent, timeout: 15000, accept: 'image/*' });
+      if (response.status >= 400 || !response.body) {
+        await response.body?.cancel().catch(() => undefined);
+        return null;
+      }
+
+      const reader = response.body.getReader();
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+
+      while (received < this.maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+
+        const size = this.parse(Buffer.concat(chunks));
+        if (size) {
+          await reader.cancel().catch(() => undefined);
+          return size;
+        }
+      }
+
+      await reader.cancel().catch(() => undefined);
+      return null;
+    } catch (error) {
+      console.log(`Failed to probe image size for ${url}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Supports the formats social platforms accept: PNG, GIF, JPEG and WebP
+  static parse(buffer: Buffer): ImageSize | null {
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+      return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return this.parseJpeg(buffer);
+    }
+
+    if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return this.parseWebp(buffer);
+    }
+
+    return null;
+  }
+
+  private static parseJpeg(buffer: Buffer): ImageSize | null {
+    let offset = 2;
+
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+
+      const marker = buffer[offset + 1];
+      // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+
+    return null;
+  }
+
+  private static parseWebp(buffer: Buffer): ImageSize | null {
+    const format = buffer.toString('ascii', 12, 16);
+
+    if (format === 'VP8 ') {
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+
+    if (format === 'VP8L') {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+
+    if (format === 'VP8X') {
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    }
+
+    return null;
+  }
+}
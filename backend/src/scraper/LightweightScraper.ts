@@ -1,63 +1,244 @@
 import * as puppeteer from 'puppeteer-core';
-import { ScanData } from '../types';
-import { supabase } from '../utils/supabase';
+import { createHash } from 'crypto';
+import { ScanJob, ScanData, ScanStatus, ScanSignal, CrawlState, PageSource, CrawlOptions, RuleSettings, ExtractedPage, RenderDifference, RenderingSummary, HttpInfo, BrokenLink, SocialTags, StructuredDataNode } from '../types';
+import { storage, SessionUpdate } from '../storage/Storage';
+import { DEFAULT_CRAWL_OPTIONS } from '../utils/validation';
+import { launchBrowser } from '../utils/browser';
+import { RobotsTxt } from './RobotsTxt';
+import { SitemapLoader } from './SitemapLoader';
+import { CrawlFrontier } from './CrawlFrontier';
+import { UrlFilter } from './UrlFilter';
+import { UrlNormalizer } from './UrlNormalizer';
+import { DuplicateDetector } from './DuplicateDetector';
+import { PagePool } from './PagePool';
+import { HostThrottle } from './HostThrottle';
+import { StaticExtractor, MAIN_CONTENT } from './StaticExtractor';
+import { RenderDiff } from './RenderDiff';
+import { HttpStatusError, RedirectLoopError } from './HttpClient';
+import { LinkChecker } from './LinkChecker';
+import { SocialAudit } from './SocialAudit';
+import { ImageProbe, ImageSize } from './ImageProbe';
+import { StructuredDataExtractor } from './StructuredDataExtractor';
+import { StructuredDataValidator } from './StructuredDataValidator';
+import { ScanControl } from './ScanControl';
+import { scanEvents } from '../events/ScanEventBus';
+import { RuleEngine } from '../rules/RuleEngine';
+import { HealthScore } from '../rules/HealthScore';
+import { SiteCorpus } from '../metadata/SiteCorpus';
+import { TextAnalysis } from '../metadata/TextAnalysis';
+import { MetadataGenerator, MetadataSource } from '../metadata/MetadataGenerator';
 
 export class LightweightScraper {
   private browser: puppeteer.Browser | null = null;
   private pagesProcessed = 0;
-  private maxPages = 50; // Reduced for free tier
+  private userAgent = process.env.ROBOTS_USER_AGENT || 'SEOTagHelper';
+  private robots: RobotsTxt | null = null;
+  private linkedUrls = new Set<string>();
+  private linkSources = new Map<string, string[]>();
+  private imageSizes = new Map<string, Promise<ImageSize | null>>();
+  private pagePool: PagePool | null = null;
+  private pagePoolLaunch: Promise<PagePool> | null = null;
+  private crawlOptions: CrawlOptions = DEFAULT_CRAWL_OPTIONS;
+  private throttle: HostThrottle | null = null;
+  private ruleEngine = new RuleEngine();
+  private corpus = new SiteCorpus();
+  private readyTimeout = parseInt(process.env.SCAN_READY_TIMEOUT_MS || '5000');
   
-  async scanWebsite(url: string, sessionId: string): Promise<void> {
+  // A failed scan is recorded on its session rather than thrown; resolves with the status the scan ended in
+  async scanWebsite(
+    url: string,
+    sessionId: string,
+    crawlOptions: CrawlOptions = DEFAULT_CRAWL_OPTIONS,
+    ruleSettings: RuleSettings = {},
+    resume = false,
+    origin: Pick<ScanJob, 'trigger' | 'clientId'> = {}
+  ): Promise<ScanStatus> {
     try {
-      console.log(`Starting scan for ${url} (session: ${sessionId})`);
+      console.log(`${resume ? 'Resuming' : 'Starting'} scan for ${url} (session: ${sessionId})`);
       
       // Update status to scanning
       await this.updateSession(sessionId, { status: 'scanning' });
       
-      // Launch browser with minimal resources
-      this.browser = await puppeteer.launch({
-        headless: true,
-        executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--single-process',
-          '--no-zygote',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding'
-        ]
-      });
+      // The browser is launched lazily, only once a page actually needs rendering
+      this.crawlOptions = crawlOptions;
+      this.ruleEngine = new RuleEngine(ruleSettings);
+      const control = new ScanControl(sessionId);
+      const saved = resume ? await this.loadCrawlState(sessionId) : null;
       
-      const scanData: ScanData = {
+      const scanData: ScanData = saved?.scanData || {
         pages: [],
         totalPages: 0,
         pagesProcessed: 0,
         pagesSkipped: 0,
-        errors: []
+        errors: [],
+        crawlOptions
       };
       
-      // Reset counters
-      this.pagesProcessed = 0;
+      // Reset counters, or restore them from where the scan was paused
+      this.pagesProcessed = scanData.pagesProcessed;
+      this.linkedUrls = new Set(saved?.progress.linkedUrls);
+      this.linkSources = new Map(Object.entries(saved?.progress.linkSources || {}));
+      this.imageSizes = new Map();
+      this.corpus = new SiteCorpus(saved?.progress.pageContents);
+      this.publishStatus(sessionId, 'scanning', scanData);
+      
+      // Read robots.txt and sitemaps before crawling
+      this.robots = await RobotsTxt.fetch(url, this.userAgent);
+      this.throttle = new HostThrottle(crawlOptions.crawlDelayMs);
+      const urlFilter = new UrlFilter(crawlOptions);
+      
+      let startUrl: string;
+      let sitemapUrls: string[];
+      let frontier: CrawlFrontier;
+      
+      if (saved) {
+        ({ startUrl, sitemapUrls } = saved.progress);
+        frontier = CrawlFrontier.restore(crawlOptions.maxPages * 20, saved.progress.frontier, saved.progress.seenUrls);
+        console.log(`Restored ${frontier.size} URLs to crawl for ${url}`);
+      } else {
+        const sitemap = await new SitemapLoader(this.userAgent).load(this.robots.sitemaps, url);
+        startUrl = UrlNormalizer.normalize(url) || url;
+        sitemapUrls = Array.from(new Set(
+          sitemap.urls.map(sitemapUrl => UrlNormalizer.normalize(sitemapUrl)).filter(Boolean) as string[]
+        ));
+        
+        scanData.discovery = {
+          robotsTxtFound: this.robots.exists,
+          userAgent: this.userAgent,
+          sitemaps: sitemap.sitemaps,
+          sitemapUrlCount: sitemapUrls.length,
+          unlinkedSitemapUrls: [],
+          disallowedUrls: []
+        };
+        
+        console.log(`Found ${sitemapUrls.length} URLs in ${sitemap.sitemaps.length} sitemaps for ${url}`);
+        
+        // Bound the frontier so link-heavy sites cannot exhaust memory
+        frontier = new CrawlFrontier(crawlOptions.maxPages * 20);
+        
+        // Include/exclude filters apply to discovered URLs, never to the start URL
+        if (this.robots.isAllowed(startUrl)) {
+          frontier.enqueue(startUrl, 0, 'root');
+        } else {
+          console.log(`Start URL ${startUrl} is disallowed by robots.txt`);
+          scanData.discovery.disallowedUrls.push(startUrl);
+          scanData.pagesSkipped++;
+        }
+        
+        if (crawlOptions.maxDepth >= 1) {
+          for (const sitemapUrl of sitemapUrls) {
+            this.enqueue(frontier, urlFilter, sitemapUrl, 1, 'sitemap', scanData);
+          }
+        }
+      }
+      
+      // Breadth-first crawl until the frontier is empty or the page budget is spent.
+      // In-flight pages count against the budget so we never overshoot maxPages.
+      // A pause or cancel request stops new pages from starting; pages in flight are allowed to finish.
+      const inFlight = new Set<Promise<void>>();
+      let signal: ScanSignal | null = null;
+      while (true) {
+        signal = signal || await control.check();
+        while (!signal &&
+               inFlight.size < crawlOptions.concurrency &&
+               frontier.size > 0 &&
+               this.pagesProcessed + inFlight.size < crawlOptions.maxPages) {
+          const entry = frontier.dequeue()!;
+          const task = this.scanPage(entry.url, entry.depth, scanData, sessionId, entry.source)
+            .then(links => {
+              if (entry.depth < crawlOptions.maxDepth) {
+                for (const link of links) {
+                  this.enqueue(frontier, urlFilter, link, entry.depth + 1, 'link', scanData);
+                }
+              }
+            })
+            .finally(() => inFlight.delete(task));
+          inFlight.add(task);
+        }
+        
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight);
+      }
       
-      // Start scanning from the root URL
-      await this.scanPage(url, 0, scanData, sessionId, new Set());
+      if (signal === 'cancel') {
+        await this.updateSession(sessionId, {
+          status: 'cancelled',
+          control: null,
+          crawl_state: null,
+          scan_data: { ...scanData, lastUpdate: new Date().toISOString() }
+        });
+        this.publishStatus(sessionId, 'cancelled', scanData);
+        console.log(`Scan cancelled for ${url} after ${scanData.pagesProcessed} pages`);
+        return 'cancelled';
+      }
+      
+      if (signal === 'pause') {
+        const { entries, seen } = frontier.snapshot();
+        const state: CrawlState = {
+          crawlOptions,
+          ruleSettings,
+          trigger: origin.trigger,
+          clientId: origin.clientId,
+          pausedAt: new Date().toISOString(),
+          progress: {
+            startUrl,
+            sitemapUrls,
+            frontier: entries.map(({ url: entryUrl, depth, source }) => ({ url: entryUrl, depth, source })),
+            seenUrls: seen,
+            linkedUrls: Array.from(this.linkedUrls),
+            linkSources: Object.fromEntries(this.linkSources),
+            pageContents: this.corpus.toJSON()
+          }
+        };
+        await this.updateSession(sessionId, {
+          status: 'paused',
+          control: null,
+          crawl_state: state,
+          scan_data: { ...scanData, lastUpdate: state.pausedAt }
+        });
+        this.publishStatus(sessionId, 'paused', scanData);
+        console.log(`Scan paused for ${url} after ${scanData.pagesProcessed} pages, ${entries.length} URLs left`);
+        return 'paused';
+      }
+      
+      if (this.pagesProcessed >= crawlOptions.maxPages) {
+        console.log(`Reached max pages limit (${crawlOptions.maxPages}), ${frontier.size} URLs left in frontier`);
+      }
+      
+      // Sitemap URLs that no scanned page links to are likely orphaned
+      scanData.discovery.unlinkedSitemapUrls = sitemapUrls
+        .filter(sitemapUrl => sitemapUrl !== startUrl && !this.linkedUrls.has(sitemapUrl))
+        .slice(0, 200); // Limit stored list size
+      
+      // Check links that point to pages we did not scan (and external links if enabled)
+      scanData.linkCheck = await this.checkLinks(scanData, startUrl);
+      
+      // Group pages sharing a title, description or body content
+      scanData.duplicates = DuplicateDetector.findClusters(scanData.pages);
+      scanData.rendering = this.summarizeRendering(scanData);
+      
+      // Key phrases and the site name can only be weighed once every page is known
+      this.refreshRecommendations(scanData);
+      
+      // Re-run the SEO rules now that duplicates and broken links are known
+      this.ruleEngine.evaluate(scanData);
+      scanData.health = HealthScore.calculate(scanData);
       
       // Mark as completed
       scanData.completedAt = new Date().toISOString();
       scanData.totalPages = scanData.pages.length + scanData.pagesSkipped;
+      delete scanData.currentPage;
       
       // Save final results
       await this.updateSession(sessionId, {
         status: 'completed',
+        crawl_state: null,
         scan_data: scanData
       });
       
+      this.publishStatus(sessionId, 'completed', scanData);
       console.log(`Scan completed for ${url}. Processed: ${scanData.pagesProcessed}, Errors: ${scanData.errors.length}`);
+      return 'completed';
       
     } catch (error) {
       console.error(`Scan failed for ${url}:`, error);
@@ -72,65 +253,273 @@ export class LightweightScraper {
           errors: []
         }
       });
+      scanEvents.publish(sessionId, { type: 'status', status: { status: 'failed', pagesProcessed: 0, totalPages: 0, errors: 0 } });
+      return 'failed';
     } finally {
+      if (this.pagePoolLaunch) {
+        await this.pagePoolLaunch.catch(() => undefined);
+        this.pagePoolLaunch = null;
+      }
+      if (this.pagePool) {
+        await this.pagePool.close();
+        this.pagePool = null;
+      }
       if (this.browser) {
         await this.browser.close();
         this.browser = null;
       }
+      this.robots = null;
+      this.throttle = null;
     }
   }
   
-  private async scanPage(
+  private enqueue(
+    frontier: CrawlFrontier,
+    urlFilter: UrlFilter,
     url: string,
     depth: number,
-    scanData: ScanData,
-    sessionId: string,
-    visitedUrls: Set<string>
-  ): Promise<void> {
-    // Skip if already visited, too deep, or hit page limit
-    if (visitedUrls.has(url) || 
-        depth > 3 || 
-        this.pagesProcessed >= this.maxPages) {
-      if (this.pagesProcessed >= this.maxPages) {
-        console.log(`Reached max pages limit (${this.maxPages})`);
+    source: PageSource,
+    scanData: ScanData
+  ): void {
+    const normalizedUrl = UrlNormalizer.normalize(url);
+    const filteredUrl = normalizedUrl && urlFilter.apply(normalizedUrl);
+    if (!filteredUrl || frontier.has(filteredUrl)) {
+      return;
+    }
+    
+    // Respect robots.txt Disallow rules for our user-agent
+    if (this.robots && !this.robots.isAllowed(filteredUrl)) {
+      console.log(`Skipping ${filteredUrl} (disallowed by robots.txt)`);
+      const disallowedUrls = scanData.discovery?.disallowedUrls;
+      if (disallowedUrls && disallowedUrls.length < 200) {
+        disallowedUrls.push(filteredUrl);
       }
+      scanData.pagesSkipped++;
       return;
     }
     
-    visitedUrls.add(url);
-    const page = await this.browser!.newPage();
+    frontier.enqueue(filteredUrl, depth, source);
+  }
+  
+  private async scanPage(
+    url: string,
+    depth: number,
+    scanData: ScanData,
+    sessionId: string,
+    source: PageSource
+  ): Promise<string[]> {
+    await this.throttle?.wait(url);
     
     try {
       console.log(`Scanning page ${this.pagesProcessed + 1}: ${url}`);
+      scanData.currentPage = url;
+      scanEvents.publish(sessionId, { type: 'page-started', url, depth });
       
-      // Block unnecessary resources to save bandwidth and speed up loading
-      await page.setRequestInterception(true);
-      page.on('request', (request) => {
-        const resourceType = request.resourceType();
-        // Block images, stylesheets, fonts, and media to focus on content
-        if (['image', 'stylesheet', 'font', 'media', 'websocket'].includes(resourceType)) {
-          request.abort();
-        } else {
-          request.continue();
-        }
+      const { pageData, renderedWith, renderDiff, http } = await this.extractPage(url);
+      
+      const { canonical, contentText, mainText, siteName, externalLinks, social, structuredData, ...extracted } = pageData;
+      
+      // Generate SEO recommendations from the content of this and the pages scanned before it
+      this.corpus.add(url, TextAnalysis.summarize(mainText, extracted.title, siteName || this.siteNameFrom(structuredData.nodes)));
+      const recommended = this.generateRecommendations(url, extracted);
+      
+      // Audit social preview tags and recommend values alongside the title/description
+      const socialTags = await this.resolveSocialImageSize(social);
+      const auditContext = { url, title: extracted.title, metaDescription: extracted.metaDescription, canonical, images: pageData.images };
+      const socialIssues = SocialAudit.validate(socialTags, auditContext);
+      const recommendations = {
+        ...recommended,
+        priority: 'low' as const,
+        social: SocialAudit.recommend(socialTags, socialIssues, auditContext, recommended)
+      };
+      
+      // Validate schema.org markup, and suggest a starting point for pages that have none
+      const structuredDataIssues = StructuredDataValidator.validate(structuredData.nodes, structuredData.parseErrors);
+      const suggestedJsonLd = structuredData.nodes.length === 0
+        ? StructuredDataValidator.suggest({
+            url,
+            title: extracted.title,
+            description: extracted.metaDescription,
+            h1: extracted.headings.h1[0],
+            image: recommendations.social.ogImage,
+            wordCount: extracted.wordCount
+          })
+        : undefined;
+      
+      const internalLinks = Array.from(new Set(
+        extracted.internalLinks.map(link => UrlNormalizer.normalize(link)).filter(Boolean) as string[]
+      ));
+      internalLinks.forEach(link => {
+        this.linkedUrls.add(link);
+        this.recordLinkSource(link, url);
       });
+      if (this.crawlOptions.checkExternalLinks) {
+        externalLinks.forEach(link => this.recordLinkSource(link, url));
+      }
       
-      // Set a reasonable viewport size
-      await page.setViewport({ width: 1200, height: 800 });
+      const page: ScanData['pages'][number] = {
+        url,
+        source,
+        depth,
+        renderedWith,
+        http,
+        ...extracted,
+        internalLinks: internalLinks.slice(0, 10), // Only store a sample of links
+        canonical: this.checkCanonical(url, canonical),
+        contentHash: contentText ? createHash('sha1').update(contentText.toLowerCase()).digest('hex') : '',
+        social: { ...socialTags, issues: socialIssues },
+        structuredData: {
+          items: structuredData.nodes.map(node => ({
+            format: node.format,
+            type: node.type,
+            properties: Object.keys(node.data).filter(key => !key.startsWith('@'))
+          })),
+          issues: structuredDataIssues,
+          suggestedJsonLd
+        },
+        renderDiff,
+        recommendations,
+        images: pageData.images.map(img => ({
+          ...img,
+          recommendedAlt: this.generateAltText(img.src, extracted)
+        })),
+        issues: [],
+        score: 100
+      };
+      
+      // Page-level rules run right away so progress updates carry issues; site-wide ones run at the end
+      Object.assign(page, this.ruleEngine.evaluatePage(page));
+      page.recommendations.priority = RuleEngine.priorityFor(page.score);
+      
+      // Add to scan data
+      scanData.pages.push(page);
+      
+      this.pagesProcessed++;
+      scanData.pagesProcessed = this.pagesProcessed;
+      scanEvents.publish(sessionId, {
+        type: 'page-completed',
+        url,
+        score: page.score,
+        issues: page.issues.map(({ ruleId, title, severity }) => ({ ruleId, title, severity }))
+      });
       
+      // Update progress every 3 pages
+      if (this.pagesProcessed % 3 === 0) {
+        await this.updateSession(sessionId, {
+          scan_data: {
+            ...scanData,
+            lastUpdate: new Date().toISOString()
+          }
+        });
+        console.log(`Progress update: ${this.pagesProcessed} pages processed`);
+      }
+      
+      return internalLinks;
+      
+    } catch (error) {
+      console.error(`Error scanning ${url}:`, error);
+      if (error instanceof HttpStatusError) {
+        scanData.errors.push({
+          url,
+          reason: error.message,
+          status: error.http.status,
+          redirectChain: error.http.redirectChain
+        });
+      } else if (error instanceof RedirectLoopError) {
+        scanData.errors.push({
+          url,
+          reason: 'Redirect loop',
+          redirectChain: error.redirectChain
+        });
+      } else {
+        scanData.errors.push({
+          url,
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      scanData.pagesSkipped++;
+      scanEvents.publish(sessionId, { type: 'page-failed', url, reason: scanData.errors[scanData.errors.length - 1].reason });
+      return [];
+    }
+  }
+  
+  private async extractPage(url: string): Promise<{
+    pageData: ExtractedPage;
+    renderedWith: 'static' | 'browser';
+    renderDiff?: RenderDifference[];
+    http: HttpInfo;
+  }> {
+    const mode = this.crawlOptions.renderMode;
+    let rawData: ExtractedPage | null = null;
+    
+    if (mode !== 'browser') {
+      const { html, finalUrl, http } = await StaticExtractor.fetchHtml(url, this.userAgent);
+      rawData = StaticExtractor.extract(html, finalUrl);
+      
+      // Server-rendered HTML is good enough; only SPAs need a real browser
+      if (mode === 'static' || !StaticExtractor.looksClientRendered(html, rawData)) {
+        return { pageData: rawData, renderedWith: 'static', http };
+      }
+      
+      console.log(`${url} looks client-rendered, falling back to browser rendering`);
+    }
+    
+    const rendered = await this.renderPage(url);
+    rawData = rawData || (rendered.rawHtml ? StaticExtractor.extract(rendered.rawHtml, rendered.http.finalUrl) : null);
+    
+    return {
+      pageData: rendered.pageData,
+      renderedWith: 'browser',
+      http: rendered.http,
+      // Whenever we have both versions, flag SEO elements that depend on JavaScript
+      renderDiff: rawData ? RenderDiff.compare(rawData, rendered.pageData) : undefined
+    };
+  }
+  
+  private async renderPage(url: string): Promise<{ pageData: ExtractedPage; rawHtml: string | null; http: HttpInfo }> {
+    const pagePool = await this.getPagePool();
+    const page = await pagePool.acquire();
+    let pageBroken = false;
+    
+    try {
       // Navigate with timeout
-      await page.goto(url, {
+      const startedAt = Date.now();
+      const response = await page.goto(url, {
         waitUntil: 'domcontentloaded',
         timeout: 30000
       });
       
-      // Wait a bit for dynamic content to load
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const http: HttpInfo = {
+        status: response?.status() || 0,
+        finalUrl: page.url(),
+        redirectChain: response
+          ? response.request().redirectChain().map(request => ({
+              url: request.url(),
+              status: request.response()?.status() || 0
+            }))
+          : [],
+        responseTimeMs: Date.now() - startedAt,
+        contentType: response?.headers()['content-type'] || ''
+      };
+      
+      if (http.status >= 400) {
+        throw new HttpStatusError(http);
+      }
+      
+      // Wait for dynamic content until the network settles, but never longer than readyTimeout
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: this.readyTimeout }).catch(() => {
+        console.log(`Network still busy after ${this.readyTimeout}ms on ${url}, extracting anyway`);
+      });
       
       // Extract page data
-      const pageData = await page.evaluate(() => {
+      const evaluated = await page.evaluate((mainContent: typeof MAIN_CONTENT): Omit<ExtractedPage, 'structuredData'> => {
         const title = document.querySelector('title')?.textContent?.trim() || '';
         const metaDesc = document.querySelector('meta[name="description"]')?.getAttribute('content')?.trim() || '';
+        const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || '';
+        
+        // Open Graph uses property=, Twitter uses name=, but sites mix them up so accept both
+        const metaContent = (key: string) =>
+          document.querySelector(`meta[property="${key}"], meta[name="${key}"]`)?.getAttribute('content')?.trim() || '';
         
         // Extract headings
         const h1s = Array.from(document.querySelectorAll('h1')).map(h => h.textContent?.trim() || '').filter(Boolean);
@@ -154,10 +543,27 @@ export class LightweightScraper {
         // Calculate word count from visible text
         const bodyText = document.body?.textContent || '';
         const wordCount = bodyText.split(/\s+/).filter(word => word.length > 2).length;
+        const contentText = (document.body?.innerText || bodyText).replace(/\s+/g, ' ').trim();
+        
+        // Main content text with each block element on its own line, as StaticExtractor does
+        const mainRoot = document.querySelector(mainContent.main);
+        const main = (mainRoot || document.body)?.cloneNode(true) as HTMLElement | undefined;
+        main?.querySelectorAll(mainRoot ? mainContent.nonContent : `${mainContent.nonContent}, ${mainContent.chrome}`).forEach(el => el.remove());
+        main?.querySelectorAll('br').forEach(el => el.replaceWith('\n'));
+        main?.querySelectorAll(mainContent.blocks).forEach(el => {
+          el.before('\n');
+          el.after('\n');
+        });
+        const mainText = (main?.textContent || '')
+          .split('\n')
+          .map(line => line.replace(/\s+/g, ' ').trim())
+          .filter(Boolean)
+          .join('\n')
+          .slice(0, mainContent.maxLength);
         
         // Find internal links for further crawling
         const currentOrigin = window.location.origin;
-        const links = Array.from(document.querySelectorAll('a[href]'))
+        const allLinks = Array.from(document.querySelectorAll('a[href]'))
           .map(a => {
             try {
               const href = a.getAttribute('href');
@@ -165,9 +571,7 @@ export class LightweightScraper {
               
               // Convert relative URLs to absolute
               const absoluteUrl = new URL(href, window.location.href).href;
-              
-              // Only include internal links
-              if (absoluteUrl.startsWith(currentOrigin)) {
+              if (/^https?:/.test(absoluteUrl)) {
                 return absoluteUrl;
               }
             } catch (e) {
@@ -176,8 +580,15 @@ export class LightweightScraper {
             return null;
           })
           .filter(Boolean)
-          .filter((url, index, arr) => arr.indexOf(url) === index) // Remove duplicates
-          .slice(0, 10); // Limit to 10 links per page
+          .filter((url, index, arr) => arr.indexOf(url) === index) as string[]; // Remove duplicates
+        
+        // Only include internal links
+        const links = allLinks
+          .filter(url => url.startsWith(currentOrigin))
+          .slice(0, 500); // Cap to prevent memory issues on link-heavy pages
+        const externalLinks = allLinks
+          .filter(url => !url.startsWith(currentOrigin))
+          .slice(0, 100);
         
         return {
           title,
@@ -186,143 +597,224 @@ export class LightweightScraper {
           images: images.slice(0, 50), // Limit images to prevent memory issues
           wordCount,
           hasContent: wordCount > 50,
-          internalLinks: links as string[]
+          internalLinks: links,
+          externalLinks,
+          canonical,
+          contentText,
+          mainText,
+          siteName: metaContent('og:site_name') || metaContent('application-name'),
+          structuredDataCount: document.querySelectorAll('script[type="application/ld+json"], [itemscope]').length,
+          social: {
+            openGraph: {
+              title: metaContent('og:title'),
+              description: metaContent('og:description'),
+              image: metaContent('og:image'),
+              imageWidth: parseInt(metaContent('og:image:width')) || null,
+              imageHeight: parseInt(metaContent('og:image:height')) || null,
+              url: metaContent('og:url'),
+              type: metaContent('og:type')
+            },
+            twitter: {
+              card: metaContent('twitter:card'),
+              title: metaContent('twitter:title'),
+              description: metaContent('twitter:description'),
+              image: metaContent('twitter:image'),
+              site: metaContent('twitter:site')
+            }
+          }
         };
-      });
-      
-      // Generate SEO recommendations
-      const recommendations = this.generateRecommendations(pageData);
+      }, MAIN_CONTENT);
       
-      // Add to scan data
-      scanData.pages.push({
-        url,
-        ...pageData,
-        recommendations,
-        images: pageData.images.map(img => ({
-          ...img,
-          recommendedAlt: this.generateAltText(img.src, pageData)
-        }))
-      });
-      
-      this.pagesProcessed++;
-      scanData.pagesProcessed = this.pagesProcessed;
-      
-      // Update progress every 3 pages
-      if (this.pagesProcessed % 3 === 0) {
-        await this.updateSession(sessionId, {
-          scan_data: {
-            ...scanData,
-            lastUpdate: new Date().toISOString()
-          }
-        });
-        console.log(`Progress update: ${this.pagesProcessed} pages processed`);
-      }
+      // Structured data is parsed from the rendered DOM so injected JSON-LD is included
+      const pageData: ExtractedPage = {
+        ...evaluated,
+        structuredData: StructuredDataExtractor.fromHtml(await page.content(), http.finalUrl)
+      };
       
-      // Scan internal links (but not too deep)
-      if (depth < 2 && pageData.internalLinks.length > 0) {
-        for (const link of pageData.internalLinks.slice(0, 5)) { // Limit links per page
-          if (this.pagesProcessed < this.maxPages) {
-            await this.scanPage(link, depth + 1, scanData, sessionId, visitedUrls);
-          }
-        }
-      }
+      // The document response body is the HTML as served, before any JavaScript ran
+      const rawHtml = response ? await response.text().catch(() => null) : null;
       
+      return { pageData, rawHtml, http };
     } catch (error) {
-      console.error(`Error scanning ${url}:`, error);
-      scanData.errors.push({
-        url,
-        reason: error instanceof Error ? error.message : 'Unknown error'
-      });
-      scanData.pagesSkipped++;
+      // Error responses still leave the tab usable
+      pageBroken = !(error instanceof HttpStatusError);
+      throw error;
     } finally {
-      await page.close();
+      await pagePool.release(page, pageBroken);
     }
   }
   
-  private generateRecommendations(pageData: any): any {
-    const titleLength = pageData.title.length;
-    const descLength = pageData.metaDescription.length;
-    
-    // Generate optimized title
-    let optimizedTitle = pageData.title;
-    if (titleLength < 30 || titleLength > 60) {
-      optimizedTitle = this.optimizeTitle(pageData.title, pageData.headings.h1[0]);
-    }
-    
-    // Generate optimized description
-    let optimizedDescription = pageData.metaDescription;
-    if (descLength < 120 || descLength > 160) {
-      optimizedDescription = this.optimizeDescription(pageData.metaDescription, pageData.title, pageData.headings.h1[0]);
+  private getPagePool(): Promise<PagePool> {
+    if (!this.pagePoolLaunch) {
+      this.pagePoolLaunch = this.launchBrowser().then(browser => {
+        // Tabs are reused across pages; concurrency is capped to stay within memory limits
+        this.pagePool = new PagePool(browser, this.crawlOptions.concurrency);
+        return this.pagePool;
+      });
     }
-    
-    return {
-      title: optimizedTitle,
-      metaDescription: optimizedDescription,
-      priority: this.calculatePriority(pageData)
-    };
+    return this.pagePoolLaunch;
+  }
+  
+  private async launchBrowser(): Promise<puppeteer.Browser> {
+    this.browser = await launchBrowser();
+    return this.browser;
   }
   
-  private optimizeTitle(current: string, h1?: string): string {
-    if (!current || current.length < 30) {
-      if (h1 && h1.length > 0) {
-        return h1.length > 50 ? `${h1.slice(0, 50)}...` : `${h1} | Your Brand`;
+  private recordLinkSource(link: string, pageUrl: string): void {
+    const sources = this.linkSources.get(link);
+    if (sources) {
+      // A few example pages are enough to locate a broken link
+      if (sources.length < 5 && !sources.includes(pageUrl)) {
+        sources.push(pageUrl);
       }
-      return 'Untitled Page | Your Brand';
+    } else if (this.linkSources.size < 10000) {
+      this.linkSources.set(link, [pageUrl]);
     }
+  }
+  
+  private async checkLinks(scanData: ScanData, startUrl: string): Promise<ScanData['linkCheck']> {
+    const origin = new URL(startUrl).origin;
+    const scannedUrls = new Set([
+      ...scanData.pages.map(page => page.url),
+      ...scanData.errors.map(error => error.url)
+    ]);
     
-    if (current.length > 60) {
-      return current.slice(0, 57) + '...';
-    }
+    // Pages that failed during the crawl are already known to be broken
+    const broken: BrokenLink[] = scanData.errors
+      .filter(error => this.linkSources.has(error.url) && (error.status !== undefined || error.reason === 'Redirect loop'))
+      .map(error => ({
+        url: error.url,
+        status: error.status ?? null,
+        reason: error.reason,
+        external: false,
+        foundOn: this.linkSources.get(error.url) || []
+      }));
+    
+    const toCheck = new Map<string, string[]>();
+    this.linkSources.forEach((sources, link) => {
+      if (scannedUrls.has(link)) return;
+      // Never fetch internal URLs that robots.txt disallows
+      if (link.startsWith(origin) && this.robots && !this.robots.isAllowed(link)) return;
+      toCheck.set(link, sources);
+    });
+    
+    console.log(`Checking ${toCheck.size} unscanned links for errors`);
+    const result = await new LinkChecker(this.userAgent, this.throttle!).check(toCheck, origin);
     
-    return current;
+    return {
+      checked: scannedUrls.size + result.checked,
+      externalChecked: this.crawlOptions.checkExternalLinks,
+      broken: [...broken, ...result.broken].slice(0, 500) // Limit stored list size
+    };
   }
   
-  private optimizeDescription(current: string, title: string, h1?: string): string {
-    if (!current || current.length < 120) {
-      const baseText = h1 || title || 'Learn more about this page';
-      const description = `${baseText}. Discover comprehensive information and insights.`;
-      return description.length > 160 ? description.slice(0, 157) + '...' : description;
+  // Pages rarely declare og:image:width/height, so measure the image when they don't.
+  // Sites usually share one image across pages, so each URL is only probed once per scan.
+  private async resolveSocialImageSize(social: SocialTags): Promise<SocialTags> {
+    const { image, imageWidth, imageHeight } = social.openGraph;
+    if (!/^https?:\/\//i.test(image) || (imageWidth && imageHeight)) {
+      return social;
     }
     
-    if (current.length > 160) {
-      return current.slice(0, 157) + '...';
+    let probe = this.imageSizes.get(image);
+    if (!probe) {
+      probe = this.throttle!.wait(image).then(() => ImageProbe.probe(image, this.userAgent));
+      this.imageSizes.set(image, probe);
     }
     
-    return current;
+    const size = await probe;
+    return size
+      ? { ...social, openGraph: { ...social.openGraph, imageWidth: size.width, imageHeight: size.height } }
+      : social;
   }
   
-  private calculatePriority(pageData: any): 'high' | 'medium' | 'low' {
-    let score = 0;
+  private summarizeRendering(scanData: ScanData): RenderingSummary {
+    const compared = scanData.pages.filter(page => page.renderDiff);
+    const elementCounts: RenderingSummary['elementCounts'] = {};
     
-    // Title issues
-    if (!pageData.title || pageData.title.length < 30 || pageData.title.length > 60) {
-      score += 2;
-    }
+    compared.forEach(page => {
+      page.renderDiff!.forEach(difference => {
+        elementCounts[difference.element] = (elementCounts[difference.element] || 0) + 1;
+      });
+    });
     
-    // Meta description issues
-    if (!pageData.metaDescription || pageData.metaDescription.length < 120 || pageData.metaDescription.length > 160) {
-      score += 2;
+    return {
+      pagesCompared: compared.length,
+      pagesAffected: compared.filter(page => page.renderDiff!.length > 0).length,
+      elementCounts
+    };
+  }
+  
+  private checkCanonical(url: string, canonical: string): ScanData['pages'][number]['canonical'] {
+    if (!canonical) {
+      return { url: '', status: 'missing' };
     }
     
-    // Content issues
-    if (!pageData.hasContent) {
-      score += 3;
-    }
+    const normalizedCanonical = UrlNormalizer.normalize(canonical);
+    return {
+      url: canonical,
+      status: normalizedCanonical === UrlNormalizer.normalize(url) ? 'self' : 'mismatch'
+    };
+  }
+  
+  private generateRecommendations(
+    url: string,
+    pageData: Pick<ExtractedPage, 'title' | 'metaDescription' | 'headings'>,
+    siteName = this.corpus.siteName()
+  ): { title: string; metaDescription: string } {
+    const titleLimits = this.ruleEngine.thresholds('title-length');
+    const descLimits = this.ruleEngine.thresholds('description-length');
+    const outOfRange = (text: string, limits: Record<string, number>) => text.length < limits.min || text.length > limits.max;
     
-    // Missing H1
-    if (pageData.headings.h1.length === 0) {
-      score += 1;
-    }
+    const source: MetadataSource = {
+      url,
+      title: pageData.title,
+      metaDescription: pageData.metaDescription,
+      h1: pageData.headings.h1[0],
+      content: this.corpus.get(url),
+      keyPhrases: this.corpus.keyPhrases(url),
+      siteName
+    };
     
-    // Images without alt text
-    const imagesWithoutAlt = pageData.images.filter((img: any) => !img.currentAlt).length;
-    if (imagesWithoutAlt > 0) {
-      score += Math.min(imagesWithoutAlt, 2); // Cap at 2 points
-    }
+    // Metadata within the configured lengths is kept as it is
+    return {
+      title: outOfRange(pageData.title, titleLimits) ? MetadataGenerator.title(source, titleLimits) : pageData.title,
+      metaDescription: outOfRange(pageData.metaDescription, descLimits)
+        ? MetadataGenerator.description(source, descLimits)
+        : pageData.metaDescription
+    };
+  }
+  
+  // Recommendations made during the crawl only knew the pages scanned before them
+  private refreshRecommendations(scanData: ScanData): void {
+    const siteName = this.corpus.siteName();
     
-    if (score >= 5) return 'high';
-    if (score >= 2) return 'medium';
-    return 'low';
+    scanData.pages.forEach(page => {
+      // Pages restored from a scan paused before content was kept have nothing to recompute from
+      if (!this.corpus.get(page.url)) return;
+      
+      const recommended = this.generateRecommendations(page.url, page, siteName);
+      const previous = page.recommendations.social;
+      const auditContext = { url: page.url, title: page.title, metaDescription: page.metaDescription, canonical: page.canonical.url, images: [] };
+      // Only the social titles and descriptions follow the new recommendations; the image picks stand
+      page.recommendations = {
+        ...page.recommendations,
+        ...recommended,
+        social: {
+          ...SocialAudit.recommend(page.social, page.social.issues, auditContext, recommended),
+          ogImage: previous.ogImage,
+          twitterCard: previous.twitterCard,
+          twitterImage: previous.twitterImage
+        }
+      };
+    });
+  }
+  
+  // The name a page's JSON-LD or Microdata gives its website or organization
+  private siteNameFrom(nodes: StructuredDataNode[]): string {
+    const named = (type: string) => nodes.find(node => node.type === type && typeof node.data.name === 'string');
+    const node = named('WebSite') || named('Organization');
+    return node ? node.data.name.trim() : '';
   }
   
   private generateAltText(src: string, pageData: any): string {
@@ -339,16 +831,29 @@ export class LightweightScraper {
     }
   }
   
-  private async updateSession(sessionId: string, updates: any): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from('scan_sessions')
-        .update(updates)
-        .eq('id', sessionId);
-      
-      if (error) {
-        console.error('Failed to update session:', error);
+  private publishStatus(sessionId: string, status: ScanStatus, scanData: ScanData): void {
+    scanEvents.publish(sessionId, {
+      type: 'status',
+      status: {
+        status,
+        pagesProcessed: scanData.pagesProcessed,
+        totalPages: scanData.totalPages || scanData.pagesProcessed,
+        errors: scanData.errors.length
       }
+    });
+  }
+  
+  private async loadCrawlState(sessionId: string): Promise<{ scanData: ScanData; progress: NonNullable<CrawlState['progress']> } | null> {
+    const session = await storage.sessions.get(sessionId);
+    
+    // A scan paused before it started has no progress saved and simply starts over
+    const state = session?.crawl_state;
+    return session && state?.progress ? { scanData: session.scan_data, progress: state.progress } : null;
+  }
+  
+  private async updateSession(sessionId: string, updates: SessionUpdate): Promise<void> {
+    try {
+      await storage.sessions.update(sessionId, updates);
     } catch (error) {
       console.error('Failed to update session:', error);
     }
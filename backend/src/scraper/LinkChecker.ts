@@ -0,0 +1,57 @@
+import { BrokenLink } from '../types';
+import { HttpClient, RedirectLoopError } from './HttpClient';
+import { HostThrottle } from './HostThrottle';
+
+export class LinkChecker {
+  private maxLinks = 500; // Keep link checks within free tier time limits
+  private concurrency = 5;
+
+  constructor(private userAgent: string, private throttle: HostThrottle) {}
+
+  // Checks each link once and returns the ones that are broken (4xx/5xx, network errors or redirect loops)
+  async check(links: Map<string, string[]>, origin: string): Promise<{ checked: number; broken: BrokenLink[] }> {
+    const pending = Array.from(links.keys()).slice(0, this.maxLinks);
+    const broken: BrokenLink[] = [];
+    let checked = 0;
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        const url = pending.shift()!;
+        const result = await this.checkLink(url);
+        checked++;
+
+        if (result) {
+          broken.push({ ...result, url, external: !url.startsWith(origin), foundOn: links.get(url) || [] });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.concurrency }, worker));
+
+    return { checked, broken };
+  }
+
+  private async checkLink(url: string): Promise<Pick<BrokenLink, 'status' | 'reason'> | null> {
+    await this.throttle.wait(url);
+
+    try {
+      let { response } = await HttpClient.request(url, { method: 'HEAD', userAgent: this.userAgent, timeout: 15000 });
+
+      // Some servers don't implement HEAD, retry those with GET
+      if (response.status === 405 || response.status === 501) {
+        ({ response } = await HttpClient.request(url, { method: 'GET', userAgent: this.userAgent, timeout: 15000 }));
+      }
+      await response.body?.cancel().catch(() => undefined);
+
+      if (response.status >= 400) {
+        return { status: response.status, reason: `HTTP ${response.status}` };
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof RedirectLoopError) {
+        return { status: null, reason: 'Redirect loop' };
+      }
+      return { status: null, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { promises as dns } from 'dns';
+import { isIPv4, isIPv6 } from 'net';
+
+export class BlockedAddressError extends Error {
+  constructor(public url: string) {
+    super(`Refusing to fetch ${url}: it resolves to a private or local network address`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+// IPv4 ranges no public website lives in: this network, private, carrier-grade NAT, loopback, link-local
+// (cloud metadata services), IETF protocol assignments, benchmarking, and multicast/reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+];
+
+// Pages, redirects, sitemaps and links all come from the scanned site, so any of them could point the
+// server at itself or its private network. Every request the scanner makes resolves its host first and
+// is refused when any address is not public.
+export class NetworkGuard {
+  // SCAN_ALLOW_PRIVATE_NETWORKS=true turns the check off, e.g. for the CLI scanning a local preview server
+  static get enabled(): boolean {
+    return process.env.SCAN_ALLOW_PRIVATE_NETWORKS !== 'true';
+  }
+
+  static async check(url: string): Promise<void> {
+    if (!this.enabled) return;
+
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') return;
+
+    // URL keeps the brackets around IPv6 literals
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+      throw new BlockedAddressError(url);
+    }
+
+    const addresses = isIPv4(host) || isIPv6(host)
+      ? [host]
+      : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+    if (addresses.some(address => this.isPrivateAddress(address))) {
+      throw new BlockedAddressError(url);
+    }
+  }
+
+  static isPrivateAddress(address: string): boolean {
+    if (isIPv4(address)) {
+      const value = this.ipv4ToNumber(address);
+      return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+        const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+        return ((value & mask) >>> 0) === ((this.ipv4ToNumber(base) & mask) >>> 0);
+      });
+    }
+
+    const ipv6 = address.toLowerCase();
+    // IPv4-mapped and NAT64 addresses reach the IPv4 address they embed, written either way
+    const embedded = ipv6.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+    if (embedded) {
+      return this.isPrivateAddress(embedded[1]);
+    }
+    const embeddedHex = ipv6.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (embeddedHex) {
+      const [high, low] = [parseInt(embeddedHex[1], 16), parseInt(embeddedHex[2], 16)];
+      return this.isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+
+    // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+    return ipv6 === '::' || ipv6 === '::1' || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6) || ipv6.startsWith('ff');
+  }
+
+  private static ipv4ToNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => ((value << 8) | parseInt(octet, 10)) >>> 0, 0);
+  }
+}
@@ -0,0 +1,116 @@
+import * as puppeteer from 'puppeteer-core';
+import { NetworkGuard } from './NetworkGuard';
+
+interface Waiter {
+  resolve: (page: puppeteer.Page) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class PagePool {
+  private idle: puppeteer.Page[] = [];
+  private waiters: Waiter[] = [];
+  private created = 0;
+
+  constructor(private browser: puppeteer.Browser, private size: number, private acquireTimeout = 120000) {}
+
+  async acquire(): Promise<puppeteer.Page> {
+    const page = this.idle.pop();
+    if (page) {
+      return page;
+    }
+
+    if (this.created < this.size) {
+      this.created++;
+      try {
+        return await this.createPage();
+      } catch (error) {
+        this.created--;
+        throw error;
+      }
+    }
+
+    // Every tab is busy, wait for one to be released
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          reject(new Error(`No browser tab became free within ${this.acquireTimeout}ms`));
+        }, this.acquireTimeout)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Broken tabs (crashed or stuck navigations) are replaced instead of reused
+  async release(page: puppeteer.Page, discard = false): Promise<void> {
+    if (discard) {
+      await page.close().catch(() => undefined);
+      this.created--;
+
+      const waiter = this.nextWaiter();
+      if (waiter) {
+        this.created++;
+        this.createPage()
+          .then(waiter.resolve)
+          .catch(error => {
+            this.created--;
+            console.error('Failed to replace browser tab:', error);
+            waiter.reject(error);
+          });
+      }
+      return;
+    }
+
+    const waiter = this.nextWaiter();
+    if (waiter) {
+      waiter.resolve(page);
+    } else {
+      this.idle.push(page);
+    }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.idle.map(page => page.close().catch(() => undefined)));
+    this.idle = [];
+    this.created = 0;
+
+    let waiter: Waiter | undefined;
+    while ((waiter = this.nextWaiter())) {
+      waiter.reject(new Error('Browser closed'));
+    }
+  }
+
+  private nextWaiter(): Waiter | undefined {
+    const waiter = this.waiters.shift();
+    if (waiter) clearTimeout(waiter.timer);
+    return waiter;
+  }
+
+  private async createPage(): Promise<puppeteer.Page> {
+    const page = await this.browser.newPage();
+
+    // Block unnecessary resources to save bandwidth and speed up loading
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      const resourceType = request.resourceType();
+      // Block images, stylesheets, fonts, and media to focus on content
+      if (['image', 'stylesheet', 'font', 'media', 'websocket'].includes(resourceType)) {
+        request.abort();
+        return;
+      }
+
+      // Scripts on a scanned page must not reach the server's own network either
+      NetworkGuard.check(request.url())
+        .then(() => request.continue(), () => request.abort('blockedbyclient'))
+        .catch(() => undefined);
+    });
+
+    // Set a reasonable viewport size
+    await page.setViewport({ width: 1200, height: 800 });
+
+    return page;
+  }
+}
@@ -0,0 +1,76 @@
+import { ExtractedPage, RenderDifference } from '../types';
+import { UrlNormalizer } from './UrlNormalizer';
+
+export class RenderDiff {
+  // Compares the raw server HTML with the rendered DOM and reports SEO elements
+  // that only appear (or change) once JavaScript has run
+  static compare(raw: ExtractedPage, rendered: ExtractedPage): RenderDifference[] {
+    const differences: RenderDifference[] = [];
+
+    const compareText = (element: RenderDifference['element'], rawValue: string, renderedValue: string) => {
+      const difference = this.diffValues(element, rawValue, renderedValue);
+      if (difference) differences.push(difference);
+    };
+
+    compareText('title', raw.title, rendered.title);
+    compareText('metaDescription', raw.metaDescription, rendered.metaDescription);
+    compareText(
+      'canonical',
+      UrlNormalizer.normalize(raw.canonical) || raw.canonical,
+      UrlNormalizer.normalize(rendered.canonical) || rendered.canonical
+    );
+
+    (['h1', 'h2', 'h3'] as const).forEach(level => {
+      const rawHeadings = raw.headings[level];
+      const renderedHeadings = rendered.headings[level];
+      if (rawHeadings.join('\n') !== renderedHeadings.join('\n')) {
+        compareText(level, rawHeadings.join(' | '), renderedHeadings.join(' | '));
+      }
+    });
+
+    const rawLinks = new Set(raw.internalLinks.map(link => UrlNormalizer.normalize(link)));
+    const renderedOnly = rendered.internalLinks
+      .map(link => UrlNormalizer.normalize(link))
+      .filter(link => link && !rawLinks.has(link));
+    if (renderedOnly.length > 0) {
+      differences.push({
+        element: 'internalLinks',
+        change: rawLinks.size === 0 ? 'added' : 'changed',
+        raw: `${rawLinks.size} links`,
+        rendered: `${rendered.internalLinks.length} links (${renderedOnly.length} only after rendering)`
+      });
+    }
+
+    if (raw.structuredDataCount !== rendered.structuredDataCount) {
+      compareText(
+        'structuredData',
+        raw.structuredDataCount > 0 ? `${raw.structuredDataCount} blocks` : '',
+        rendered.structuredDataCount > 0 ? `${rendered.structuredDataCount} blocks` : ''
+      );
+    }
+
+    return differences;
+  }
+
+  private static diffValues(
+    element: RenderDifference['element'],
+    rawValue: string,
+    renderedValue: string
+  ): RenderDifference | null {
+    const rawText = (rawValue || '').trim();
+    const renderedText = (renderedValue || '').trim();
+
+    if (rawText === renderedText) return null;
+
+    let change: RenderDifference['change'] = 'changed';
+    if (!rawText) change = 'added';
+    else if (!renderedText) change = 'removed';
+
+    return {
+      element,
+      change,
+      raw: rawText.slice(0, 200),
+      rendered: renderedText.slice(0, 200)
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { HttpClient } from './HttpClient';
+import { GlobToken, UrlFilter } from './UrlFilter';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: GlobToken[];
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+export class RobotsTxt {
+  private groups: RobotsGroup[] = [];
+  private sitemapUrls: string[] = [];
+  private found = false;
+
+  constructor(private userAgent: string) {}
+
+  static async fetch(siteUrl: string, userAgent: string): Promise<RobotsTxt> {
+    const robots = new RobotsTxt(userAgent);
+    const robotsUrl = new URL('/robots.txt', siteUrl).href;
+
+    try {
+      const { response } = await HttpClient.request(robotsUrl, { userAgent, timeout: 10000 });
+
+      // A missing robots.txt means everything is allowed
+      if (response.ok) {
+        robots.parse(await response.text(), robotsUrl);
+        robots.found = true;
+      }
+    } catch (error) {
+      console.error(`Failed to fetch ${robotsUrl}:`, error);
+    }
+
+    return robots;
+  }
+
+  get exists(): boolean {
+    return this.found;
+  }
+
+  get sitemaps(): string[] {
+    return this.sitemapUrls;
+  }
+
+  parse(content: string, baseUrl: string): void {
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.split('#')[0].trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share the same group of rules
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          this.groups.push(current);
+        }
+        // An empty token would be contained in every agent name and match them all
+        if (value) {
+          current.userAgents.push(value.toLowerCase());
+        }
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+
+      if (field === 'sitemap') {
+        try {
+          this.sitemapUrls.push(new URL(value, baseUrl).href);
+        } catch (e) {
+          // Invalid sitemap URL
+        }
+      } else if ((field === 'allow' || field === 'disallow') && current) {
+        // An empty Disallow means nothing is disallowed
+        if (value) {
+          current.rules.push({ allow: field === 'allow', path: value, pattern: this.compilePath(value) });
+        }
+      }
+    }
+  }
+
+  isAllowed(url: string): boolean {
+    const rules = this.getRulesForAgent();
+    if (rules.length === 0) return true;
+
+    let path: string;
+    try {
+      const parsed = new URL(url);
+      path = parsed.pathname + parsed.search;
+    } catch (e) {
+      return false;
+    }
+
+    // The most specific (longest) matching rule wins; Allow wins ties
+    let match: RobotsRule | null = null;
+    for (const rule of rules) {
+      if (!UrlFilter.matches(rule.pattern, path)) continue;
+      if (!match ||
+          rule.path.length > match.path.length ||
+          (rule.path.length === match.path.length && rule.allow)) {
+        match = rule;
+      }
+    }
+
+    return match ? match.allow : true;
+  }
+
+  private getRulesForAgent(): RobotsRule[] {
+    const agent = this.userAgent.toLowerCase();
+
+    const specific = this.groups.filter(group =>
+      group.userAgents.some(ua => ua !== '*' && agent.includes(ua))
+    );
+    if (specific.length > 0) {
+      return specific.flatMap(group => group.rules);
+    }
+
+    return this.groups
+      .filter(group => group.userAgents.includes('*'))
+      .flatMap(group => group.rules);
+  }
+
+  // "*" matches any run of characters and a trailing "$" anchors the end; otherwise a rule matches
+  // any path it is a prefix of. Compiled for UrlFilter's matcher, which runs in linear time however
+  // many wildcards a site puts in a rule.
+  private compilePath(rule: string): GlobToken[] {
+    const anchored = rule.endsWith('$');
+    const body = anchored ? rule.slice(0, -1) : rule;
+    const tokens = Array.from(body).map((char): GlobToken => char === '*' ? 'any' : { literal: char });
+    return anchored ? tokens : [...tokens, 'any'];
+  }
+}
@@ -0,0 +1,33 @@
+import { ScanSignal } from '../types';
+import { storage } from '../storage/Storage';
+
+// Pause and cancel requests are stored on the session, so they reach the scan whichever process runs it.
+// The scraper asks between pages; reads are throttled so large crawls do not hammer the store.
+export class ScanControl {
+  private signal: ScanSignal | null = null;
+  private lastChecked = 0;
+
+  constructor(
+    private sessionId: string,
+    private interval = parseInt(process.env.SCAN_CONTROL_POLL_MS || '2000')
+  ) {}
+
+  static async request(sessionId: string, signal: ScanSignal | null): Promise<void> {
+    await storage.sessions.update(sessionId, { control: signal });
+  }
+
+  // Once a signal is seen it sticks; a failed read keeps the scan going
+  async check(): Promise<ScanSignal | null> {
+    if (this.signal || Date.now() - this.lastChecked < this.interval) {
+      return this.signal;
+    }
+    this.lastChecked = Date.now();
+
+    try {
+      this.signal = await storage.sessions.getControl(this.sessionId);
+    } catch (error) {
+      console.error('Failed to read scan control:', error);
+    }
+    return this.signal;
+  }
+}
@@ -0,0 +1,100 @@
+import { gunzipSync } from 'zlib';
+import { HttpClient } from './HttpClient';
+
+// The sitemap protocol's limit for one file, compressed or not. Anything larger is cut off, so a small
+// gzipped file cannot inflate into gigabytes of memory.
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapResult {
+  sitemaps: string[];
+  urls: string[];
+}
+
+export class SitemapLoader {
+  private maxSitemaps = 20; // Index files can reference hundreds of sitemaps
+  private maxUrls = 5000;
+
+  constructor(private userAgent: string) {}
+
+  async load(sitemapUrls: string[], siteUrl: string): Promise<SitemapResult> {
+    const origin = new URL(siteUrl).origin;
+    const pending = sitemapUrls.length > 0
+      ? [...sitemapUrls]
+      : [new URL('/sitemap.xml', siteUrl).href];
+    const visited = new Set<string>();
+    const urls = new Set<string>();
+
+    while (pending.length > 0 && visited.size < this.maxSitemaps && urls.size < this.maxUrls) {
+      const sitemapUrl = pending.shift()!;
+      if (visited.has(sitemapUrl)) continue;
+      visited.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl);
+      if (!xml) continue;
+
+      const locations = this.extractLocations(xml);
+
+      if (/<sitemapindex[\s>]/i.test(xml)) {
+        pending.push(...locations);
+        continue;
+      }
+
+      for (const loc of locations) {
+        // Only seed pages that belong to the site being scanned
+        if (loc.startsWith(origin) && urls.size < this.maxUrls) {
+          urls.add(loc);
+        }
+      }
+    }
+
+    return {
+      sitemaps: Array.from(visited),
+      urls: Array.from(urls)
+    };
+  }
+
+  private async fetchSitemap(url: string): Promise<string | null> {
+    try {
+      const { response } = await HttpClient.request(url, { userAgent: this.userAgent, timeout: 15000 });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const buffer = await HttpClient.readBody(response, MAX_SITEMAP_BYTES);
+
+      // Gzipped sitemaps start with the gzip magic bytes regardless of extension
+      if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        return gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf-8');
+      }
+
+      return buffer.toString('utf-8');
+    } catch (error) {
+      console.error(`Failed to load sitemap ${url}:`, error);
+      return null;
+    }
+  }
+
+  private extractLocations(xml: string): string[] {
+    const locations: string[] = [];
+    const locPattern = /<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gis;
+
+    let match: RegExpExecArray | null;
+    while ((match = locPattern.exec(xml)) !== null) {
+      const loc = match[1]
+        .replace(/&amp;/g, '&')
+        .replace(/&apos;/g, "'")
+        .replace(/&quot;/g, '"')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+
+      try {
+        locations.push(new URL(loc).href);
+      } catch (e) {
+        // Invalid URL in sitemap
+      }
+    }
+
+    return locations;
+  }
+}
@@ -0,0 +1,171 @@
+import { SocialTags, SocialIssue, SocialRecommendations, ExtractedPage } from '../types';
+import { UrlNormalizer } from './UrlNormalizer';
+
+const TWITTER_CARD_TYPES = ['summary', 'summary_large_image', 'app', 'player'];
+
+// Facebook and LinkedIn recommend 1200x630 (1.91:1); below 600x315 they fall back to a small thumbnail
+const RECOMMENDED_IMAGE = { width: 1200, height: 630 };
+const LARGE_PREVIEW_MIN = { width: 600, height: 315 };
+const MIN_IMAGE_SIZE = 200;
+
+interface AuditContext {
+  url: string;
+  title: string;
+  metaDescription: string;
+  canonical: string;
+  images: ExtractedPage['images'];
+}
+
+export class SocialAudit {
+  static validate(tags: SocialTags, page: AuditContext): SocialIssue[] {
+    const issues: SocialIssue[] = [];
+    const og = tags.openGraph;
+
+    const required: Array<[string, string]> = [
+      ['og:title', og.title],
+      ['og:description', og.description],
+      ['og:image', og.image],
+      ['og:url', og.url],
+      ['og:type', og.type]
+    ];
+    required.forEach(([tag, value]) => {
+      if (!value) {
+        issues.push({ tag, type: 'missing', message: `${tag} is missing` });
+      }
+    });
+
+    if (!tags.twitter.card) {
+      issues.push({ tag: 'twitter:card', type: 'missing', message: 'twitter:card is missing, X/Twitter will not show a preview card' });
+    } else if (!TWITTER_CARD_TYPES.includes(tags.twitter.card)) {
+      issues.push({ tag: 'twitter:card', type: 'invalid', message: `"${tags.twitter.card}" is not a valid twitter:card type` });
+    }
+
+    if (og.title && page.title && !this.textMatches(og.title, page.title)) {
+      issues.push({ tag: 'og:title', type: 'mismatch', message: 'og:title does not match the page title' });
+    }
+
+    if (og.description && page.metaDescription && !this.textMatches(og.description, page.metaDescription)) {
+      issues.push({ tag: 'og:description', type: 'mismatch', message: 'og:description does not match the meta description' });
+    }
+
+    if (og.url) {
+      if (!this.isAbsoluteUrl(og.url)) {
+        issues.push({ tag: 'og:url', type: 'invalid', message: 'og:url must be an absolute URL' });
+      } else if (UrlNormalizer.normalize(og.url) !== UrlNormalizer.normalize(page.canonical || page.url)) {
+        issues.push({ tag: 'og:url', type: 'mismatch', message: `og:url does not match the ${page.canonical ? 'canonical' : 'page'} URL` });
+      }
+    }
+
+    ['og:image', 'twitter:image'].forEach(tag => {
+      const value = tag === 'og:image' ? og.image : tags.twitter.image;
+      if (value && !this.isAbsoluteUrl(value)) {
+        issues.push({ tag, type: 'invalid', message: `${tag} must be an absolute URL, social crawlers do not resolve relative paths` });
+      }
+    });
+
+    const imageIssue = og.image ? this.checkImageSize(og.imageWidth, og.imageHeight, tags.twitter.card) : null;
+    if (imageIssue) {
+      issues.push({ tag: 'og:image', type: 'imageSize', message: imageIssue });
+    }
+
+    return issues;
+  }
+
+  static recommend(
+    tags: SocialTags,
+    issues: SocialIssue[],
+    page: AuditContext,
+    recommended: { title: string; metaDescription: string }
+  ): SocialRecommendations {
+    const og = tags.openGraph;
+    const hasIssue = (tag: string) => issues.some(issue => issue.tag === tag);
+
+    const ogTitle = og.title && !hasIssue('og:title') ? og.title : recommended.title;
+    const ogDescription = og.description && !hasIssue('og:description') ? og.description : recommended.metaDescription;
+    const ogImage = this.recommendImage(
+      tags,
+      issues.some(issue => issue.tag === 'og:image' && issue.type === 'imageSize'),
+      page
+    );
+    const twitterCard = TWITTER_CARD_TYPES.includes(tags.twitter.card)
+      ? tags.twitter.card
+      : ogImage ? 'summary_large_image' : 'summary';
+
+    return {
+      ogTitle,
+      ogDescription,
+      ogImage,
+      ogUrl: page.canonical || page.url,
+      ogType: og.type || 'website',
+      twitterCard,
+      twitterTitle: tags.twitter.title || ogTitle,
+      twitterDescription: tags.twitter.description || ogDescription,
+      twitterImage: this.isAbsoluteUrl(tags.twitter.image) ? tags.twitter.image : ogImage
+    };
+  }
+
+  private static checkImageSize(width: number | null, height: number | null, card: string): string | null {
+    if (!width || !height) {
+      return null;
+    }
+
+    if (width < MIN_IMAGE_SIZE || height < MIN_IMAGE_SIZE) {
+      return `Image is ${width}×${height}px, below the ${MIN_IMAGE_SIZE}×${MIN_IMAGE_SIZE}px minimum most platforms require`;
+    }
+
+    // Small "summary" cards are square thumbnails, only large previews need the wide format
+    if (card === 'summary') {
+      return null;
+    }
+
+    if (width < LARGE_PREVIEW_MIN.width || height < LARGE_PREVIEW_MIN.height) {
+      return `Image is ${width}×${height}px, too small for a large preview. Use ${RECOMMENDED_IMAGE.width}×${RECOMMENDED_IMAGE.height}px`;
+    }
+
+    const ratio = width / height;
+    if (ratio < 1.5 || ratio > 2.2) {
+      return `Image aspect ratio is ${ratio.toFixed(2)}:1 and will be cropped. Use 1.91:1 (${RECOMMENDED_IMAGE.width}×${RECOMMENDED_IMAGE.height}px)`;
+    }
+
+    return null;
+  }
+
+  private static recommendImage(tags: SocialTags, ogImageTooSmall: boolean, page: AuditContext): string {
+    // A relative og:image only needs to be made absolute, an undersized one needs replacing
+    const ogImage = this.resolve(tags.openGraph.image, page.url);
+    if (ogImage && !ogImageTooSmall) {
+      return ogImage;
+    }
+    if (this.isAbsoluteUrl(tags.twitter.image)) {
+      return tags.twitter.image;
+    }
+
+    // Fall back to the largest image on the page that is big enough to be shown
+    const candidates = page.images
+      .filter(img => (img.width || 0) >= MIN_IMAGE_SIZE && (img.height || 0) >= MIN_IMAGE_SIZE)
+      .sort((a, b) => (b.width! * b.height!) - (a.width! * a.height!));
+
+    return candidates[0]?.src || ogImage;
+  }
+
+  // Social titles often drop the brand suffix, so containment counts as a match
+  private static textMatches(a: string, b: string): boolean {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const left = normalize(a);
+    const right = normalize(b);
+    return left.includes(right) || right.includes(left);
+  }
+
+  private static resolve(href: string, base: string): string {
+    if (!href) return '';
+    try {
+      return new URL(href, base).href;
+    } catch (e) {
+      return '';
+    }
+  }
+
+  private static isAbsoluteUrl(value: string): boolean {
+    return /^https?:\/\//i.test(value || '');
+  }
+}
@@ -0,0 +1,201 @@
+import * as cheerio from 'cheerio';
+import { ExtractedPage, HttpInfo } from '../types';
+import { HttpClient, HttpStatusError } from './HttpClient';
+import { StructuredDataExtractor } from './StructuredDataExtractor';
+
+// Mount points used by common client-side frameworks (React, Vue, Next, Nuxt, Angular, Svelte)
+const SPA_ROOT_SELECTORS = [
+  '#root',
+  '#app',
+  '#__next',
+  '#__nuxt',
+  '#svelte',
+  '[data-reactroot]',
+  '[ng-version]',
+  'app-root'
+];
+
+// Main content is the first `main` match; without one it is the body minus the page chrome.
+// Shared with the in-browser extraction in LightweightScraper.
+export const MAIN_CONTENT = {
+  main: 'main, [role="main"], article',
+  nonContent: 'script, style, noscript, template, svg, iframe, nav, aside, form, button, select, ' +
+    '[role="navigation"], [role="complementary"], [hidden], [aria-hidden="true"]',
+  chrome: 'header, footer, [role="banner"], [role="contentinfo"]',
+  blocks: 'address, article, blockquote, dd, div, dl, dt, figcaption, figure, h1, h2, h3, h4, h5, h6, ' +
+    'header, footer, hr, li, main, ol, p, pre, section, table, td, th, tr, ul',
+  maxLength: 50000
+};
+
+// Larger pages are recorded as errors instead of being read into memory
+const MAX_PAGE_BYTES = parseInt(process.env.SCAN_MAX_PAGE_BYTES || String(10 * 1024 * 1024));
+
+export interface StaticFetchResult {
+  html: string;
+  finalUrl: string;
+  http: HttpInfo;
+}
+
+export class StaticExtractor {
+  static async fetchHtml(url: string, userAgent: string): Promise<StaticFetchResult> {
+    const { response, finalUrl, redirectChain, responseTimeMs } = await HttpClient.request(url, {
+      userAgent,
+      accept: 'text/html,application/xhtml+xml'
+    });
+
+    const http: HttpInfo = {
+      status: response.status,
+      finalUrl,
+      redirectChain,
+      responseTimeMs,
+      contentType: response.headers.get('content-type') || ''
+    };
+
+    if (response.status >= 400) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new HttpStatusError(http);
+    }
+
+    if (http.contentType && !/html/i.test(http.contentType)) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`Unsupported content type: ${http.contentType}`);
+    }
+
+    return {
+      html: (await HttpClient.readBody(response, MAX_PAGE_BYTES)).toString('utf-8'),
+      finalUrl,
+      http
+    };
+  }
+
+  // Mirrors the page.evaluate extraction in LightweightScraper so both modes produce the same shape
+  static extract(html: string, pageUrl: string): ExtractedPage {
+    const $ = cheerio.load(html);
+    const baseUrl = this.resolve($('base[href]').attr('href') || '', pageUrl) || pageUrl;
+
+    const title = $('title').first().text().trim();
+    const metaDesc = $('meta[name="description"]').attr('content')?.trim() || '';
+    const canonicalHref = $('link[rel="canonical"]').attr('href');
+    const canonical = canonicalHref ? this.resolve(canonicalHref, baseUrl) || '' : '';
+
+    // Open Graph uses property=, Twitter uses name=, but sites mix them up so accept both
+    const metaContent = (key: string) =>
+      $(`meta[property="${key}"], meta[name="${key}"]`).first().attr('content')?.trim() || '';
+
+    // Extract headings
+    const headingTexts = (selector: string) =>
+      $(selector).map((_, el) => $(el).text().trim()).get().filter(Boolean);
+
+    // Extract images with enhanced information
+    const images = $('img').map((_, el) => {
+      const img = $(el);
+      const src = this.resolve(img.attr('src') || '', baseUrl) || '';
+      const fileName = src.split('/').pop()?.split('?')[0] || 'unknown';
+      return {
+        src,
+        currentAlt: img.attr('alt')?.trim() || '',
+        fileName,
+        width: parseInt(img.attr('width') || '') || null,
+        height: parseInt(img.attr('height') || '') || null,
+        title: img.attr('title')?.trim() || ''
+      };
+    }).get().filter(img => img.src && !img.src.startsWith('data:'));
+
+    // Calculate word count from body text, same as textContent in the browser
+    const bodyText = $('body').text();
+    const wordCount = bodyText.split(/\s+/).filter(word => word.length > 2).length;
+
+    const visibleBody = $('body').clone();
+    visibleBody.find('script, style, noscript, template').remove();
+    const contentText = visibleBody.text().replace(/\s+/g, ' ').trim();
+
+    // Main content text with each block element on its own line
+    const mainRoot = $(MAIN_CONTENT.main).first();
+    const main = (mainRoot.length ? mainRoot : $('body')).clone();
+    main.find(mainRoot.length ? MAIN_CONTENT.nonContent : `${MAIN_CONTENT.nonContent}, ${MAIN_CONTENT.chrome}`).remove();
+    main.find('br').replaceWith('\n');
+    main.find(MAIN_CONTENT.blocks).each((_, el) => {
+      $(el).before('\n').after('\n');
+    });
+    const mainText = main.text()
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, MAIN_CONTENT.maxLength);
+
+    // Find internal links for further crawling
+    const currentOrigin = new URL(pageUrl).origin;
+    const allLinks = $('a[href]').map((_, el) => this.resolve($(el).attr('href') || '', baseUrl)).get()
+      .filter((url: string) => /^https?:/.test(url))
+      .filter((url, index, arr) => arr.indexOf(url) === index); // Remove duplicates
+    const links = allLinks
+      .filter(url => url.startsWith(currentOrigin))
+      .slice(0, 500); // Cap to prevent memory issues on link-heavy pages
+    const externalLinks = allLinks
+      .filter(url => !url.startsWith(currentOrigin))
+      .slice(0, 100);
+
+    return {
+      title,
+      metaDescription: metaDesc,
+      headings: { h1: headingTexts('h1'), h2: headingTexts('h2'), h3: headingTexts('h3') },
+      images: images.slice(0, 50), // Limit images to prevent memory issues
+      wordCount,
+      hasContent: wordCount > 50,
+      internalLinks: links,
+      externalLinks,
+      canonical,
+      contentText,
+      mainText,
+      siteName: metaContent('og:site_name') || metaContent('application-name'),
+      structuredDataCount: $('script[type="application/ld+json"], [itemscope]').length,
+      structuredData: StructuredDataExtractor.extract($, baseUrl),
+      social: {
+        openGraph: {
+          title: metaContent('og:title'),
+          description: metaContent('og:description'),
+          image: metaContent('og:image'),
+          imageWidth: parseInt(metaContent('og:image:width')) || null,
+          imageHeight: parseInt(metaContent('og:image:height')) || null,
+          url: metaContent('og:url'),
+          type: metaContent('og:type')
+        },
+        twitter: {
+          card: metaContent('twitter:card'),
+          title: metaContent('twitter:title'),
+          description: metaContent('twitter:description'),
+          image: metaContent('twitter:image'),
+          site: metaContent('twitter:site')
+        }
+      }
+    };
+  }
+
+  // Server-rendered pages have real text in the HTML; client-rendered ones ship an
+  // (almost) empty body with a framework mount point and rely on scripts to fill it.
+  static looksClientRendered(html: string, pageData: ExtractedPage): boolean {
+    const contentWords = pageData.contentText.split(/\s+/).filter(word => word.length > 2).length;
+    if (contentWords >= 50) {
+      return false;
+    }
+
+    const $ = cheerio.load(html);
+    const hasEmptySpaRoot = SPA_ROOT_SELECTORS.some(selector => {
+      const root = $(selector).first();
+      return root.length > 0 && root.text().trim().length < 50;
+    });
+    const hasScripts = $('script[src]').length > 0;
+
+    return hasEmptySpaRoot || (hasScripts && contentWords < 10);
+  }
+
+  private static resolve(href: string, base: string): string | null {
+    if (!href) return null;
+    try {
+      return new URL(href, base).href;
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import * as cheerio from 'cheerio';
+import { StructuredDataNode } from '../types';
+
+const SCHEMA_PREFIX = /^(https?:\/\/schema\.org\/|schema:)/i;
+
+// Elements whose Microdata/RDFa value is a URL attribute rather than their text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href',
+  link: 'href',
+  area: 'href',
+  img: 'src',
+  source: 'src',
+  video: 'src',
+  audio: 'src',
+  iframe: 'src',
+  embed: 'src',
+  object: 'data'
+};
+
+export class StructuredDataExtractor {
+  private static maxNodes = 50; // Some sites emit one entity per product tile
+
+  static fromHtml(html: string, baseUrl: string): { nodes: StructuredDataNode[]; parseErrors: string[] } {
+    return this.extract(cheerio.load(html), baseUrl);
+  }
+
+  static extract($: cheerio.CheerioAPI, baseUrl: string): { nodes: StructuredDataNode[]; parseErrors: string[] } {
+    const parseErrors: string[] = [];
+    const nodes: StructuredDataNode[] = [
+      ...this.extractJsonLd($, parseErrors),
+      ...this.extractMicrodata($, baseUrl),
+      ...this.extractRdfa($, baseUrl)
+    ];
+
+    return { nodes: nodes.slice(0, this.maxNodes), parseErrors };
+  }
+
+  // Reads the type name without its schema.org prefix; entities can declare several types
+  static typeName(value: unknown): string {
+    const type = Array.isArray(value) ? value[0] : value;
+    return typeof type === 'string' ? type.replace(SCHEMA_PREFIX, '') : '';
+  }
+
+  private static extractJsonLd($: cheerio.CheerioAPI, parseErrors: string[]): StructuredDataNode[] {
+    const nodes: StructuredDataNode[] = [];
+
+    $('script[type="application/ld+json"]').each((index, el) => {
+      const text = $(el).text().trim();
+      if (!text) return;
+
+      let json: any;
+      try {
+        json = JSON.parse(text);
+      } catch (error) {
+        parseErrors.push(`JSON-LD block ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+        return;
+      }
+
+      // Blocks can hold a single entity, an array of entities or an @graph
+      const entities = (Array.isArray(json) ? json : [json])
+        .flatMap(entity => Array.isArray(entity?.['@graph']) ? entity['@graph'] : [entity]);
+
+      entities.forEach(entity => {
+        if (entity && typeof entity === 'object' && entity['@type']) {
+          nodes.push({ format: 'json-ld', type: this.typeName(entity['@type']), data: entity });
+        }
+      });
+    });
+
+    return nodes;
+  }
+
+  private static extractMicrodata($: cheerio.CheerioAPI, baseUrl: string): StructuredDataNode[] {
+    // Nested items carry an itemprop, only top-level ones are entities of their own
+    return $('[itemscope]:not([itemprop])').map((_, el) => {
+      const data = this.readMicrodataItem($, $(el), baseUrl);
+      return { format: 'microdata' as const, type: this.typeName(data['@type']), data };
+    }).get();
+  }
+
+  private static readMicrodataItem($: cheerio.CheerioAPI, item: cheerio.Cheerio<any>, baseUrl: string): Record<string, any> {
+    const data: Record<string, any> = {};
+    const itemType = item.attr('itemtype');
+    if (itemType) {
+      data['@type'] = itemType.trim().split(/\s+/)[0].replace(SCHEMA_PREFIX, '');
+    }
+
+    item.find('[itemprop]').each((_, el) => {
+      const property = $(el);
+      // Skip properties that belong to a nested item
+      if (!this.belongsTo(property, item, '[itemscope]')) return;
+
+      const value = property.is('[itemscope]')
+        ? this.readMicrodataItem($, property, baseUrl)
+        : this.readValue(property, baseUrl, ['content']);
+
+      (property.attr('itemprop') || '').split(/\s+/).filter(Boolean).forEach(name => {
+        this.addProperty(data, name, value);
+      });
+    });
+
+    return data;
+  }
+
+  private static extractRdfa($: cheerio.CheerioAPI, baseUrl: string): StructuredDataNode[] {
+    return $('[typeof]:not([property])').map((_, el) => {
+      const data = this.readRdfaItem($, $(el), baseUrl);
+      return { format: 'rdfa' as const, type: this.typeName(data['@type']), data };
+    }).get().filter(node => node.type);
+  }
+
+  private static readRdfaItem($: cheerio.CheerioAPI, item: cheerio.Cheerio<any>, baseUrl: string): Record<string, any> {
+    const data: Record<string, any> = {};
+    const typeOf = (item.attr('typeof') || '').trim().split(/\s+/)[0];
+    if (typeOf) {
+      data['@type'] = typeOf.replace(SCHEMA_PREFIX, '');
+    }
+
+    item.find('[property]').each((_, el) => {
+      const property = $(el);
+      if (!this.belongsTo(property, item, '[typeof]')) return;
+
+      const value = property.is('[typeof]')
+        ? this.readRdfaItem($, property, baseUrl)
+        : this.readValue(property, baseUrl, ['content', 'resource']);
+
+      (property.attr('property') || '').split(/\s+/).filter(Boolean).forEach(name => {
+        this.addProperty(data, name.replace(SCHEMA_PREFIX, ''), value);
+      });
+    });
+
+    return data;
+  }
+
+  // A property belongs to the nearest ancestor that starts an item
+  private static belongsTo(property: cheerio.Cheerio<any>, item: cheerio.Cheerio<any>, selector: string): boolean {
+    return property.parent().closest(selector).get(0) === item.get(0);
+  }
+
+  private static readValue(node: cheerio.Cheerio<any>, baseUrl: string, valueAttributes: string[]): string {
+    const tagName = (node.prop('tagName') || '').toLowerCase();
+
+    for (const attribute of valueAttributes) {
+      const value = node.attr(attribute);
+      if (value !== undefined) return value.trim();
+    }
+
+    const urlAttribute = URL_ATTRIBUTES[tagName];
+    if (urlAttribute && node.attr(urlAttribute)) {
+      try {
+        return new URL(node.attr(urlAttribute)!, baseUrl).href;
+      } catch (e) {
+        return node.attr(urlAttribute)!;
+      }
+    }
+
+    if (tagName === 'time' && node.attr('datetime')) {
+      return node.attr('datetime')!.trim();
+    }
+    if ((tagName === 'data' || tagName === 'meter') && node.attr('value')) {
+      return node.attr('value')!.trim();
+    }
+
+    return node.text().replace(/\s+/g, ' ').trim();
+  }
+
+  // Repeated properties become arrays, matching how JSON-LD expresses them
+  private static addProperty(data: Record<string, any>, name: string, value: any): void {
+    if (!(name in data)) {
+      data[name] = value;
+    } else if (Array.isArray(data[name])) {
+      data[name].push(value);
+    } else {
+      data[name] = [data[name], value];
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { StructuredDataNode, StructuredDataIssue } from '../types';
+
+type Report = (severity: StructuredDataIssue['severity'], property: string, message: string) => void;
+
+interface TypeRule {
+  required: string[]; // "a|b" means at least one of them
+  recommended: string[];
+  check?: (data: Record<string, any>, report: Report) => void;
+}
+
+// Subtypes we validate with their parent's rules
+const PARENT_TYPES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+  Restaurant: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  AutomotiveBusiness: 'LocalBusiness',
+  HomeAndConstructionBusiness: 'LocalBusiness',
+  LegalService: 'LocalBusiness',
+  FinancialService: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  Hotel: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  CafeOrCoffeeShop: 'LocalBusiness',
+  HealthAndBeautyBusiness: 'LocalBusiness'
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Based on the schema.org definitions and Google's rich result requirements
+const TYPE_RULES: Record<string, TypeRule> = {
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs']
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'openingHoursSpecification|openingHours', 'geo', 'url', 'image', 'priceRange'],
+    check: (data, report) => {
+      asArray(data.address).forEach(address => {
+        if (typeof address !== 'object') {
+          report('warning', 'address', 'address should be a PostalAddress, not plain text');
+          return;
+        }
+        ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'].forEach(property => {
+          if (!hasValue(address[property])) {
+            report('warning', `address.${property}`, `address is missing ${property}`);
+          }
+        });
+      });
+    }
+  },
+  Product: {
+    required: ['name', 'offers|review|aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku'],
+    check: (data, report) => {
+      asArray(data.offers).forEach(offer => {
+        if (typeof offer !== 'object') return;
+        if (!hasValue(offer.price) && !hasValue(offer.lowPrice)) {
+          report('error', 'offers.price', 'Offer is missing price');
+        }
+        if (!hasValue(offer.priceCurrency)) {
+          report('error', 'offers.priceCurrency', 'Offer is missing priceCurrency');
+        }
+        if (!hasValue(offer.availability)) {
+          report('warning', 'offers.availability', 'Offer is missing availability');
+        }
+      });
+    }
+  },
+  Article: {
+    required: ['headline'],
+    recommended: ['image', 'datePublished', 'dateModified', 'author'],
+    check: (data, report) => {
+      const headline = textOf(data.headline);
+      if (headline.length > 110) {
+        report('warning', 'headline', `headline is ${headline.length} characters, Google truncates headlines over 110`);
+      }
+      ['datePublished', 'dateModified'].forEach(property => {
+        const value = textOf(data[property]);
+        if (value && !ISO_DATE.test(value)) {
+          report('error', property, `${property} "${value}" is not an ISO 8601 date`);
+        }
+      });
+      asArray(data.author).forEach(author => {
+        if (typeof author !== 'object') {
+          report('warning', 'author', 'author should be a Person or Organization with a name, not plain text');
+        } else if (!hasValue(author.name)) {
+          report('error', 'author.name', 'author is missing name');
+        }
+      });
+    }
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    check: (data, report) => {
+      const items = asArray(data.itemListElement);
+      items.forEach((item, index) => {
+        const label = `Breadcrumb item ${index + 1}`;
+        if (typeof item !== 'object') {
+          report('error', 'itemListElement', `${label} must be a ListItem`);
+          return;
+        }
+        if (!hasValue(item.position)) {
+          report('error', 'itemListElement.position', `${label} is missing position`);
+        }
+        if (!hasValue(item.name) && !hasValue(item.item?.name)) {
+          report('error', 'itemListElement.name', `${label} is missing name`);
+        }
+        // Only the last crumb (the current page) may omit its URL
+        if (!hasValue(item.item) && index < items.length - 1) {
+          report('error', 'itemListElement.item', `${label} is missing item URL`);
+        }
+      });
+    }
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    check: (data, report) => {
+      asArray(data.mainEntity).forEach((question, index) => {
+        const label = `Question ${index + 1}`;
+        if (typeof question !== 'object') {
+          report('error', 'mainEntity', `${label} must be a Question`);
+          return;
+        }
+        if (!hasValue(question.name)) {
+          report('error', 'mainEntity.name', `${label} is missing name`);
+        }
+        const answer = asArray(question.acceptedAnswer)[0];
+        if (!answer) {
+          report('error', 'mainEntity.acceptedAnswer', `${label} is missing acceptedAnswer`);
+        } else if (typeof answer !== 'object' || !hasValue(answer.text)) {
+          report('error', 'mainEntity.acceptedAnswer.text', `${label} answer is missing text`);
+        }
+      });
+    }
+  }
+};
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hasValue(value: any): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(hasValue);
+  return true;
+}
+
+function textOf(value: any): string {
+  const first = asArray(value)[0];
+  return typeof first === 'string' || typeof first === 'number' ? String(first).trim() : '';
+}
+
+export class StructuredDataValidator {
+  static validate(nodes: StructuredDataNode[], parseErrors: string[]): StructuredDataIssue[] {
+    const issues: StructuredDataIssue[] = parseErrors.map(message => ({
+      type: 'JSON-LD',
+      format: 'json-ld',
+      severity: 'error',
+      message
+    }));
+
+    nodes.forEach(node => {
+      const report: Report = (severity, property, message) => {
+        issues.push({ type: node.type || 'Unknown', format: node.format, severity, property, message });
+      };
+
+      if (!node.type) {
+        report('warning', '@type', 'Item has no schema.org type');
+        return;
+      }
+
+      const rule = TYPE_RULES[PARENT_TYPES[node.type] || node.type];
+      if (!rule) return;
+
+      rule.required.forEach(property => {
+        const alternatives = property.split('|');
+        if (!alternatives.some(name => hasValue(node.data[name]))) {
+          report('error', property, `Missing required property ${alternatives.join(' or ')}`);
+        }
+      });
+
+      rule.recommended.forEach(property => {
+        const alternatives = property.split('|');
+        if (!alternatives.some(name => hasValue(node.data[name]))) {
+          report('warning', property, `Missing recommended property ${alternatives.join(' or ')}`);
+        }
+      });
+
+      rule.check?.(node.data, report);
+    });
+
+    return issues.slice(0, 50); // Limit stored list size
+  }
+
+  // Builds a starting point for pages without any structured data, using only what we know about the page
+  static suggest(page: {
+    url: string;
+    title: string;
+    description: string;
+    h1?: string;
+    image: string;
+    wordCount: number;
+  }): string {
+    const url = new URL(page.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const brand = this.guessBrand(page.title, url.hostname);
+    const graph: Record<string, any>[] = [];
+
+    if (segments.length === 0) {
+      graph.push({
+        '@type': 'Organization',
+        name: brand,
+        url: url.origin,
+        ...(page.image ? { logo: page.image } : {})
+      });
+      graph.push({
+        '@type': 'WebSite',
+        name: brand,
+        url: url.origin
+      });
+    } else {
+      graph.push({
+        '@type': 'BreadcrumbList',
+        itemListElement: [
+          { '@type': 'ListItem', position: 1, name: 'Home', item: url.origin },
+          ...segments.map((segment, index) => {
+            const isCurrent = index === segments.length - 1;
+            return {
+              '@type': 'ListItem',
+              position: index + 2,
+              name: isCurrent && page.h1 ? page.h1 : this.humanize(segment),
+              item: `${url.origin}/${segments.slice(0, index + 1).join('/')}`
+            };
+          })
+        ]
+      });
+
+      if (page.wordCount >= 300 && /\/(blog|news|articles?|posts?|insights)\//i.test(`${url.pathname}/`)) {
+        graph.push({
+          '@type': 'Article',
+          headline: (page.h1 || page.title).slice(0, 110),
+          ...(page.description ? { description: page.description } : {}),
+          ...(page.image ? { image: page.image } : {}),
+          mainEntityOfPage: page.url,
+          publisher: { '@type': 'Organization', name: brand }
+        });
+      }
+    }
+
+    const jsonLd = graph.length === 1
+      ? { '@context': 'https://schema.org', ...graph[0] }
+      : { '@context': 'https://schema.org', '@graph': graph };
+
+    return JSON.stringify(jsonLd, null, 2);
+  }
+
+  // Titles usually end with the brand, e.g. "Blue Widgets | Acme"
+  private static guessBrand(title: string, hostname: string): string {
+    const parts = title.split(/\s[|–—-]\s/).map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1) {
+      return parts[parts.length - 1];
+    }
+    return hostname.replace(/^www\./, '');
+  }
+
+  private static humanize(segment: string): string {
+    let decoded = segment;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch (e) {
+      // Keep the raw segment
+    }
+    const words = decoded.replace(/\.[a-z0-9]+$/i, '').replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+}
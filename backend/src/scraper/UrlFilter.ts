@@ -0,0 +1,139 @@
+import vm from 'vm';
+import { CrawlOptions } from '../types';
+
+// One step of a path glob: a literal character, "?" (any character but "/"), "*" (any run of
+// characters without "/") or "**" (any run of characters)
+export type GlobToken = { literal: string } | 'one' | 'segment' | 'any';
+
+type PathMatcher = (path: string) => boolean;
+
+// Regular expressions are tested in a separate context so a test can be cut off mid-backtrack
+const REGEX_TIMEOUT_MS = 50;
+const regexContext = vm.createContext({ regex: /$^/, path: '', matched: false });
+const regexTest = new vm.Script('matched = regex.test(path)');
+
+export class UrlFilter {
+  private includes: PathMatcher[];
+  private excludes: PathMatcher[];
+
+  constructor(private options: CrawlOptions) {
+    this.includes = options.includePatterns.map(pattern => UrlFilter.compile(pattern));
+    this.excludes = options.excludePatterns.map(pattern => UrlFilter.compile(pattern));
+  }
+
+  // Patterns prefixed with "re:" are regular expressions, everything else is a path glob.
+  // Throws when the regular expression does not parse.
+  static compile(pattern: string): PathMatcher {
+    if (pattern.startsWith('re:')) {
+      return this.compileRegex(new RegExp(pattern.slice(3)), pattern);
+    }
+
+    const tokens = this.compileGlob(pattern);
+    // The normalizer drops trailing slashes, so "/blog/**" has to cover "/blog" itself as well
+    const index = pattern.endsWith('/**') ? this.compileGlob(pattern.slice(0, -3)) : null;
+    return path => this.matches(tokens, path) || (index !== null && this.matches(index, path));
+  }
+
+  private static compileGlob(pattern: string): GlobToken[] {
+    const tokens: GlobToken[] = [];
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '*') {
+        if (pattern[i + 1] === '*') {
+          tokens.push('any');
+          i++;
+        } else {
+          tokens.push('segment');
+        }
+      } else if (char === '?') {
+        tokens.push('one');
+      } else {
+        tokens.push({ literal: char });
+      }
+    }
+    return tokens;
+  }
+
+  // Walks every position the glob could be at in step with the path, so matching takes time
+  // proportional to path length times pattern length whatever the pattern
+  static matches(tokens: GlobToken[], path: string): boolean {
+    const advance = (positions: Set<number>, position: number) => {
+      positions.add(position);
+      // A star can match nothing, so the position after it is reachable too
+      while (position < tokens.length && (tokens[position] === 'segment' || tokens[position] === 'any')) {
+        positions.add(++position);
+      }
+    };
+
+    let current = new Set<number>();
+    advance(current, 0);
+    for (const char of path) {
+      const next = new Set<number>();
+      current.forEach(position => {
+        const token = tokens[position];
+        if (token === undefined) return;
+        if (token === 'any' || (token === 'segment' && char !== '/')) {
+          advance(next, position);
+        } else if ((token === 'one' && char !== '/') || (typeof token === 'object' && token.literal === char)) {
+          advance(next, position + 1);
+        }
+      });
+      if (next.size === 0) return false;
+      current = next;
+    }
+    return current.has(tokens.length);
+  }
+
+  // A crafted regular expression can backtrack for minutes on one path and stall the server. A test that
+  // runs past REGEX_TIMEOUT_MS counts as no match, and the pattern is not tried again during the scan.
+  private static compileRegex(regex: RegExp, pattern: string): PathMatcher {
+    let timedOut = false;
+    return path => {
+      if (timedOut) return false;
+
+      regexContext.regex = regex;
+      regexContext.path = path;
+      try {
+        regexTest.runInContext(regexContext, { timeout: REGEX_TIMEOUT_MS });
+        return regexContext.matched === true;
+      } catch (error) {
+        timedOut = true;
+        console.warn(`Ignoring URL pattern ${pattern}: matching ${path} took longer than ${REGEX_TIMEOUT_MS}ms`);
+        return false;
+      }
+    };
+  }
+
+  // Applies the query string rules; returns null when the URL should not be crawled
+  apply(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      return null;
+    }
+
+    if (parsed.search) {
+      if (this.options.queryStrings === 'skip') {
+        return null;
+      }
+      if (this.options.queryStrings === 'strip') {
+        parsed.search = '';
+      } else {
+        this.options.stripParams.forEach(param => parsed.searchParams.delete(param));
+      }
+    }
+
+    const path = parsed.pathname + parsed.search;
+
+    if (this.includes.length > 0 && !this.includes.some(matches => matches(path))) {
+      return null;
+    }
+
+    if (this.excludes.some(matches => matches(path))) {
+      return null;
+    }
+
+    return parsed.href;
+  }
+}
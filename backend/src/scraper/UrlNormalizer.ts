@@ -0,0 +1,58 @@
+// Query parameters that only carry campaign/analytics data and never change page content
+const TRACKING_PARAMS = [
+  'gclid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi'
+];
+
+export class UrlNormalizer {
+  // Produces a canonical form of a URL so equivalent URLs are only crawled once:
+  // scheme and host are lowercased, default ports and fragments are removed,
+  // tracking parameters are dropped, remaining parameters are sorted and
+  // trailing slashes are removed from non-root paths. Path case is preserved
+  // because most servers treat paths as case-sensitive.
+  static normalize(url: string, base?: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = base ? new URL(url, base) : new URL(url);
+    } catch (e) {
+      return null;
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return null;
+    }
+
+    // URL already lowercases scheme/host and drops default ports
+    parsed.hash = '';
+    parsed.username = '';
+    parsed.password = '';
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !UrlNormalizer.isTrackingParam(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    let pathname = parsed.pathname.replace(/\/{2,}/g, '/');
+    if (pathname.length > 1 && pathname.endsWith('/')) {
+      pathname = pathname.slice(0, -1);
+    }
+    parsed.pathname = pathname;
+
+    return parsed.href;
+  }
+
+  static isTrackingParam(param: string): boolean {
+    const key = param.toLowerCase();
+    return key.startsWith('utm_') || TRACKING_PARAMS.includes(key);
+  }
+}
@@ -1,18 +1,32 @@
 import 'dotenv/config';
 import express from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import slowDown from 'express-slow-down';
-import { InMemoryQueue } from './queue/InMemoryQueue';
-import { ReportGenerator } from './report/ReportGenerator';
-import { supabase } from './utils/supabase';
+import { createJobQueue, QueueFullError } from './queue/JobQueue';
+import { ReportGenerator, REPORT_FORMATS, REPORT_SHEETS } from './report/ReportGenerator';
+import { BrandingProfiles } from './report/BrandingProfiles';
+import { ReportLinks } from './report/ReportLinks';
+import { storage } from './storage/Storage';
 import { InputValidator } from './utils/validation';
-import { StartScanRequest, StartScanResponse, ScanStatusResponse } from './types';
+import { RuleEngine } from './rules/RuleEngine';
+import { ScanHistory } from './history/ScanHistory';
+import { ScanComparison } from './history/ScanComparison';
+import { ScanScheduler } from './schedule/ScanScheduler';
+import { RegressionMonitor } from './alerts/RegressionMonitor';
+import { CompositeNotifier } from './alerts/Notifier';
+import { ScanControl } from './scraper/ScanControl';
+import { scanEvents } from './events/ScanEventBus';
+import { ScanData, StartScanRequest, StartScanResponse, ScanStatusResponse, ScanControlResponse, ScanEvent } from './types';
 
 const app = express();
-const queue = new InMemoryQueue();
+const queue = createJobQueue();
 const reportGenerator = new ReportGenerator();
+const notifier = CompositeNotifier.fromEnv();
+const scheduler = new ScanScheduler(queue);
+const regressionMonitor = new RegressionMonitor(notifier);
 
 // Security headers
 app.use(helmet({
@@ -83,6 +97,23 @@ const scanRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+// Admin endpoints that act outside the app (sending alerts) need ADMIN_TOKEN as a bearer token,
+// and do not exist at all when no token is configured
+const requireAdminToken: express.RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(404).json({ error: 'Endpoint not found' });
+  }
+  
+  // Hashed so the comparison takes the same time whatever the length of the given token
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  const given = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!given || !timingSafeEqual(digest(given), digest(token))) {
+    return res.status(401).json({ error: 'Invalid or missing admin token' });
+  }
+  next();
+};
+
 // Request logging
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
@@ -90,18 +121,235 @@ app.use((req, res, next) => {
 });
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  let queueStats;
+  try {
+    queueStats = await queue.getQueueStats();
+  } catch (error) {
+    console.error('Queue stats error:', error);
+  }
+  
   res.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
-    queue: queue.getQueueStats()
+    storage: storage.driver,
+    queue: queueStats ? { driver: queue.driver, ...queueStats } : { driver: queue.driver, error: 'unavailable' }
   });
 });
 
+// List the SEO rules with their default severity and thresholds
+app.get('/api/rules', (req, res) => {
+  res.json({ rules: new RuleEngine().listRules() });
+});
+
+// List projects whose scans are kept for history
+app.get('/api/projects', async (req, res) => {
+  try {
+    res.json({ projects: await ScanHistory.listProjects() });
+  } catch (error) {
+    console.error('Project list error:', error);
+    res.status(500).json({ error: 'Failed to list projects' });
+  }
+});
+
+// Create a named project for a site
+app.post('/api/projects', async (req, res) => {
+  try {
+    const { name, url } = req.body;
+    
+    const nameValidation = InputValidator.validateProjectName(name);
+    if (!nameValidation.isValid) {
+      return res.status(400).json({ error: nameValidation.error });
+    }
+    
+    const urlValidation = InputValidator.validateUrl(url);
+    if (!urlValidation.isValid) {
+      return res.status(400).json({ error: urlValidation.error });
+    }
+    
+    const project = await ScanHistory.createProject(nameValidation.sanitized, new URL(urlValidation.sanitized).origin);
+    res.status(201).json({ project });
+    
+  } catch (error) {
+    console.error('Project create error:', error);
+    res.status(500).json({ error: 'Failed to create project' });
+  }
+});
+
+// Scan history of a project, newest first
+app.get('/api/projects/:id/scans', async (req, res) => {
+  try {
+    const projectValidation = InputValidator.validateProjectId(req.params.id);
+    if (!projectValidation.isValid) {
+      return res.status(400).json({ error: projectValidation.error });
+    }
+    
+    const project = await ScanHistory.getProject(projectValidation.sanitized);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    res.json({ project, scans: await ScanHistory.listScans(project.id) });
+    
+  } catch (error) {
+    console.error('Scan history error:', error);
+    res.status(500).json({ error: 'Failed to get scan history' });
+  }
+});
+
+// Set or clear the cron schedule of a project; scheduled scans reuse the given crawl and rule settings
+app.put('/api/projects/:id/schedule', async (req, res) => {
+  try {
+    const projectValidation = InputValidator.validateProjectId(req.params.id);
+    if (!projectValidation.isValid) {
+      return res.status(400).json({ error: projectValidation.error });
+    }
+    
+    const { schedule, crawlOptions, ruleSettings } = req.body;
+    
+    const scheduleValidation = InputValidator.validateSchedule(schedule);
+    if (!scheduleValidation.isValid) {
+      return res.status(400).json({ error: scheduleValidation.error });
+    }
+    
+    const crawlValidation = InputValidator.validateCrawlOptions(crawlOptions);
+    if (!crawlValidation.isValid) {
+      return res.status(400).json({ error: crawlValidation.error });
+    }
+    
+    const rulesValidation = InputValidator.validateRuleSettings(ruleSettings);
+    if (!rulesValidation.isValid) {
+      return res.status(400).json({ error: rulesValidation.error });
+    }
+    
+    if (!await ScanHistory.getProject(projectValidation.sanitized)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    const project = await ScanHistory.updateSchedule(projectValidation.sanitized, scheduleValidation.sanitized, {
+      crawlOptions: crawlValidation.sanitized,
+      ruleSettings: rulesValidation.sanitized
+    });
+    
+    res.json({ project });
+    
+  } catch (error) {
+    console.error('Schedule update error:', error);
+    res.status(500).json({ error: 'Failed to update schedule' });
+  }
+});
+
+// List saved report branding profiles
+app.get('/api/branding', async (req, res) => {
+  try {
+    res.json({ profiles: await BrandingProfiles.list() });
+  } catch (error) {
+    console.error('Branding list error:', error);
+    res.status(500).json({ error: 'Failed to list branding profiles' });
+  }
+});
+
+// Save a reusable white-label branding profile for reports
+app.post('/api/branding', async (req, res) => {
+  try {
+    const profileValidation = InputValidator.validateBrandingProfile(req.body);
+    if (!profileValidation.isValid) {
+      return res.status(400).json({ error: profileValidation.error });
+    }
+    
+    const { name, settings } = profileValidation.sanitized;
+    res.status(201).json({ profile: await BrandingProfiles.create(name, settings) });
+    
+  } catch (error) {
+    console.error('Branding create error:', error);
+    res.status(500).json({ error: 'Failed to create branding profile' });
+  }
+});
+
+// Replace a branding profile; fields left out are cleared
+app.put('/api/branding/:id', async (req, res) => {
+  try {
+    const idValidation = InputValidator.validateBrandingProfileId(req.params.id);
+    if (!idValidation.isValid) {
+      return res.status(400).json({ error: idValidation.error });
+    }
+    
+    const profileValidation = InputValidator.validateBrandingProfile(req.body);
+    if (!profileValidation.isValid) {
+      return res.status(400).json({ error: profileValidation.error });
+    }
+    
+    const { name, settings } = profileValidation.sanitized;
+    const profile = await BrandingProfiles.update(idValidation.sanitized, name, settings);
+    if (!profile) {
+      return res.status(404).json({ error: 'Branding profile not found' });
+    }
+    
+    res.json({ profile });
+    
+  } catch (error) {
+    console.error('Branding update error:', error);
+    res.status(500).json({ error: 'Failed to update branding profile' });
+  }
+});
+
+app.delete('/api/branding/:id', async (req, res) => {
+  try {
+    const idValidation = InputValidator.validateBrandingProfileId(req.params.id);
+    if (!idValidation.isValid) {
+      return res.status(400).json({ error: idValidation.error });
+    }
+    
+    if (!await BrandingProfiles.delete(idValidation.sanitized)) {
+      return res.status(404).json({ error: 'Branding profile not found' });
+    }
+    
+    res.status(204).end();
+    
+  } catch (error) {
+    console.error('Branding delete error:', error);
+    res.status(500).json({ error: 'Failed to delete branding profile' });
+  }
+});
+
+// Compare two completed scans of the same project
+app.get('/api/scan/compare', async (req, res) => {
+  try {
+    const baseValidation = InputValidator.validateSessionId(req.query.base as string);
+    const currentValidation = InputValidator.validateSessionId(req.query.current as string);
+    if (!baseValidation.isValid || !currentValidation.isValid) {
+      return res.status(400).json({ error: 'base and current must be valid session IDs' });
+    }
+    
+    const [base, current] = await Promise.all([
+      ScanHistory.getSession(baseValidation.sanitized),
+      ScanHistory.getSession(currentValidation.sanitized)
+    ]);
+    
+    if (!base || !current) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    if (base.status !== 'completed' || current.status !== 'completed') {
+      return res.status(400).json({ error: 'Both scans must be completed before they can be compared' });
+    }
+    
+    if (!base.project_id || base.project_id !== current.project_id) {
+      return res.status(400).json({ error: 'Only scans of the same project can be compared' });
+    }
+    
+    res.json(ScanComparison.compare(base, current));
+    
+  } catch (error) {
+    console.error('Scan compare error:', error);
+    res.status(500).json({ error: 'Failed to compare scans' });
+  }
+});
+
 // Start new scan (with stricter rate limiting)
 app.post('/api/scan/start', scanRateLimit, async (req, res) => {
   try {
-    const { url, brandColors }: StartScanRequest = req.body;
+    const { url, brandColors, crawlOptions, ruleSettings, projectId }: StartScanRequest = req.body;
     
     // Validate and sanitize URL
     const urlValidation = InputValidator.validateUrl(url);
@@ -115,18 +363,42 @@ app.post('/api/scan/start', scanRateLimit, async (req, res) => {
       return res.status(400).json({ error: colorsValidation.error });
     }
     
-    // Create session in database
-    const { data: session, error } = await supabase
-      .from('scan_sessions')
-      .insert({
-        url: urlValidation.sanitized,
-        status: 'pending',
-        report_config: { brandColors: colorsValidation.sanitized || {} }
-      })
-      .select()
-      .single();
+    // Validate crawl limits and URL filters
+    const crawlValidation = InputValidator.validateCrawlOptions(crawlOptions);
+    if (!crawlValidation.isValid) {
+      return res.status(400).json({ error: crawlValidation.error });
+    }
     
-    if (error) {
+    // Validate per-scan rule overrides
+    const rulesValidation = InputValidator.validateRuleSettings(ruleSettings);
+    if (!rulesValidation.isValid) {
+      return res.status(400).json({ error: rulesValidation.error });
+    }
+    
+    // Scans saved to a project are kept for history
+    let project = null;
+    if (projectId !== undefined) {
+      const projectValidation = InputValidator.validateProjectId(projectId);
+      if (!projectValidation.isValid) {
+        return res.status(400).json({ error: projectValidation.error });
+      }
+      
+      project = await ScanHistory.getProject(projectValidation.sanitized);
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+      
+      const siteHost = (value: string) => new URL(value).hostname.replace(/^www\./, '');
+      if (siteHost(project.url) !== siteHost(urlValidation.sanitized)) {
+        return res.status(400).json({ error: `URL must be on the project's site (${project.url})` });
+      }
+    }
+    
+    // Create session in database
+    let session;
+    try {
+      session = await ScanHistory.createSession(urlValidation.sanitized, colorsValidation.sanitized || {}, project?.id);
+    } catch (error) {
       console.error('Database error:', error);
       return res.status(500).json({ error: 'Failed to create scan session' });
     }
@@ -135,7 +407,12 @@ app.post('/api/scan/start', scanRateLimit, async (req, res) => {
     try {
       await queue.add({
         sessionId: session.id,
-        url: urlValidation.sanitized
+        url: urlValidation.sanitized,
+        crawlOptions: crawlValidation.sanitized,
+        ruleSettings: rulesValidation.sanitized,
+        projectId: project?.id,
+        trigger: 'manual',
+        clientId: req.ip
       });
       
       console.log(`Scan started for ${urlValidation.sanitized} (session: ${session.id})`);
@@ -148,13 +425,18 @@ app.post('/api/scan/start', scanRateLimit, async (req, res) => {
       res.json(response);
       
     } catch (queueError) {
+      // The scan never ran, so there is nothing worth keeping in the session
+      if (queueError instanceof QueueFullError) {
+        await ScanHistory.deleteSession(session.id).catch(error => console.error('Session cleanup error:', error));
+        
+        res.set('Retry-After', '120');
+        return res.status(503).json({ error: queueError.message });
+      }
+      
       console.error('Queue error:', queueError);
       
       // Update session status to failed
-      await supabase
-        .from('scan_sessions')
-        .update({ status: 'failed' })
-        .eq('id', session.id);
+      await storage.sessions.update(session.id, { status: 'failed' });
       
       return res.status(500).json({ error: 'Failed to queue scan' });
     }
@@ -165,6 +447,35 @@ app.post('/api/scan/start', scanRateLimit, async (req, res) => {
   }
 });
 
+// Status as reported to clients, or null when the session does not exist
+const loadScanStatus = async (sessionId: string): Promise<ScanStatusResponse | null> => {
+  const data = await storage.sessions.get(sessionId);
+  
+  if (!data) {
+    return null;
+  }
+  
+  const scanData: Partial<ScanData> = data.scan_data || {};
+  
+  const response: ScanStatusResponse = {
+    status: data.status as ScanStatusResponse['status'],
+    pagesProcessed: scanData.pagesProcessed || 0,
+    totalPages: scanData.totalPages || scanData.pagesProcessed || 0,
+    currentPage: scanData.currentPage,
+    errors: scanData.errors?.length || 0
+  };
+  
+  if (data.status === 'pending') {
+    try {
+      response.queuePosition = (await queue.getQueuePosition(sessionId)) ?? undefined;
+    } catch (queueError) {
+      console.error('Queue position error:', queueError);
+    }
+  }
+  
+  return response;
+};
+
 // Get scan status
 app.get('/api/scan/:id/status', async (req, res) => {
   try {
@@ -176,31 +487,231 @@ app.get('/api/scan/:id/status', async (req, res) => {
       return res.status(400).json({ error: sessionValidation.error });
     }
     
-    const { data, error } = await supabase
-      .from('scan_sessions')
-      .select('status, scan_data, url')
-      .eq('id', sessionValidation.sanitized)
-      .single();
+    const response = await loadScanStatus(sessionValidation.sanitized);
+    if (!response) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Status check error:', error);
+    res.status(500).json({ error: 'Failed to get scan status' });
+  }
+});
+
+// Stream scan progress as Server-Sent Events. Page events come from the scraper when it runs in this
+// process; status snapshots are read from the database so the stream also works with separate workers.
+app.get('/api/scan/:id/events', async (req, res) => {
+  const sessionValidation = InputValidator.validateSessionId(req.params.id);
+  if (!sessionValidation.isValid) {
+    return res.status(400).json({ error: sessionValidation.error });
+  }
+  
+  const sessionId = sessionValidation.sanitized;
+  let status: ScanStatusResponse | null;
+  try {
+    status = await loadScanStatus(sessionId);
+  } catch (error) {
+    console.error('Event stream error:', error);
+    return res.status(500).json({ error: 'Failed to get scan status' });
+  }
+  if (!status) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop proxies from buffering the stream
+  });
+  res.flushHeaders();
+  
+  let lastEventId = parseInt(req.get('Last-Event-ID') || String(req.query.lastEventId || '0')) || 0;
+  const isFinished = (current: ScanStatusResponse) => ['completed', 'failed', 'cancelled'].includes(current.status);
+  
+  const send = (event: ScanEvent) => {
+    lastEventId = Math.max(lastEventId, event.id);
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  // Snapshots are not part of the replay log, so they carry the last id instead of a new one
+  const sendStatus = (current: ScanStatusResponse) => {
+    const event: ScanEvent = { type: 'status', status: current, id: lastEventId, timestamp: new Date().toISOString() };
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  
+  scanEvents.since(sessionId, lastEventId).forEach(send);
+  sendStatus(status);
+  if (isFinished(status)) {
+    return res.end();
+  }
+  
+  let closed = false;
+  let lastSnapshot = JSON.stringify(status);
+  const unsubscribe = scanEvents.subscribe(sessionId, send);
+  
+  const poll = setInterval(async () => {
+    try {
+      const latest = await loadScanStatus(sessionId);
+      if (closed) return;
+      if (!latest) return close();
+      
+      if (JSON.stringify(latest) !== lastSnapshot) {
+        lastSnapshot = JSON.stringify(latest);
+        sendStatus(latest);
+      }
+      if (isFinished(latest)) close();
+    } catch (error) {
+      console.error('Event stream status error:', error);
+    }
+  }, parseInt(process.env.SCAN_EVENTS_POLL_MS || '3000'));
+  
+  // Comments keep idle connections from being dropped by proxies
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(poll);
+    clearInterval(keepAlive);
+    unsubscribe();
+    res.end();
+  };
+  req.on('close', close);
+});
+
+// Cancel a waiting, running or paused scan
+app.post('/api/scan/:id/cancel', async (req, res) => {
+  try {
+    const sessionValidation = InputValidator.validateSessionId(req.params.id);
+    if (!sessionValidation.isValid) {
+      return res.status(400).json({ error: sessionValidation.error });
+    }
+    
+    const sessionId = sessionValidation.sanitized;
+    const session = await ScanHistory.getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    if (!['pending', 'scanning', 'paused'].includes(session.status)) {
+      return res.status(409).json({ error: `Scan is already ${session.status}` });
+    }
+    
+    // Scans that are paused or still waiting in the queue stop right away
+    let stopped: boolean;
+    if (session.status === 'paused') {
+      stopped = await ScanHistory.transition(sessionId, ['paused'], 'cancelled', null);
+    } else {
+      stopped = (await queue.remove(sessionId)) !== null &&
+        await ScanHistory.transition(sessionId, ['pending', 'scanning'], 'cancelled', null);
+    }
+    
+    if (stopped) {
+      const response: ScanControlResponse = { status: 'cancelled', message: 'Scan cancelled' };
+      return res.json(response);
+    }
+    
+    // A running scan stops once the pages it is fetching have finished
+    await ScanControl.request(sessionId, 'cancel');
+    const response: ScanControlResponse = { status: 'scanning', message: 'Cancelling after the pages in progress' };
+    res.status(202).json(response);
+    
+  } catch (error) {
+    console.error('Scan cancel error:', error);
+    res.status(500).json({ error: 'Failed to cancel scan' });
+  }
+});
+
+// Pause a scan; a running scan saves its frontier so it can be resumed later
+app.post('/api/scan/:id/pause', async (req, res) => {
+  try {
+    const sessionValidation = InputValidator.validateSessionId(req.params.id);
+    if (!sessionValidation.isValid) {
+      return res.status(400).json({ error: sessionValidation.error });
+    }
+    
+    const sessionId = sessionValidation.sanitized;
+    const session = await ScanHistory.getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    if (session.status !== 'pending' && session.status !== 'scanning') {
+      return res.status(409).json({ error: `Only running scans can be paused (scan is ${session.status})` });
+    }
+    
+    // Nothing has been crawled yet, so only the job's settings need keeping
+    const job = await queue.remove(sessionId);
+    if (job) {
+      await ScanHistory.transition(sessionId, ['pending', 'scanning'], 'paused', {
+        crawlOptions: job.crawlOptions,
+        ruleSettings: job.ruleSettings,
+        trigger: job.trigger,
+        clientId: job.clientId,
+        pausedAt: new Date().toISOString()
+      });
+      const response: ScanControlResponse = { status: 'paused', message: 'Scan paused' };
+      return res.json(response);
+    }
+    
+    await ScanControl.request(sessionId, 'pause');
+    const response: ScanControlResponse = { status: 'scanning', message: 'Pausing after the pages in progress' };
+    res.status(202).json(response);
+    
+  } catch (error) {
+    console.error('Scan pause error:', error);
+    res.status(500).json({ error: 'Failed to pause scan' });
+  }
+});
+
+// Put a paused scan back in the queue
+app.post('/api/scan/:id/resume', async (req, res) => {
+  try {
+    const sessionValidation = InputValidator.validateSessionId(req.params.id);
+    if (!sessionValidation.isValid) {
+      return res.status(400).json({ error: sessionValidation.error });
+    }
     
-    if (error || !data) {
+    const sessionId = sessionValidation.sanitized;
+    const session = await ScanHistory.getSession(sessionId);
+    if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
     
-    const scanData = data.scan_data || {};
+    if (session.status !== 'paused' || !(await ScanHistory.transition(sessionId, ['paused'], 'pending'))) {
+      return res.status(409).json({ error: 'Only paused scans can be resumed' });
+    }
     
-    const response: ScanStatusResponse = {
-      status: data.status as 'pending' | 'scanning' | 'completed' | 'failed',
-      pagesProcessed: scanData.pagesProcessed || 0,
-      totalPages: scanData.totalPages || scanData.pagesProcessed || 0,
-      currentPage: scanData.currentPage,
-      errors: scanData.errors?.length || 0
-    };
+    const state = session.crawl_state;
+    try {
+      await queue.add({
+        sessionId,
+        url: session.url,
+        crawlOptions: state?.crawlOptions,
+        ruleSettings: state?.ruleSettings,
+        projectId: session.project_id || undefined,
+        trigger: state?.trigger || 'manual',
+        clientId: state?.clientId || req.ip,
+        resume: Boolean(state?.progress)
+      });
+    } catch (queueError) {
+      // Leave the scan paused so it can be resumed once there is room
+      await ScanHistory.transition(sessionId, ['pending'], 'paused');
+      if (queueError instanceof QueueFullError) {
+        res.set('Retry-After', '120');
+        return res.status(503).json({ error: queueError.message });
+      }
+      throw queueError;
+    }
     
+    const response: ScanControlResponse = { status: 'pending', message: 'Scan resumed' };
     res.json(response);
     
   } catch (error) {
-    console.error('Status check error:', error);
-    res.status(500).json({ error: 'Failed to get scan status' });
+    console.error('Scan resume error:', error);
+    res.status(500).json({ error: 'Failed to resume scan' });
   }
 });
 
@@ -213,13 +724,9 @@ app.get('/api/scan/:id/results', async (req, res) => {
       return res.status(400).json({ error: 'Session ID is required' });
     }
     
-    const { data, error } = await supabase
-      .from('scan_sessions')
-      .select('*')
-      .eq('id', sessionId)
-      .single();
+    const data = await storage.sessions.get(sessionId);
     
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: 'Session not found' });
     }
     
@@ -235,6 +742,7 @@ app.get('/api/scan/:id/results', async (req, res) => {
       url: data.url,
       status: data.status,
       scanData: data.scan_data,
+      projectId: data.project_id || undefined,
       createdAt: data.created_at,
       completedAt: data.scan_data?.completedAt
     });
@@ -248,20 +756,34 @@ app.get('/api/scan/:id/results', async (req, res) => {
 // Generate report
 app.post('/api/report/generate', async (req, res) => {
   try {
-    const { sessionId, brandColors } = req.body;
+    const { sessionId, brandColors, includeChanges, format = 'docx', sheet = 'pages', brandingProfileId } = req.body;
     
     if (!sessionId) {
       return res.status(400).json({ error: 'Session ID is required' });
     }
     
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+    }
+    
+    if (!REPORT_SHEETS.includes(sheet)) {
+      return res.status(400).json({ error: `sheet must be one of: ${REPORT_SHEETS.join(', ')}` });
+    }
+    
+    if (brandingProfileId !== undefined && brandingProfileId !== null) {
+      const profileValidation = InputValidator.validateBrandingProfileId(brandingProfileId);
+      if (!profileValidation.isValid) {
+        return res.status(400).json({ error: profileValidation.error });
+      }
+      if (!await BrandingProfiles.get(profileValidation.sanitized)) {
+        return res.status(404).json({ error: 'Branding profile not found' });
+      }
+    }
+    
     // Check if session exists and is completed
-    const { data: session, error } = await supabase
-      .from('scan_sessions')
-      .select('status, scan_data')
-      .eq('id', sessionId)
-      .single();
+    const session = await storage.sessions.get(sessionId);
     
-    if (error || !session) {
+    if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
     
@@ -278,12 +800,18 @@ app.post('/api/report/generate', async (req, res) => {
     
     console.log(`Generating report for session ${sessionId}`);
     
-    const reportId = await reportGenerator.generateReport(sessionId, brandColors);
+    const { reportId, expiresAt } = await reportGenerator.generateReport(sessionId, brandColors, {
+      includeChanges: includeChanges === true,
+      format,
+      sheet,
+      brandingProfileId: brandingProfileId || undefined
+    });
     
     res.json({
       reportId,
-      downloadUrl: `/api/report/${reportId}/download`,
-      expiresAt: new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString()
+      downloadUrl: ReportLinks.downloadUrl(reportId, expiresAt),
+      fileName: ReportGenerator.describe(reportId)!.fileName,
+      expiresAt: expiresAt.toISOString()
     });
     
   } catch (error) {
@@ -295,8 +823,8 @@ app.post('/api/report/generate', async (req, res) => {
   }
 });
 
-// Download report
-app.get('/api/report/:id/download', (req, res) => {
+// Download report through the signed link returned by /api/report/generate
+app.get('/api/report/:id/download', async (req, res) => {
   try {
     const reportId = req.params.id;
     
@@ -304,16 +832,27 @@ app.get('/api/report/:id/download', (req, res) => {
       return res.status(400).json({ error: 'Report ID is required' });
     }
     
-    const buffer = reportGenerator.getReport(reportId);
+    const file = ReportGenerator.describe(reportId);
+    if (!file) {
+      return res.status(404).json({ error: 'Report not found or expired' });
+    }
+    
+    const link = ReportLinks.verify(reportId, req.query.expires, req.query.signature);
+    if (link === 'invalid') {
+      return res.status(403).json({ error: 'Invalid download link' });
+    }
+    if (link === 'expired') {
+      return res.status(410).json({ error: 'Download link has expired' });
+    }
+    
+    const buffer = await reportGenerator.getReport(reportId);
     
     if (!buffer) {
       return res.status(404).json({ error: 'Report not found or expired' });
     }
     
-    const filename = `seo-report-${new Date().toISOString().split('T')[0]}.docx`;
-    
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
     res.setHeader('Content-Length', buffer.length);
     
     console.log(`Report downloaded: ${reportId}`);
@@ -326,9 +865,9 @@ app.get('/api/report/:id/download', (req, res) => {
 });
 
 // Queue statistics (for monitoring)
-app.get('/api/queue/stats', (req, res) => {
+app.get('/api/queue/stats', async (req, res) => {
   try {
-    const stats = queue.getQueueStats();
+    const stats = await queue.getQueueStats();
     res.json(stats);
   } catch (error) {
     console.error('Queue stats error:', error);
@@ -339,19 +878,14 @@ app.get('/api/queue/stats', (req, res) => {
 // Database cleanup endpoint
 app.post('/api/admin/cleanup', async (req, res) => {
   try {
-    const { data, error } = await supabase.rpc('cleanup_and_count');
+    const deletedSessions = await storage.sessions.deleteExpired();
     
-    if (error) {
-      console.error('Cleanup error:', error);
-      return res.status(500).json({ error: 'Cleanup failed' });
-    }
-    
-    // Also cleanup in-memory queue
-    queue.cleanup();
+    // Also cleanup finished queue jobs
+    await queue.cleanup();
     
     res.json({ 
       message: 'Cleanup completed',
-      deletedSessions: data || 0
+      deletedSessions
     });
     
   } catch (error) {
@@ -360,6 +894,35 @@ app.post('/api/admin/cleanup', async (req, res) => {
   }
 });
 
+// Send a sample regression alert through the configured notifiers (requires ADMIN_TOKEN)
+app.post('/api/admin/alerts/test', requireAdminToken, async (req, res) => {
+  try {
+    await notifier.send({
+      projectId: '00000000-0000-0000-0000-000000000000',
+      projectName: 'Alert test',
+      url: 'https://example.com',
+      sessionId: '00000000-0000-0000-0000-000000000001',
+      previousSessionId: '00000000-0000-0000-0000-000000000002',
+      reasons: ['Health score dropped from 90 to 80', '1 new high-priority issue(s)'],
+      healthBefore: 90,
+      healthAfter: 80,
+      newHighIssues: [{ url: 'https://example.com/', ruleId: 'title-missing', title: 'Missing Title Tag', severity: 'high' }],
+      newIssueCount: 1,
+      resolvedIssueCount: 0,
+      detectedAt: new Date().toISOString()
+    });
+    
+    res.json({ message: 'Test alert sent', channels: notifier.channels });
+    
+  } catch (error) {
+    console.error('Test alert error:', error);
+    res.status(500).json({
+      error: 'Failed to send test alert',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Global error handler
 app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Unhandled error:', error);
@@ -377,13 +940,30 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 SEO Tool Backend running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`CORS Origin: ${process.env.CORS_ORIGIN || process.env.FRONTEND_URL || 'http://localhost:3001'}`);
+  console.log(`Queue driver: ${queue.driver}`);
+  
+  regressionMonitor.watch(queue);
+  queue.start().catch(error => console.error('Queue failed to start:', error));
+  
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    scheduler.start();
+  }
+});
+
+// Hand running jobs back to the queue when the host restarts us (Render sends SIGTERM on deploys)
+process.on('SIGTERM', async () => {
+  console.log('SIGTERM received, stopping queue');
+  scheduler.stop();
+  regressionMonitor.unwatch();
+  await queue.stop().catch(error => console.error('Queue failed to stop:', error));
+  process.exit(0);
 });
 
 // Cleanup old data every hour
 setInterval(async () => {
   try {
-    await supabase.rpc('cleanup_and_count');
-    queue.cleanup();
+    await storage.sessions.deleteExpired();
+    await queue.cleanup();
     console.log('Periodic cleanup completed');
   } catch (error) {
     console.error('Periodic cleanup failed:', error);
@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReportRepository, REPORT_TTL_MS } from './Storage';
+
+// One file per report. Expiry is judged by file age, so reports also expire across restarts.
+export class FileReportStore implements ReportRepository {
+  constructor(private dir: string) {}
+
+  async save(reportId: string, content: Buffer): Promise<Date> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // Written next to the report and renamed into place so a download never sees half a file
+    const temp = `${this.file(reportId)}.${process.pid}.tmp`;
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, this.file(reportId));
+    await this.prune();
+
+    const stats = await fs.stat(this.file(reportId));
+    return new Date(stats.mtimeMs + REPORT_TTL_MS);
+  }
+
+  async get(reportId: string): Promise<Buffer | null> {
+    if (!(await this.expiresAt(reportId))) return null;
+
+    try {
+      return await fs.readFile(this.file(reportId));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async expiresAt(reportId: string): Promise<Date | null> {
+    try {
+      const stats = await fs.stat(this.file(reportId));
+      const expiresAt = stats.mtimeMs + REPORT_TTL_MS;
+      return expiresAt > Date.now() ? new Date(expiresAt) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Report ids are generated by us, but never let one point outside the directory
+  private file(reportId: string): string {
+    return path.join(this.dir, path.basename(reportId));
+  }
+
+  private async prune(): Promise<void> {
+    for (const file of await fs.readdir(this.dir)) {
+      const stats = await fs.stat(path.join(this.dir, file)).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs >= REPORT_TTL_MS) {
+        await fs.rm(path.join(this.dir, file), { force: true });
+        console.log(`Report cache cleaned up for ${file}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ScanData, ScanSession, ScanStatus, ScanSignal, ScanHistoryEntry, BrandingSettings } from '../types';
+import {
+  Storage, SessionRepository, ProjectRepository, BrandingRepository, ReportRepository, ProjectRow, BrandingProfileRow, NewSession,
+  SessionUpdate
+} from './Storage';
+
+// Unsaved scans expire like they do in Postgres
+const SESSION_TTL_MS = 3 * 60 * 60 * 1000;
+
+// One JSON file per record. Records are read once and then served from memory, so only a
+// single process may use a directory; writes go to a temp file and are renamed into place.
+// Without a directory the records only live in memory.
+class JsonCollection<T extends { id: string }> {
+  private records: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(private dir: string | null) {}
+
+  async all(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  async get(id: string): Promise<T | null> {
+    return (await this.all()).get(id) || null;
+  }
+
+  // Once loaded, the record is replaced before the first await so callers can check and write atomically
+  async put(record: T): Promise<void> {
+    (this.records || await this.all()).set(record.id, record);
+    await this.persist(record.id, JSON.stringify(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(this.records || await this.all()).delete(id)) return;
+    await this.persist(id, null);
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    const records = new Map<string, T>();
+    if (!this.dir) {
+      this.records = records;
+      return records;
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+
+    for (const file of await fs.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const record: T = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'));
+        records.set(record.id, record);
+      } catch (error) {
+        console.error(`Skipping unreadable record ${file}:`, error);
+      }
+    }
+
+    this.records = records;
+    return records;
+  }
+
+  // Writes to the same record are chained so an older snapshot never lands last
+  private persist(id: string, content: string | null): Promise<void> {
+    if (!this.dir) return Promise.resolve();
+
+    const file = path.join(this.dir, `${id}.json`);
+    const previous = this.writes.get(id) || Promise.resolve();
+    const write = previous.then(async () => {
+      if (content === null) {
+        await fs.rm(file, { force: true });
+        return;
+      }
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, content);
+      await fs.rename(temp, file);
+    });
+
+    const settled = write.catch(() => undefined);
+    this.writes.set(id, settled);
+    settled.then(() => {
+      if (this.writes.get(id) === settled) this.writes.delete(id);
+    });
+    return write;
+  }
+}
+
+class FileSessions implements SessionRepository {
+  constructor(private records: JsonCollection<ScanSession>) {}
+
+  async create({ url, brandColors, projectId }: NewSession): Promise<ScanSession> {
+    const now = Date.now();
+    const session: ScanSession = {
+      id: randomUUID(),
+      url,
+      status: 'pending',
+      scan_data: {} as ScanData,
+      report_config: { brandColors },
+      project_id: projectId || null,
+      control: null,
+      crawl_state: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: projectId ? null : new Date(now + SESSION_TTL_MS).toISOString()
+    };
+
+    await this.records.put(session);
+    return { ...session };
+  }
+
+  async get(sessionId: string): Promise<ScanSession | null> {
+    const session = await this.records.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async update(sessionId: string, updates: SessionUpdate): Promise<void> {
+    const session = await this.records.get(sessionId);
+    if (!session) return;
+
+    await this.records.put({ ...session, ...updates });
+  }
+
+  // The check and the update happen without yielding, so two requests cannot both win
+  async transition(sessionId: string, from: ScanStatus[], updates: SessionUpdate): Promise<boolean> {
+    const session = await this.records.get(sessionId);
+    if (!session || !from.includes(session.status as ScanStatus)) return false;
+
+    await this.records.put({ ...session, ...updates });
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.records.delete(sessionId);
+  }
+
+  async getControl(sessionId: string): Promise<ScanSignal | null> {
+    return (await this.records.get(sessionId))?.control || null;
+  }
+
+  async listByProject(projectId: string, limit: number): Promise<ScanHistoryEntry[]> {
+    const sessions = Array.from((await this.records.all()).values())
+      .filter(session => session.project_id === projectId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+
+    return sessions.map(session => ({
+      sessionId: session.id,
+      status: session.status,
+      createdAt: session.created_at,
+      completedAt: session.scan_data?.completedAt,
+      pagesProcessed: session.scan_data?.pagesProcessed || 0,
+      healthScore: session.scan_data?.health?.score
+    }));
+  }
+
+  async findPrevious(session: ScanSession): Promise<ScanSession | null> {
+    if (!session.project_id) return null;
+
+    const previous = Array.from((await this.records.all()).values())
+      .filter(other => other.project_id === session.project_id &&
+        other.status === 'completed' &&
+        other.created_at < session.created_at)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    return previous ? { ...previous } : null;
+  }
+
+  async failUnfinished(scanData: ScanData): Promise<number> {
+    const unfinished = Array.from((await this.records.all()).values())
+      .filter(session => session.status === 'pending' || session.status === 'scanning');
+
+    await Promise.all(unfinished.map(session => this.records.put({ ...session, status: 'failed', scan_data: scanData })));
+    return unfinished.length;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = new Date().toISOString();
+    const expired = Array.from((await this.records.all()).values())
+      .filter(session => session.expires_at && session.expires_at < now);
+
+    await Promise.all(expired.map(session => this.records.delete(session.id)));
+    return expired.length;
+  }
+}
+
+class FileProjects implements ProjectRepository {
+  constructor(private records: JsonCollection<ProjectRow>) {}
+
+  async list(): Promise<ProjectRow[]> {
+    return Array.from((await this.records.all()).values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(projectId: string): Promise<ProjectRow | null> {
+    return this.records.get(projectId);
+  }
+
+  async create(name: string, url: string): Promise<ProjectRow> {
+    const project: ProjectRow = {
+      id: randomUUID(),
+      name,
+      url,
+      created_at: new Date().toISOString(),
+      schedule: null,
+      scan_options: {},
+      last_scheduled_at: null
+    };
+
+    await this.records.put(project);
+    return project;
+  }
+
+  async listScheduled(): Promise<ProjectRow[]> {
+    return (await this.list()).filter(project => project.schedule);
+  }
+
+  async update(projectId: string, updates: Partial<Pick<ProjectRow, 'schedule' | 'scan_options' | 'last_scheduled_at'>>): Promise<ProjectRow | null> {
+    const project = await this.records.get(projectId);
+    if (!project) return null;
+
+    const updated = { ...project, ...updates };
+    await this.records.put(updated);
+    return updated;
+  }
+
+  async claimScheduledRun(projectId: string, previous: string | null, at: string): Promise<boolean> {
+    const project = await this.records.get(projectId);
+    if (!project || (project.last_scheduled_at || null) !== previous) return false;
+
+    await this.records.put({ ...project, last_scheduled_at: at });
+    return true;
+  }
+}
+
+class FileBranding implements BrandingRepository {
+  constructor(private records: JsonCollection<BrandingProfileRow>) {}
+
+  async list(): Promise<BrandingProfileRow[]> {
+    return Array.from((await this.records.all()).values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(profileId: string): Promise<BrandingProfileRow | null> {
+    return this.records.get(profileId);
+  }
+
+  async create(name: string, settings: BrandingSettings): Promise<BrandingProfileRow> {
+    const now = new Date().toISOString();
+    const profile: BrandingProfileRow = {
+      id: randomUUID(),
+      name,
+      settings,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.records.put(profile);
+    return profile;
+  }
+
+  async update(profileId: string, name: string, settings: BrandingSettings): Promise<BrandingProfileRow | null> {
+    const profile = await this.records.get(profileId);
+    if (!profile) return null;
+
+    const updated = { ...profile, name, settings, updated_at: new Date().toISOString() };
+    await this.records.put(updated);
+    return updated;
+  }
+
+  async delete(profileId: string): Promise<boolean> {
+    if (!await this.records.get(profileId)) return false;
+
+    await this.records.delete(profileId);
+    return true;
+  }
+}
+
+// Keeps sessions, projects and branding profiles under one directory so the app runs without a database.
+// With no directory nothing touches the disk (the memory driver, used by the CLI).
+export class FileStorage implements Storage {
+  readonly driver: string;
+  sessions: FileSessions;
+  projects: FileProjects;
+  branding: FileBranding;
+  reports: ReportRepository;
+
+  constructor(dir: string | null, reports: ReportRepository) {
+    const root = dir && path.resolve(dir);
+    this.driver = root ? 'file' : 'memory';
+    this.sessions = new FileSessions(new JsonCollection(root && path.join(root, 'sessions')));
+    this.projects = new FileProjects(new JsonCollection(root && path.join(root, 'projects')));
+    this.branding = new FileBranding(new JsonCollection(root && path.join(root, 'branding')));
+    this.reports = reports;
+  }
+}
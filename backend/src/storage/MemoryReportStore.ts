@@ -0,0 +1,33 @@
+import { ReportRepository, REPORT_TTL_MS } from './Storage';
+
+interface StoredReport {
+  content: Buffer;
+  expiresAt: Date;
+}
+
+// Reports held in process memory; they do not survive a restart
+export class MemoryReportStore implements ReportRepository {
+  private reports: Map<string, StoredReport> = new Map();
+
+  async save(reportId: string, content: Buffer): Promise<Date> {
+    const expiresAt = new Date(Date.now() + REPORT_TTL_MS);
+    this.reports.set(reportId, { content, expiresAt });
+    const expiry = setTimeout(() => {
+      // A newer render of the same report keeps its own timer
+      if (this.reports.get(reportId)?.expiresAt === expiresAt) {
+        this.reports.delete(reportId);
+        console.log(`Report cache cleaned up for ${reportId}`);
+      }
+    }, REPORT_TTL_MS);
+    expiry.unref();
+    return expiresAt;
+  }
+
+  async get(reportId: string): Promise<Buffer | null> {
+    return this.reports.get(reportId)?.content || null;
+  }
+
+  async expiresAt(reportId: string): Promise<Date | null> {
+    return this.reports.get(reportId)?.expiresAt || null;
+  }
+}
@@ -0,0 +1,149 @@
+import { createHash, createHmac } from 'crypto';
+import { ReportRepository, REPORT_TTL_MS } from './Storage';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Object metadata holding when a report expires
+const EXPIRES_HEADER = 'x-amz-meta-expires-at';
+
+export interface ObjectStoreConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string;
+}
+
+// Reports in a bucket of any S3-compatible object store (AWS S3, Cloudflare R2, MinIO, ...), addressed
+// path-style and signed with AWS Signature Version 4. Expired objects are never served; a lifecycle rule
+// on the bucket deletes them.
+export class ObjectReportStore implements ReportRepository {
+  constructor(private config: ObjectStoreConfig) {}
+
+  static fromEnv(): ObjectReportStore {
+    const { REPORT_S3_BUCKET, REPORT_S3_ACCESS_KEY_ID, REPORT_S3_SECRET_ACCESS_KEY } = process.env;
+    if (!REPORT_S3_BUCKET || !REPORT_S3_ACCESS_KEY_ID || !REPORT_S3_SECRET_ACCESS_KEY) {
+      throw new Error('REPORT_STORAGE_DRIVER=s3 requires REPORT_S3_BUCKET, REPORT_S3_ACCESS_KEY_ID and REPORT_S3_SECRET_ACCESS_KEY');
+    }
+
+    const region = process.env.REPORT_S3_REGION || 'us-east-1';
+    return new ObjectReportStore({
+      endpoint: (process.env.REPORT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+      region,
+      bucket: REPORT_S3_BUCKET,
+      accessKeyId: REPORT_S3_ACCESS_KEY_ID,
+      secretAccessKey: REPORT_S3_SECRET_ACCESS_KEY,
+      prefix: process.env.REPORT_S3_PREFIX ?? 'reports/'
+    });
+  }
+
+  async save(reportId: string, content: Buffer): Promise<Date> {
+    const expiresAt = new Date(Date.now() + REPORT_TTL_MS);
+    const response = await this.request('PUT', reportId, content, { [EXPIRES_HEADER]: expiresAt.toISOString() });
+    if (!response.ok) {
+      throw new Error(`Failed to store report: ${response.status} ${await response.text()}`);
+    }
+    return expiresAt;
+  }
+
+  async get(reportId: string): Promise<Buffer | null> {
+    const response = await this.request('GET', reportId);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to read report: ${response.status} ${await response.text()}`);
+    }
+
+    if (!this.expiry(response)) {
+      await response.body?.cancel();
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async expiresAt(reportId: string): Promise<Date | null> {
+    const response = await this.request('HEAD', reportId);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to look up report: ${response.status}`);
+    }
+    return this.expiry(response);
+  }
+
+  // Objects stored without the metadata expire by age, like files do
+  private expiry(response: Response): Date | null {
+    const stored = response.headers.get(EXPIRES_HEADER);
+    const lastModified = response.headers.get('last-modified');
+    const expiresAt = stored
+      ? Date.parse(stored)
+      : lastModified ? Date.parse(lastModified) + REPORT_TTL_MS : NaN;
+    return expiresAt > Date.now() ? new Date(expiresAt) : null;
+  }
+
+  private request(method: 'GET' | 'HEAD' | 'PUT', reportId: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const { endpoint, bucket, prefix } = this.config;
+    const key = `${prefix}${reportId}`.split('/').map(segment => this.encode(segment)).join('/');
+    const url = new URL(`${endpoint}/${this.encode(bucket)}/${key}`);
+
+    const headers = this.sign(method, url, body || Buffer.alloc(0), extraHeaders, new Date());
+    return fetch(url, {
+      method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  }
+
+  // Headers for an AWS Signature Version 4 request (no query string, payload hashed)
+  private sign(method: string, url: URL, body: Buffer, extraHeaders: Record<string, string>, now: Date): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    // fetch sends the Host header itself, but it still has to be signed
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': this.sha256(body),
+      'x-amz-date': amzDate
+    };
+    const signed: Record<string, string> = { ...headers, host: url.host };
+    const names = Object.keys(signed).map(name => name.toLowerCase()).sort();
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...names.map(name => `${name}:${signed[name].trim()}`),
+      '',
+      signedHeaders,
+      headers['x-amz-content-sha256']
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key: Buffer, part) => this.hmac(key, part),
+      this.hmac(this.hmac(Buffer.from(`AWS4${secretAccessKey}`), date), region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+
+  // RFC 3986 encoding of one path segment, as Signature Version 4 expects
+  private encode(segment: string): string {
+    return encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private sha256(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  private hmac(key: Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+  }
+}
@@ -0,0 +1,131 @@
+import path from 'path';
+import { ScanData, ScanSession, ScanStatus, ScanSignal, CrawlState, ScanHistoryEntry, ProjectScanOptions, BrandColors, BrandingSettings } from '../types';
+import { SupabaseStorage } from './SupabaseStorage';
+import { FileStorage } from './FileStorage';
+import { FileReportStore } from './FileReportStore';
+import { MemoryReportStore } from './MemoryReportStore';
+import { ObjectReportStore } from './ObjectReportStore';
+
+// Generated reports are kept for 3 hours
+export const REPORT_TTL_MS = 3 * 60 * 60 * 1000;
+
+export interface ProjectRow {
+  id: string;
+  name: string;
+  url: string;
+  created_at: string;
+  schedule: string | null;
+  scan_options: ProjectScanOptions;
+  last_scheduled_at: string | null;
+}
+
+export interface BrandingProfileRow {
+  id: string;
+  name: string;
+  settings: BrandingSettings;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewSession {
+  url: string;
+  brandColors: Partial<BrandColors>;
+  projectId?: string;
+}
+
+export interface SessionUpdate {
+  status?: ScanStatus;
+  scan_data?: ScanData;
+  crawl_state?: CrawlState | null;
+  control?: ScanSignal | null;
+}
+
+export interface SessionRepository {
+  // Sessions saved to a project never expire
+  create(session: NewSession): Promise<ScanSession>;
+  get(sessionId: string): Promise<ScanSession | null>;
+  update(sessionId: string, updates: SessionUpdate): Promise<void>;
+  // Applies the update only while the session is in one of the `from` states; false when it was not
+  transition(sessionId: string, from: ScanStatus[], updates: SessionUpdate): Promise<boolean>;
+  delete(sessionId: string): Promise<void>;
+  // Cheap read for the scraper, which asks between pages
+  getControl(sessionId: string): Promise<ScanSignal | null>;
+  // Newest first
+  listByProject(projectId: string, limit: number): Promise<ScanHistoryEntry[]>;
+  // The most recent completed scan of the same project created before this one
+  findPrevious(session: ScanSession): Promise<ScanSession | null>;
+  // Moves every pending or scanning session to failed; returns how many there were
+  failUnfinished(scanData: ScanData): Promise<number>;
+  // Returns the number of sessions removed
+  deleteExpired(): Promise<number>;
+}
+
+export interface ProjectRepository {
+  list(): Promise<ProjectRow[]>;
+  get(projectId: string): Promise<ProjectRow | null>;
+  create(name: string, url: string): Promise<ProjectRow>;
+  listScheduled(): Promise<ProjectRow[]>;
+  // null when the project does not exist
+  update(projectId: string, updates: Partial<Pick<ProjectRow, 'schedule' | 'scan_options' | 'last_scheduled_at'>>): Promise<ProjectRow | null>;
+  // Sets last_scheduled_at only if it still holds `previous`; false when another instance claimed the run first
+  claimScheduledRun(projectId: string, previous: string | null, at: string): Promise<boolean>;
+}
+
+export interface BrandingRepository {
+  list(): Promise<BrandingProfileRow[]>;
+  get(profileId: string): Promise<BrandingProfileRow | null>;
+  create(name: string, settings: BrandingSettings): Promise<BrandingProfileRow>;
+  // null when the profile does not exist
+  update(profileId: string, name: string, settings: BrandingSettings): Promise<BrandingProfileRow | null>;
+  // false when the profile did not exist
+  delete(profileId: string): Promise<boolean>;
+}
+
+export interface ReportRepository {
+  // Returns when the report expires
+  save(reportId: string, content: Buffer): Promise<Date>;
+  // null once the report has expired
+  get(reportId: string): Promise<Buffer | null>;
+  // null when there is no unexpired report under the id
+  expiresAt(reportId: string): Promise<Date | null>;
+}
+
+export interface Storage {
+  readonly driver: string;
+  sessions: SessionRepository;
+  projects: ProjectRepository;
+  branding: BrandingRepository;
+  reports: ReportRepository;
+}
+
+// STORAGE_DRIVER=file keeps everything in STORAGE_DIR so the app runs without a Supabase project;
+// memory keeps nothing once the process exits. Without the variable, Supabase is used whenever it is configured.
+export function createStorage(driver: string = process.env.STORAGE_DRIVER || (process.env.SUPABASE_URL ? 'supabase' : 'file')): Storage {
+  switch (driver) {
+    case 'supabase':
+      return new SupabaseStorage(createReportStore());
+    case 'file':
+      return new FileStorage(process.env.STORAGE_DIR || 'data', createReportStore());
+    case 'memory':
+      return new FileStorage(null, new MemoryReportStore());
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+// Generated reports go to disk (REPORT_STORAGE_DIR, by default STORAGE_DIR/reports) or, with
+// REPORT_STORAGE_DRIVER=s3, to an S3-compatible bucket so they outlive restarts and redeploys
+export function createReportStore(driver: string = process.env.REPORT_STORAGE_DRIVER || (process.env.REPORT_S3_BUCKET ? 's3' : 'file')): ReportRepository {
+  switch (driver) {
+    case 's3':
+      return ObjectReportStore.fromEnv();
+    case 'file':
+      return new FileReportStore(process.env.REPORT_STORAGE_DIR || path.join(process.env.STORAGE_DIR || 'data', 'reports'));
+    case 'memory':
+      return new MemoryReportStore();
+    default:
+      throw new Error(`Unknown report storage driver: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
@@ -0,0 +1,329 @@
+import { getSupabase } from '../utils/supabase';
+import { ScanData, ScanSession, ScanStatus, ScanSignal, ScanHistoryEntry, BrandingSettings } from '../types';
+import {
+  Storage, SessionRepository, ProjectRepository, BrandingRepository, ReportRepository, ProjectRow, BrandingProfileRow, NewSession,
+  SessionUpdate
+} from './Storage';
+
+class SupabaseSessions implements SessionRepository {
+  async create({ url, brandColors, projectId }: NewSession): Promise<ScanSession> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .insert({
+        url,
+        status: 'pending',
+        report_config: { brandColors },
+        ...(projectId ? { project_id: projectId, expires_at: null } : {})
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create scan session: ${error?.message || 'no data returned'}`);
+    }
+
+    return data as ScanSession;
+  }
+
+  async get(sessionId: string): Promise<ScanSession | null> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load scan: ${error.message}`);
+    }
+
+    return data as ScanSession | null;
+  }
+
+  async update(sessionId: string, updates: SessionUpdate): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scan_sessions')
+      .update(updates)
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to update scan session: ${error.message}`);
+    }
+  }
+
+  async transition(sessionId: string, from: ScanStatus[], updates: SessionUpdate): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .update(updates)
+      .eq('id', sessionId)
+      .in('status', from)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update scan status: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scan_sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to delete scan session: ${error.message}`);
+    }
+  }
+
+  async getControl(sessionId: string): Promise<ScanSignal | null> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .select('control')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read scan control: ${error.message}`);
+    }
+
+    return data?.control === 'pause' || data?.control === 'cancel' ? data.control : null;
+  }
+
+  // Only the summary fields are read so long histories stay cheap
+  async listByProject(projectId: string, limit: number): Promise<ScanHistoryEntry[]> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .select('id, status, created_at, completed_at:scan_data->>completedAt, pages_processed:scan_data->pagesProcessed, health_score:scan_data->health->score')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list scans: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      sessionId: row.id,
+      status: row.status,
+      createdAt: row.created_at,
+      completedAt: row.completed_at || undefined,
+      pagesProcessed: Number(row.pages_processed) || 0,
+      healthScore: row.health_score !== null && row.health_score !== undefined ? Number(row.health_score) : undefined
+    }));
+  }
+
+  async findPrevious(session: ScanSession): Promise<ScanSession | null> {
+    if (!session.project_id) return null;
+
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .select('*')
+      .eq('project_id', session.project_id)
+      .eq('status', 'completed')
+      .lt('created_at', session.created_at)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load previous scan: ${error.message}`);
+    }
+
+    return data as ScanSession | null;
+  }
+
+  async failUnfinished(scanData: ScanData): Promise<number> {
+    const { data, error } = await getSupabase()
+      .from('scan_sessions')
+      .update({ status: 'failed', scan_data: scanData })
+      .in('status', ['pending', 'scanning'])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to mark interrupted scans: ${error.message}`);
+    }
+
+    return (data || []).length;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const { data, error } = await getSupabase().rpc('cleanup_and_count');
+
+    if (error) {
+      throw new Error(`Cleanup failed: ${error.message}`);
+    }
+
+    // The function returns a one-row table
+    const row = Array.isArray(data) ? data[0] : data;
+    return Number(row?.deleted_count ?? row) || 0;
+  }
+}
+
+class SupabaseProjects implements ProjectRepository {
+  async list(): Promise<ProjectRow[]> {
+    const { data, error } = await getSupabase()
+      .from('projects')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to list projects: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async get(projectId: string): Promise<ProjectRow | null> {
+    const { data, error } = await getSupabase()
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load project: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async create(name: string, url: string): Promise<ProjectRow> {
+    const { data, error } = await getSupabase()
+      .from('projects')
+      .insert({ name, url })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create project: ${error?.message || 'no data returned'}`);
+    }
+
+    return data;
+  }
+
+  async listScheduled(): Promise<ProjectRow[]> {
+    const { data, error } = await getSupabase()
+      .from('projects')
+      .select('*')
+      .not('schedule', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to list scheduled projects: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async update(projectId: string, updates: Partial<Pick<ProjectRow, 'schedule' | 'scan_options' | 'last_scheduled_at'>>): Promise<ProjectRow | null> {
+    const { data, error } = await getSupabase()
+      .from('projects')
+      .update(updates)
+      .eq('id', projectId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update project: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async claimScheduledRun(projectId: string, previous: string | null, at: string): Promise<boolean> {
+    const query = getSupabase()
+      .from('projects')
+      .update({ last_scheduled_at: at })
+      .eq('id', projectId);
+    const { data, error } = await (previous === null ? query.is('last_scheduled_at', null) : query.eq('last_scheduled_at', previous))
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim scheduled run: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+class SupabaseBranding implements BrandingRepository {
+  async list(): Promise<BrandingProfileRow[]> {
+    const { data, error } = await getSupabase()
+      .from('branding_profiles')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to list branding profiles: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async get(profileId: string): Promise<BrandingProfileRow | null> {
+    const { data, error } = await getSupabase()
+      .from('branding_profiles')
+      .select('*')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load branding profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async create(name: string, settings: BrandingSettings): Promise<BrandingProfileRow> {
+    const { data, error } = await getSupabase()
+      .from('branding_profiles')
+      .insert({ name, settings })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create branding profile: ${error?.message || 'no data returned'}`);
+    }
+
+    return data;
+  }
+
+  async update(profileId: string, name: string, settings: BrandingSettings): Promise<BrandingProfileRow | null> {
+    const { data, error } = await getSupabase()
+      .from('branding_profiles')
+      .update({ name, settings, updated_at: new Date().toISOString() })
+      .eq('id', profileId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update branding profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async delete(profileId: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('branding_profiles')
+      .delete()
+      .eq('id', profileId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete branding profile: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+// Sessions, projects and branding profiles live in Postgres (see database/schema.sql); reports go to the given report store
+export class SupabaseStorage implements Storage {
+  readonly driver = 'supabase';
+  sessions = new SupabaseSessions();
+  projects = new SupabaseProjects();
+  branding = new SupabaseBranding();
+
+  constructor(public reports: ReportRepository) {}
+}
@@ -1,12 +1,218 @@
+export type PageSource = 'root' | 'sitemap' | 'link';
+
+export interface DiscoveryData {
+  robotsTxtFound: boolean;
+  userAgent: string;
+  sitemaps: string[];
+  sitemapUrlCount: number;
+  unlinkedSitemapUrls: string[];
+  disallowedUrls: string[];
+}
+
+export type QueryStringMode = 'keep' | 'strip' | 'skip';
+
+export type RenderMode = 'browser' | 'static' | 'auto';
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  queryStrings: QueryStringMode;
+  stripParams: string[];
+  concurrency: number;
+  crawlDelayMs: number;
+  renderMode: RenderMode;
+  checkExternalLinks: boolean;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface HttpInfo {
+  status: number;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+  responseTimeMs: number;
+  contentType: string;
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number | null;
+  reason: string;
+  external: boolean;
+  foundOn: string[];
+}
+
+// Open Graph and Twitter Card meta tags as declared on the page
+export interface SocialTags {
+  openGraph: {
+    title: string;
+    description: string;
+    image: string;
+    imageWidth: number | null;
+    imageHeight: number | null;
+    url: string;
+    type: string;
+  };
+  twitter: {
+    card: string;
+    title: string;
+    description: string;
+    image: string;
+    site: string;
+  };
+}
+
+export interface SocialIssue {
+  tag: string;
+  type: 'missing' | 'invalid' | 'mismatch' | 'imageSize';
+  message: string;
+}
+
+export interface SocialRecommendations {
+  ogTitle: string;
+  ogDescription: string;
+  ogImage: string;
+  ogUrl: string;
+  ogType: string;
+  twitterCard: string;
+  twitterTitle: string;
+  twitterDescription: string;
+  twitterImage: string;
+}
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+// A top-level schema.org entity; Microdata and RDFa are converted to the JSON-LD shape
+export interface StructuredDataNode {
+  format: StructuredDataFormat;
+  type: string;
+  data: Record<string, any>;
+}
+
+export interface StructuredDataIssue {
+  type: string;
+  format: StructuredDataFormat;
+  severity: 'error' | 'warning';
+  property?: string;
+  message: string;
+}
+
+// Raw data extracted from a page, either in the browser or from static HTML
+export interface ExtractedPage {
+  title: string;
+  metaDescription: string;
+  headings: {
+    h1: string[];
+    h2: string[];
+    h3: string[];
+  };
+  images: Array<{
+    src: string;
+    currentAlt: string;
+    fileName: string;
+    width: number | null;
+    height: number | null;
+    title: string;
+  }>;
+  wordCount: number;
+  hasContent: boolean;
+  internalLinks: string[];
+  externalLinks: string[];
+  canonical: string;
+  contentText: string;
+  mainText: string; // Text of the main content without navigation and page chrome, one block per line
+  siteName: string; // og:site_name or application-name
+  structuredDataCount: number;
+  structuredData: {
+    nodes: StructuredDataNode[];
+    parseErrors: string[];
+  };
+  social: SocialTags;
+}
+
+export interface RenderDifference {
+  element: 'title' | 'metaDescription' | 'canonical' | 'h1' | 'h2' | 'h3' | 'internalLinks' | 'structuredData';
+  change: 'added' | 'changed' | 'removed';
+  raw: string;
+  rendered: string;
+}
+
+export interface RenderingSummary {
+  pagesCompared: number;
+  pagesAffected: number;
+  elementCounts: Partial<Record<RenderDifference['element'], number>>;
+}
+
+export type CanonicalStatus = 'self' | 'mismatch' | 'missing';
+
+export interface DuplicateCluster {
+  type: 'title' | 'description' | 'content';
+  value: string;
+  urls: string[];
+}
+
+export type IssueSeverity = 'high' | 'medium' | 'low';
+
+export type RuleCategory = 'metadata' | 'content' | 'images' | 'technical' | 'links' | 'structuredData';
+
+export interface SeoIssue {
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+  category: RuleCategory;
+  message: string;
+  fix: string;
+}
+
+// Per-scan overrides, keyed by rule id
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: IssueSeverity;
+  thresholds?: Record<string, number>;
+}
+
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface RuleDefinition {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: IssueSeverity;
+  description: string;
+  thresholds: Record<string, number>;
+}
+
+export interface IssueSummary {
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+  category: RuleCategory;
+  description: string;
+  pageCount: number;
+  urls: string[];
+}
+
+export interface SiteHealth {
+  score: number;
+  categories: Record<RuleCategory, number>;
+}
+
 export interface ScanData {
   pages: Array<{
     url: string;
+    source: PageSource;
     title: string;
     metaDescription: string;
     recommendations: {
       title: string;
       metaDescription: string;
       priority: 'high' | 'medium' | 'low';
+      social: SocialRecommendations;
     };
     images: Array<{
       src: string;
@@ -20,6 +226,31 @@ export interface ScanData {
     };
     wordCount: number;
     hasContent: boolean;
+    internalLinks: string[];
+    depth: number;
+    renderedWith: 'static' | 'browser';
+    http: HttpInfo;
+    canonical: {
+      url: string;
+      status: CanonicalStatus;
+    };
+    contentHash: string;
+    structuredDataCount: number;
+    social: SocialTags & {
+      issues: SocialIssue[];
+    };
+    structuredData: {
+      items: Array<{
+        format: StructuredDataFormat;
+        type: string;
+        properties: string[];
+      }>;
+      issues: StructuredDataIssue[];
+      suggestedJsonLd?: string;
+    };
+    renderDiff?: RenderDifference[];
+    issues: SeoIssue[];
+    score: number;
   }>;
   totalPages: number;
   pagesProcessed: number;
@@ -27,8 +258,25 @@ export interface ScanData {
   errors: Array<{
     url: string;
     reason: string;
+    status?: number;
+    redirectChain?: RedirectHop[];
   }>;
+  discovery?: DiscoveryData;
+  crawlOptions?: CrawlOptions;
+  duplicates?: DuplicateCluster[];
+  rendering?: RenderingSummary;
+  linkCheck?: {
+    checked: number;
+    externalChecked: boolean;
+    broken: BrokenLink[];
+  };
+  ruleSettings?: RuleSettings;
+  issueSummary?: IssueSummary[];
+  health?: SiteHealth;
+  currentPage?: string; // Most recently started page while the scan runs
+  lastUpdate?: string;
   completedAt?: string;
+  error?: string; // Why a failed scan stopped
 }
 
 export interface StartScanRequest {
@@ -38,6 +286,9 @@ export interface StartScanRequest {
     secondary?: string;
     tertiary?: string;
   };
+  crawlOptions?: Partial<CrawlOptions>;
+  ruleSettings?: RuleSettings;
+  projectId?: string;
 }
 
 export interface StartScanResponse {
@@ -45,19 +296,75 @@ export interface StartScanResponse {
   message: string;
 }
 
+export type ScanStatus = 'pending' | 'scanning' | 'paused' | 'cancelled' | 'completed' | 'failed';
+
+// Requested by the API and picked up by the scraper between pages
+export type ScanSignal = 'pause' | 'cancel';
+
 export interface ScanStatusResponse {
-  status: 'pending' | 'scanning' | 'completed' | 'failed';
+  status: ScanStatus;
   pagesProcessed: number;
   totalPages: number;
   currentPage?: string;
   errors: number;
+  queuePosition?: number; // 1-based place in line while the scan is waiting for a worker
 }
 
 export interface ScanJob {
   sessionId: string;
   url: string;
+  crawlOptions?: CrawlOptions;
+  ruleSettings?: RuleSettings;
+  projectId?: string;
+  trigger?: 'manual' | 'schedule';
+  clientId?: string; // Who queued the scan; workers take turns between clients
+  resume?: boolean; // Continue from the session's saved crawl state
+}
+
+// What a paused scan needs to pick up where it stopped; the pages scanned so far stay in scan_data
+export interface CrawlState {
+  crawlOptions?: CrawlOptions;
+  ruleSettings?: RuleSettings;
+  // Who queued the scan, so resuming keeps its place in the client rotation and its schedule alerts
+  trigger?: ScanJob['trigger'];
+  clientId?: string;
+  pausedAt: string;
+  // Missing when the scan was paused before a worker picked it up
+  progress?: {
+    startUrl: string;
+    sitemapUrls: string[];
+    frontier: Array<{ url: string; depth: number; source: PageSource }>;
+    seenUrls: string[];
+    linkedUrls: string[];
+    linkSources: Record<string, string[]>;
+    pageContents?: Record<string, PageContent>;
+  };
 }
 
+// What metadata generation keeps of a scanned page's main content
+export interface PageContent {
+  title: string;
+  siteName: string;
+  terms: Record<string, number>; // Key phrase candidates of one to three words and how often they occur
+  wordCount: number;
+  sentences: string[]; // Candidates for a meta description, in page order
+  lead: string; // The start of the main text, for pages too thin to have full sentences
+}
+
+export interface ScanControlResponse {
+  status: ScanStatus;
+  message: string;
+}
+
+export type ScanEventPayload =
+  | { type: 'page-started'; url: string; depth: number }
+  | { type: 'page-completed'; url: string; score: number; issues: Array<Pick<SeoIssue, 'ruleId' | 'title' | 'severity'>> }
+  | { type: 'page-failed'; url: string; reason: string }
+  | { type: 'status'; status: ScanStatusResponse };
+
+// Streamed to the browser while a scan runs; ids only increase so a reconnecting client can catch up
+export type ScanEvent = ScanEventPayload & { id: number; timestamp: string };
+
 export interface QueueJob {
   id: string;
   data: ScanJob;
@@ -66,6 +373,49 @@ export interface QueueJob {
   attempts: number;
 }
 
+export type ReportFormat = 'docx' | 'pdf' | 'html' | 'json' | 'xlsx' | 'csv';
+
+// The spreadsheet exports have a sheet of pages and a sheet of images
+export type ReportSheet = 'pages' | 'images';
+
+// Report sections in their default order
+export type ReportSectionId =
+  | 'summary'
+  | 'changes'
+  | 'findings'
+  | 'pages'
+  | 'images'
+  | 'rendering'
+  | 'links'
+  | 'structuredData'
+  | 'recommendations';
+
+export interface BrandingContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+}
+
+// White-label settings an agency applies to the reports it hands to clients
+export interface BrandingSettings {
+  colors: BrandColors;
+  logo?: string; // data: URL of a PNG, JPEG or GIF
+  agencyName?: string;
+  clientName?: string;
+  contact?: BrandingContact;
+  introText?: string;
+  callToAction?: string;
+  sections?: ReportSectionId[]; // Which sections to include, in order; all when unset
+}
+
+export interface BrandingProfile extends BrandingSettings {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface BrandColors {
   primary?: string;
   secondary?: string;
@@ -80,6 +430,73 @@ export interface ScanSession {
   report_config: {
     brandColors?: BrandColors;
   };
+  project_id: string | null;
+  control?: ScanSignal | null;
+  crawl_state?: CrawlState | null;
   created_at: string;
-  expires_at: string;
+  expires_at: string | null;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: string;
+  schedule: string | null;
+  lastScheduledAt?: string;
+  nextRunAt?: string;
+}
+
+// Settings reused by every scheduled scan of a project
+export interface ProjectScanOptions {
+  crawlOptions?: CrawlOptions;
+  ruleSettings?: RuleSettings;
+}
+
+export interface RegressionAlert {
+  projectId: string;
+  projectName: string;
+  url: string;
+  sessionId: string;
+  previousSessionId: string;
+  reasons: string[];
+  healthBefore?: number;
+  healthAfter?: number;
+  newHighIssues: ComparedIssue[];
+  newIssueCount: number;
+  resolvedIssueCount: number;
+  detectedAt: string;
+}
+
+export interface ScanHistoryEntry {
+  sessionId: string;
+  status: string;
+  createdAt: string;
+  completedAt?: string;
+  pagesProcessed: number;
+  healthScore?: number;
+}
+
+export interface ComparedIssue {
+  url: string;
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+}
+
+export interface MetadataChange {
+  url: string;
+  field: 'title' | 'metaDescription';
+  before: string;
+  after: string;
+}
+
+export interface ScanComparison {
+  base: ScanHistoryEntry;
+  current: ScanHistoryEntry;
+  newIssues: ComparedIssue[];
+  resolvedIssues: ComparedIssue[];
+  pagesAdded: string[];
+  pagesRemoved: string[];
+  metadataChanges: MetadataChange[];
 }
\ No newline at end of file
@@ -1,4 +1,10 @@
 import validator from 'validator';
+import { CrawlOptions, RenderMode, RuleSettings, RuleSetting, IssueSeverity, BrandingSettings, BrandingContact, ReportSectionId } from '../types';
+import { UrlFilter } from '../scraper/UrlFilter';
+import { RuleEngine } from '../rules/RuleEngine';
+import { CronExpression } from '../schedule/CronExpression';
+import { ImageProbe } from '../scraper/ImageProbe';
+import { DEFAULT_REPORT_SECTIONS } from '../report/ReportModel';
 
 // Allowed domains for scanning (whitelist approach for security)
 const ALLOWED_SCAN_DOMAINS = [
@@ -33,6 +39,40 @@ const BLOCKED_DOMAINS = [
   '172.31.',
 ];
 
+// Crawl limits (kept conservative for free tier hosting)
+const MAX_PAGES_LIMIT = parseInt(process.env.SCAN_MAX_PAGES_LIMIT || '500');
+const MAX_DEPTH_LIMIT = 10;
+const MAX_CONCURRENCY_LIMIT = parseInt(process.env.SCAN_MAX_CONCURRENCY || '3');
+const MAX_CRAWL_DELAY_MS = 10000;
+const RENDER_MODES: RenderMode[] = ['browser', 'static', 'auto'];
+const MAX_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const SEVERITIES: IssueSeverity[] = ['high', 'medium', 'low'];
+const MAX_THRESHOLD = 100000;
+const MAX_PROJECT_NAME_LENGTH = 100;
+const MIN_SCHEDULE_INTERVAL_MINUTES = parseInt(process.env.SCHEDULE_MIN_INTERVAL_MINUTES || '60');
+// Logos travel inside the JSON body (1mb limit) as base64, which adds a third
+const MAX_LOGO_BYTES = 512 * 1024;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg|gif);base64,([A-Za-z0-9+/]+={0,2})$/;
+const MAX_BRANDING_NAME_LENGTH = 100;
+const MAX_BRANDING_FIELD_LENGTH = 200;
+const MAX_BRANDING_TEXT_LENGTH = 2000;
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxPages: 50,
+  maxDepth: 3,
+  includePatterns: [],
+  excludePatterns: [],
+  queryStrings: 'keep',
+  stripParams: [],
+  concurrency: Math.min(2, MAX_CONCURRENCY_LIMIT),
+  crawlDelayMs: 500,
+  renderMode: RENDER_MODES.includes(process.env.SCAN_RENDER_MODE as RenderMode)
+    ? process.env.SCAN_RENDER_MODE as RenderMode
+    : 'auto',
+  checkExternalLinks: false
+};
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -123,6 +163,173 @@ export class InputValidator {
     return { isValid: true, sanitized };
   }
 
+  static validateCrawlOptions(crawlOptions: any): ValidationResult {
+    if (!crawlOptions) {
+      return { isValid: true, sanitized: { ...DEFAULT_CRAWL_OPTIONS } };
+    }
+
+    if (typeof crawlOptions !== 'object' || Array.isArray(crawlOptions)) {
+      return { isValid: false, error: 'Crawl options must be an object' };
+    }
+
+    const sanitized: CrawlOptions = { ...DEFAULT_CRAWL_OPTIONS };
+
+    if (crawlOptions.maxPages !== undefined) {
+      const maxPages = Number(crawlOptions.maxPages);
+      if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_PAGES_LIMIT) {
+        return { isValid: false, error: `maxPages must be an integer between 1 and ${MAX_PAGES_LIMIT}` };
+      }
+      sanitized.maxPages = maxPages;
+    }
+
+    if (crawlOptions.maxDepth !== undefined) {
+      const maxDepth = Number(crawlOptions.maxDepth);
+      if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_DEPTH_LIMIT) {
+        return { isValid: false, error: `maxDepth must be an integer between 0 and ${MAX_DEPTH_LIMIT}` };
+      }
+      sanitized.maxDepth = maxDepth;
+    }
+
+    if (crawlOptions.concurrency !== undefined) {
+      const concurrency = Number(crawlOptions.concurrency);
+      if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY_LIMIT) {
+        return { isValid: false, error: `concurrency must be an integer between 1 and ${MAX_CONCURRENCY_LIMIT}` };
+      }
+      sanitized.concurrency = concurrency;
+    }
+
+    if (crawlOptions.crawlDelayMs !== undefined) {
+      const crawlDelayMs = Number(crawlOptions.crawlDelayMs);
+      if (!Number.isInteger(crawlDelayMs) || crawlDelayMs < 0 || crawlDelayMs > MAX_CRAWL_DELAY_MS) {
+        return { isValid: false, error: `crawlDelayMs must be an integer between 0 and ${MAX_CRAWL_DELAY_MS}` };
+      }
+      sanitized.crawlDelayMs = crawlDelayMs;
+    }
+
+    for (const key of ['includePatterns', 'excludePatterns'] as const) {
+      const patterns = crawlOptions[key];
+      if (patterns === undefined) continue;
+
+      if (!Array.isArray(patterns) || patterns.length > MAX_PATTERNS) {
+        return { isValid: false, error: `${key} must be an array of at most ${MAX_PATTERNS} patterns` };
+      }
+
+      const cleaned: string[] = [];
+      for (const pattern of patterns) {
+        if (typeof pattern !== 'string' || pattern.trim().length > MAX_PATTERN_LENGTH) {
+          return { isValid: false, error: `${key} entries must be strings of at most ${MAX_PATTERN_LENGTH} characters` };
+        }
+        if (!pattern.trim()) continue;
+
+        try {
+          UrlFilter.compile(pattern.trim());
+        } catch (error) {
+          return { isValid: false, error: `Invalid pattern in ${key}: ${pattern} (use * and ** globs, or re: followed by a regular expression)` };
+        }
+        cleaned.push(pattern.trim());
+      }
+      sanitized[key] = cleaned;
+    }
+
+    if (crawlOptions.queryStrings !== undefined) {
+      if (!['keep', 'strip', 'skip'].includes(crawlOptions.queryStrings)) {
+        return { isValid: false, error: 'queryStrings must be one of: keep, strip, skip' };
+      }
+      sanitized.queryStrings = crawlOptions.queryStrings;
+    }
+
+    if (crawlOptions.renderMode !== undefined) {
+      if (!RENDER_MODES.includes(crawlOptions.renderMode)) {
+        return { isValid: false, error: `renderMode must be one of: ${RENDER_MODES.join(', ')}` };
+      }
+      sanitized.renderMode = crawlOptions.renderMode;
+    }
+
+    if (crawlOptions.checkExternalLinks !== undefined) {
+      if (typeof crawlOptions.checkExternalLinks !== 'boolean') {
+        return { isValid: false, error: 'checkExternalLinks must be a boolean' };
+      }
+      sanitized.checkExternalLinks = crawlOptions.checkExternalLinks;
+    }
+
+    if (crawlOptions.stripParams !== undefined) {
+      if (!Array.isArray(crawlOptions.stripParams) || crawlOptions.stripParams.length > MAX_PATTERNS) {
+        return { isValid: false, error: `stripParams must be an array of at most ${MAX_PATTERNS} parameter names` };
+      }
+      sanitized.stripParams = crawlOptions.stripParams
+        .filter((param: any) => typeof param === 'string' && /^[\w.\-\[\]]{1,100}$/.test(param.trim()))
+        .map((param: string) => param.trim());
+    }
+
+    return { isValid: true, sanitized };
+  }
+
+  static validateRuleSettings(ruleSettings: any): ValidationResult {
+    if (!ruleSettings) {
+      return { isValid: true, sanitized: {} };
+    }
+
+    if (typeof ruleSettings !== 'object' || Array.isArray(ruleSettings)) {
+      return { isValid: false, error: 'Rule settings must be an object keyed by rule id' };
+    }
+
+    const rules = new Map(new RuleEngine().listRules().map(rule => [rule.id, rule]));
+    const sanitized: RuleSettings = {};
+
+    for (const [ruleId, setting] of Object.entries<any>(ruleSettings)) {
+      const rule = rules.get(ruleId);
+      if (!rule) {
+        return { isValid: false, error: `Unknown rule: ${ruleId}` };
+      }
+      if (!setting || typeof setting !== 'object' || Array.isArray(setting)) {
+        return { isValid: false, error: `Settings for ${ruleId} must be an object` };
+      }
+
+      const cleaned: RuleSetting = {};
+
+      if (setting.enabled !== undefined) {
+        if (typeof setting.enabled !== 'boolean') {
+          return { isValid: false, error: `${ruleId}.enabled must be a boolean` };
+        }
+        cleaned.enabled = setting.enabled;
+      }
+
+      if (setting.severity !== undefined) {
+        if (!SEVERITIES.includes(setting.severity)) {
+          return { isValid: false, error: `${ruleId}.severity must be one of: ${SEVERITIES.join(', ')}` };
+        }
+        cleaned.severity = setting.severity;
+      }
+
+      if (setting.thresholds !== undefined) {
+        if (!setting.thresholds || typeof setting.thresholds !== 'object' || Array.isArray(setting.thresholds)) {
+          return { isValid: false, error: `${ruleId}.thresholds must be an object` };
+        }
+
+        cleaned.thresholds = {};
+        for (const [key, value] of Object.entries<any>(setting.thresholds)) {
+          if (!(key in rule.thresholds)) {
+            return { isValid: false, error: `Rule ${ruleId} has no threshold named ${key}` };
+          }
+          const threshold = Number(value);
+          if (!Number.isFinite(threshold) || threshold < 0 || threshold > MAX_THRESHOLD) {
+            return { isValid: false, error: `${ruleId}.thresholds.${key} must be a number between 0 and ${MAX_THRESHOLD}` };
+          }
+          cleaned.thresholds[key] = threshold;
+        }
+
+        const merged = { ...rule.thresholds, ...cleaned.thresholds };
+        if ('min' in merged && 'max' in merged && merged.min > merged.max) {
+          return { isValid: false, error: `${ruleId}.thresholds.min must not exceed max` };
+        }
+      }
+
+      sanitized[ruleId] = cleaned;
+    }
+
+    return { isValid: true, sanitized };
+  }
+
   static validateSessionId(sessionId: string): ValidationResult {
     if (!sessionId || typeof sessionId !== 'string') {
       return { isValid: false, error: 'Session ID is required' };
@@ -136,6 +343,201 @@ export class InputValidator {
     return { isValid: true, sanitized: sessionId };
   }
 
+  static validateProjectId(projectId: any): ValidationResult {
+    if (!projectId || typeof projectId !== 'string' || !validator.isUUID(projectId)) {
+      return { isValid: false, error: 'Invalid project ID format' };
+    }
+
+    return { isValid: true, sanitized: projectId };
+  }
+
+  static validateProjectName(name: any): ValidationResult {
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return { isValid: false, error: 'Project name is required' };
+    }
+
+    if (name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+      return { isValid: false, error: `Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters` };
+    }
+
+    // React and docx escape text themselves, so only control characters are removed
+    return { isValid: true, sanitized: validator.stripLow(name.trim()) };
+  }
+
+  // null clears the schedule
+  static validateSchedule(schedule: any): ValidationResult {
+    if (schedule === null || schedule === '') {
+      return { isValid: true, sanitized: null };
+    }
+
+    if (typeof schedule !== 'string' || schedule.length > 100) {
+      return { isValid: false, error: 'Schedule must be a cron expression such as "0 6 * * 1"' };
+    }
+
+    // Parsing is not enough: an expression such as "0 0 31 2 *" parses but never fires, and only
+    // looking for its next runs finds that out
+    const runs: Date[] = [];
+    try {
+      const cron = CronExpression.parse(schedule);
+      runs.push(cron.next(new Date()));
+      for (let i = 0; i < 24; i++) {
+        runs.push(cron.next(runs[runs.length - 1]));
+      }
+    } catch (error) {
+      return { isValid: false, error: `Invalid schedule: ${error instanceof Error ? error.message : 'parse error'}` };
+    }
+
+    // Check the gaps between the next few runs so frequent schedules cannot flood the queue
+    for (let i = 1; i < runs.length; i++) {
+      if (runs[i].getTime() - runs[i - 1].getTime() < MIN_SCHEDULE_INTERVAL_MINUTES * 60 * 1000) {
+        return { isValid: false, error: `Scheduled scans must be at least ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes apart` };
+      }
+    }
+
+    return { isValid: true, sanitized: schedule.trim().replace(/\s+/g, ' ') };
+  }
+
+  static validateBrandingProfileId(profileId: any): ValidationResult {
+    if (!profileId || typeof profileId !== 'string' || !validator.isUUID(profileId)) {
+      return { isValid: false, error: 'Invalid branding profile ID format' };
+    }
+
+    return { isValid: true, sanitized: profileId };
+  }
+
+  // Returns { name, settings }; empty optional fields are dropped
+  static validateBrandingProfile(profile: any): ValidationResult {
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      return { isValid: false, error: 'Branding profile must be an object' };
+    }
+
+    const { name } = profile;
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return { isValid: false, error: 'Profile name is required' };
+    }
+    if (name.trim().length > MAX_BRANDING_NAME_LENGTH) {
+      return { isValid: false, error: `Profile name must be at most ${MAX_BRANDING_NAME_LENGTH} characters` };
+    }
+
+    const colorsValidation = this.validateBrandColors(profile.colors);
+    if (!colorsValidation.isValid) {
+      return colorsValidation;
+    }
+
+    const settings: BrandingSettings = { colors: colorsValidation.sanitized };
+
+    if (profile.logo !== undefined && profile.logo !== null && profile.logo !== '') {
+      const logoValidation = this.validateLogo(profile.logo);
+      if (!logoValidation.isValid) {
+        return logoValidation;
+      }
+      settings.logo = logoValidation.sanitized;
+    }
+
+    const texts: Array<['agencyName' | 'clientName' | 'introText' | 'callToAction', string, number]> = [
+      ['agencyName', 'Agency name', MAX_BRANDING_FIELD_LENGTH],
+      ['clientName', 'Client name', MAX_BRANDING_FIELD_LENGTH],
+      ['introText', 'Intro text', MAX_BRANDING_TEXT_LENGTH],
+      ['callToAction', 'Call to action', MAX_BRANDING_TEXT_LENGTH]
+    ];
+    for (const [field, label, maxLength] of texts) {
+      const textValidation = this.validateBrandingText(profile[field], label, maxLength);
+      if (!textValidation.isValid) {
+        return textValidation;
+      }
+      if (textValidation.sanitized) {
+        settings[field] = textValidation.sanitized;
+      }
+    }
+
+    if (profile.contact !== undefined && profile.contact !== null) {
+      const contactValidation = this.validateBrandingContact(profile.contact);
+      if (!contactValidation.isValid) {
+        return contactValidation;
+      }
+      if (Object.keys(contactValidation.sanitized).length > 0) {
+        settings.contact = contactValidation.sanitized;
+      }
+    }
+
+    if (profile.sections !== undefined && profile.sections !== null) {
+      if (!Array.isArray(profile.sections) || profile.sections.length === 0 ||
+          profile.sections.some((section: any) => !DEFAULT_REPORT_SECTIONS.includes(section))) {
+        return { isValid: false, error: `sections must be a non-empty list of: ${DEFAULT_REPORT_SECTIONS.join(', ')}` };
+      }
+      if (new Set(profile.sections).size !== profile.sections.length) {
+        return { isValid: false, error: 'sections must not repeat a section' };
+      }
+      settings.sections = profile.sections as ReportSectionId[];
+    }
+
+    return { isValid: true, sanitized: { name: validator.stripLow(name.trim()), settings } };
+  }
+
+  // The bytes must be the image the data URL claims, since the Word renderer embeds them as-is
+  private static validateLogo(logo: any): ValidationResult {
+    const match = typeof logo === 'string' ? LOGO_DATA_URL.exec(logo) : null;
+    if (!match) {
+      return { isValid: false, error: 'Logo must be a base64 data URL of a PNG, JPEG or GIF image' };
+    }
+
+    const data = Buffer.from(match[2], 'base64');
+    if (data.length > MAX_LOGO_BYTES) {
+      return { isValid: false, error: `Logo must be at most ${MAX_LOGO_BYTES / 1024} KB` };
+    }
+
+    const isType = data.length >= 24 && (match[1] === 'png' ? data.readUInt32BE(0) === 0x89504e47
+      : match[1] === 'gif' ? data.toString('ascii', 0, 3) === 'GIF'
+      : data[0] === 0xff && data[1] === 0xd8);
+    if (!isType || !ImageProbe.parse(data)) {
+      return { isValid: false, error: 'Logo is not a readable image' };
+    }
+
+    return { isValid: true, sanitized: logo };
+  }
+
+  private static validateBrandingContact(contact: any): ValidationResult {
+    if (typeof contact !== 'object' || Array.isArray(contact)) {
+      return { isValid: false, error: 'Contact must be an object' };
+    }
+
+    const sanitized: BrandingContact = {};
+    for (const field of ['name', 'email', 'phone', 'website'] as Array<keyof BrandingContact>) {
+      const textValidation = this.validateBrandingText(contact[field], `Contact ${field}`, MAX_BRANDING_FIELD_LENGTH);
+      if (!textValidation.isValid) {
+        return textValidation;
+      }
+      if (textValidation.sanitized) {
+        sanitized[field] = textValidation.sanitized;
+      }
+    }
+
+    if (sanitized.email && !validator.isEmail(sanitized.email)) {
+      return { isValid: false, error: 'Contact email is not a valid email address' };
+    }
+    // Rendered as a link, so only web URLs are accepted
+    if (sanitized.website && !validator.isURL(sanitized.website, { protocols: ['http', 'https'], require_protocol: true })) {
+      return { isValid: false, error: 'Contact website must be an http or https URL' };
+    }
+
+    return { isValid: true, sanitized };
+  }
+
+  // Renderers escape text themselves, so only control characters other than line breaks are removed
+  private static validateBrandingText(text: any, label: string, maxLength: number): ValidationResult {
+    if (text === undefined || text === null) {
+      return { isValid: true, sanitized: '' };
+    }
+    if (typeof text !== 'string') {
+      return { isValid: false, error: `${label} must be a string` };
+    }
+    if (text.trim().length > maxLength) {
+      return { isValid: false, error: `${label} must be at most ${maxLength} characters` };
+    }
+
+    return { isValid: true, sanitized: validator.stripLow(text.trim().replace(/\r\n?/g, '\n'), true) };
+  }
+
   static sanitizeString(input: string, maxLength: number = 1000): string {
     if (!input || typeof input !== 'string') return '';
     
@@ -1,17 +1,61 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Named sites whose scan history is kept
+-- schedule is a cron expression (UTC); scan_options holds the crawl and rule settings for scheduled scans
+CREATE TABLE projects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    schedule VARCHAR(100),
+    scan_options JSONB DEFAULT '{}',
+    last_scheduled_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Reusable white-label report settings (logo, agency and client names, contact, texts, sections)
+CREATE TABLE branding_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    settings JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Main table using JSONB for flexibility
+-- Sessions that belong to a project have no expiry so they stay in its history
 CREATE TABLE scan_sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     url VARCHAR(2048) NOT NULL,
     status VARCHAR(20) DEFAULT 'pending',
     scan_data JSONB DEFAULT '{}',
     report_config JSONB DEFAULT '{}',
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    control VARCHAR(20), -- 'pause' or 'cancel' while a request waits for the scraper
+    crawl_state JSONB, -- frontier of a paused scan
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     expires_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP + INTERVAL '3 hours'
 );
 
+-- Durable scan queue (QUEUE_DRIVER=postgres)
+-- Workers hold a lease on the jobs they process and extend it with a heartbeat
+CREATE TABLE scan_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES scan_sessions(id) ON DELETE CASCADE,
+    client_id VARCHAR(255) NOT NULL DEFAULT 'anonymous',
+    data JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+    locked_by VARCHAR(255),
+    lease_expires_at TIMESTAMPTZ,
+    claimed_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
 -- Email collection (optional feature)
 CREATE TABLE email_list (
     email VARCHAR(255) PRIMARY KEY,
@@ -23,6 +67,11 @@ CREATE TABLE email_list (
 CREATE INDEX idx_sessions_status ON scan_sessions(status);
 CREATE INDEX idx_sessions_expires ON scan_sessions(expires_at);
 CREATE INDEX idx_sessions_created ON scan_sessions(created_at);
+CREATE INDEX idx_sessions_project ON scan_sessions(project_id, created_at);
+CREATE INDEX idx_jobs_claim ON scan_jobs(status, run_after, created_at);
+CREATE INDEX idx_jobs_lease ON scan_jobs(lease_expires_at) WHERE status = 'processing';
+CREATE INDEX idx_jobs_client ON scan_jobs(client_id, claimed_at);
+CREATE INDEX idx_jobs_session ON scan_jobs(session_id);
 
 -- Auto-cleanup function to remove expired sessions
 CREATE OR REPLACE FUNCTION cleanup_expired_sessions() 
@@ -33,13 +82,28 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Enable Row Level Security (RLS)
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE branding_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE scan_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_list ENABLE ROW LEVEL SECURITY;
 
+-- Policies for projects (allow all operations for now, can be restricted later)
+CREATE POLICY "Allow all operations on projects" ON projects
+    FOR ALL USING (true);
+
+-- Policies for branding_profiles (allow all operations for now, can be restricted later)
+CREATE POLICY "Allow all operations on branding_profiles" ON branding_profiles
+    FOR ALL USING (true);
+
 -- Policies for scan_sessions (allow all operations for now, can be restricted later)
 CREATE POLICY "Allow all operations on scan_sessions" ON scan_sessions
     FOR ALL USING (true);
 
+-- Policies for scan_jobs (allow all operations for now, can be restricted later)
+CREATE POLICY "Allow all operations on scan_jobs" ON scan_jobs
+    FOR ALL USING (true);
+
 -- Policies for email_list (allow all operations for now, can be restricted later)
 CREATE POLICY "Allow all operations on email_list" ON email_list
     FOR ALL USING (true);
@@ -61,9 +125,104 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Claim the next runnable job; SKIP LOCKED lets several workers claim concurrently without blocking.
+-- Clients take turns: the one whose last job was claimed longest ago (or never) goes first, oldest job first.
+CREATE OR REPLACE FUNCTION public.claim_scan_job(p_worker TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF scan_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE scan_jobs
+    SET status = 'processing',
+        locked_by = p_worker,
+        attempts = attempts + 1,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        claimed_at = now(),
+        updated_at = now()
+    WHERE id = (
+        SELECT j.id FROM scan_jobs j
+        WHERE j.status = 'pending' AND j.run_after <= now()
+        ORDER BY (SELECT max(c.claimed_at) FROM scan_jobs c WHERE c.client_id = j.client_id) NULLS FIRST,
+                 j.created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Position of a session's waiting job in the order claim_scan_job would hand jobs out (NULL when not waiting)
+CREATE OR REPLACE FUNCTION public.scan_job_position(p_session UUID)
+RETURNS integer AS $$
+    WITH pending AS (
+        SELECT session_id, client_id, created_at,
+               row_number() OVER (PARTITION BY client_id ORDER BY created_at) AS turn
+        FROM scan_jobs
+        WHERE status = 'pending'
+    ), clients AS (
+        SELECT p.client_id,
+               (SELECT max(c.claimed_at) FROM scan_jobs c WHERE c.client_id = p.client_id) AS last_claimed,
+               min(p.created_at) AS oldest
+        FROM pending p
+        GROUP BY p.client_id
+    ), ordered AS (
+        SELECT p.session_id,
+               row_number() OVER (ORDER BY p.turn, c.last_claimed NULLS FIRST, c.oldest) AS position
+        FROM pending p
+        JOIN clients c ON c.client_id = p.client_id
+    )
+    SELECT position::integer FROM ordered WHERE session_id = p_session;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Extend a lease; returns false when the worker no longer holds the job
+CREATE OR REPLACE FUNCTION public.heartbeat_scan_job(p_job UUID, p_worker TEXT, p_lease_seconds INTEGER)
+RETURNS boolean AS $$
+BEGIN
+    UPDATE scan_jobs
+    SET lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        updated_at = now()
+    WHERE id = p_job AND locked_by = p_worker AND status = 'processing';
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Requeue jobs whose worker died (expired lease), or fail them once they are out of attempts,
+-- and move their sessions out of 'scanning' to match
+CREATE OR REPLACE FUNCTION public.recover_scan_jobs()
+RETURNS TABLE(requeued bigint, failed bigint) AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        UPDATE scan_jobs
+        SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+            locked_by = NULL,
+            lease_expires_at = NULL,
+            last_error = 'Worker lease expired',
+            updated_at = now()
+        WHERE status = 'processing' AND lease_expires_at < now()
+        RETURNING session_id, status
+    ), sessions AS (
+        UPDATE scan_sessions s
+        SET status = e.status
+        FROM expired e
+        WHERE s.id = e.session_id
+        RETURNING e.status
+    )
+    SELECT count(*) FILTER (WHERE sessions.status = 'pending'),
+           count(*) FILTER (WHERE sessions.status = 'failed')
+    FROM sessions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Grant necessary permissions
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
+GRANT ALL ON projects TO anon, authenticated;
+GRANT ALL ON branding_profiles TO anon, authenticated;
 GRANT ALL ON scan_sessions TO anon, authenticated;
+GRANT ALL ON scan_jobs TO anon, authenticated;
 GRANT ALL ON email_list TO anon, authenticated;
 GRANT EXECUTE ON FUNCTION cleanup_expired_sessions() TO anon, authenticated;
-GRANT EXECUTE ON FUNCTION cleanup_and_count() TO anon, authenticated;
\ No newline at end of file
+GRANT EXECUTE ON FUNCTION cleanup_and_count() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_scan_job(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION heartbeat_scan_job(UUID, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION scan_job_position(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION recover_scan_jobs() TO anon, authenticated;
\ No newline at end of file
@@ -2,6 +2,11 @@
 NODE_ENV=development
 PORT=3000
 
+# Storage (STORAGE_DRIVER: supabase, or file to keep everything as JSON files in STORAGE_DIR and run offline;
+# defaults to supabase when SUPABASE_URL is set)
+STORAGE_DRIVER=supabase
+STORAGE_DIR=./data
+
 # Database (Supabase)
 SUPABASE_URL=https://your-project.supabase.co
 SUPABASE_ANON_KEY=your-supabase-anon-key-here
@@ -18,4 +23,33 @@ CORS_ORIGIN=http://localhost:3001
 
 # Rate Limiting
 RATE_LIMIT_WINDOW_MS=60000
-RATE_LIMIT_MAX_REQUESTS=20
\ No newline at end of file
+RATE_LIMIT_MAX_REQUESTS=20
+
+# Job queue (QUEUE_DRIVER: memory for a single process, postgres to survive restarts and share work between instances)
+QUEUE_DRIVER=memory
+QUEUE_CONCURRENCY=2
+QUEUE_MAX_LENGTH=100
+# How often a running scan checks for pause/cancel requests
+SCAN_CONTROL_POLL_MS=2000
+# How often the progress stream re-reads a scan's status from the database
+SCAN_EVENTS_POLL_MS=3000
+QUEUE_LEASE_SECONDS=120
+QUEUE_POLL_INTERVAL_MS=5000
+
+# Scheduled scans
+SCHEDULER_ENABLED=true
+SCHEDULER_INTERVAL_MS=60000
+SCHEDULE_MIN_INTERVAL_MINUTES=60
+
+# Regression alerts (ALERT_NOTIFIERS: comma separated list of log, webhook, email)
+ALERT_NOTIFIERS=log
+ALERT_HEALTH_DROP=1
+ALERT_WEBHOOK_URL=
+ALERT_WEBHOOK_SECRET=
+SMTP_HOST=
+SMTP_PORT=587
+SMTP_SECURE=false
+SMTP_USER=
+SMTP_PASS=
+ALERT_EMAIL_FROM=
+ALERT_EMAIL_TO=
@@ -1,40 +1,60 @@
 import React, { useState, useEffect } from 'react';
-import ScanForm from './components/ScanForm';
+import ScanForm, { ProjectSelection } from './components/ScanForm';
 import ScanProgress from './components/ScanProgress';
 import ScanResults from './components/ScanResults';
 import { seoApi } from './utils/api';
-import { ScanStatusResponse, ScanData, BrandColors } from './types';
+import { ScanStatusResponse, ScanControlResponse, ScanPageEvent, ScanData, BrandColors, ReportOptions, CrawlOptions, RuleSettings } from './types';
 
 type AppState = 'form' | 'scanning' | 'results' | 'error';
 
+const MAX_LOG_ENTRIES = 100;
+
 function App() {
   const [appState, setAppState] = useState<AppState>('form');
   const [sessionId, setSessionId] = useState<string>('');
+  const [projectId, setProjectId] = useState<string>('');
   const [scanStatus, setScanStatus] = useState<ScanStatusResponse | null>(null);
   const [scanData, setScanData] = useState<ScanData | null>(null);
   const [url, setUrl] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  // Shown only while the scan is still in the status the request left it in
+  const [controlNotice, setControlNotice] = useState<ScanControlResponse | null>(null);
+  const [isControlling, setIsControlling] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [scanLog, setScanLog] = useState<ScanPageEvent[]>([]);
 
-  // Poll for scan status updates
+  // Live progress over Server-Sent Events
+  useEffect(() => {
+    if (appState !== 'scanning' || !sessionId) return;
+
+    const unsubscribe = seoApi.subscribeToScan(
+      sessionId,
+      (event) => {
+        setIsStreaming(true);
+        if (event.type === 'status') {
+          setScanStatus(event.status);
+        } else {
+          setScanLog(log => [...log.slice(-(MAX_LOG_ENTRIES - 1)), event]);
+        }
+      },
+      () => setIsStreaming(false)
+    );
+
+    return () => {
+      unsubscribe();
+      setIsStreaming(false);
+    };
+  }, [appState, sessionId]);
+
+  // Poll for scan status updates while the event stream is unavailable
   useEffect(() => {
     let pollInterval: NodeJS.Timeout;
 
-    if (appState === 'scanning' && sessionId) {
+    if (appState === 'scanning' && sessionId && !isStreaming) {
       pollInterval = setInterval(async () => {
         try {
-          const status = await seoApi.getScanStatus(sessionId);
-          setScanStatus(status);
-
-          if (status.status === 'completed') {
-            // Fetch full results
-            const results = await seoApi.getScanResults(sessionId);
-            setScanData(results.scanData);
-            setAppState('results');
-          } else if (status.status === 'failed') {
-            setError('Scan failed. Please check the URL and try again.');
-            setAppState('error');
-          }
+          setScanStatus(await seoApi.getScanStatus(sessionId));
         } catch (error) {
           console.error('Error polling scan status:', error);
           setError('Failed to get scan status. Please try again.');
@@ -48,16 +68,53 @@ function App() {
         clearInterval(pollInterval);
       }
     };
-  }, [appState, sessionId]);
+  }, [appState, sessionId, isStreaming]);
+
+  // Leave the progress screen once the scan is over, whichever way the status arrived
+  const finalStatus = appState === 'scanning' ? scanStatus?.status : undefined;
+  useEffect(() => {
+    if (finalStatus === 'completed') {
+      seoApi.getScanResults(sessionId)
+        .then(results => {
+          setScanData(results.scanData);
+          setProjectId(results.projectId || '');
+          setAppState('results');
+        })
+        .catch(error => {
+          console.error('Error fetching scan results:', error);
+          setError('Failed to load scan results. Please try again.');
+          setAppState('error');
+        });
+    } else if (finalStatus === 'failed') {
+      setError('Scan failed. Please check the URL and try again.');
+      setAppState('error');
+    } else if (finalStatus === 'cancelled') {
+      handleStartNewScan();
+    }
+  }, [finalStatus, sessionId]);
 
-  const handleStartScan = async (inputUrl: string, brandColors?: BrandColors) => {
+  const handleStartScan = async (
+    inputUrl: string,
+    brandColors?: BrandColors,
+    crawlOptions?: Partial<CrawlOptions>,
+    ruleSettings?: RuleSettings,
+    project?: ProjectSelection
+  ) => {
     try {
       setError('');
       setUrl(inputUrl);
       
+      let scanProjectId = project?.projectId;
+      if (project?.newProjectName) {
+        scanProjectId = (await seoApi.createProject(project.newProjectName, inputUrl)).id;
+      }
+      
       const response = await seoApi.startScan({
         url: inputUrl,
-        brandColors
+        brandColors,
+        crawlOptions,
+        ruleSettings,
+        projectId: scanProjectId
       });
       
       setSessionId(response.sessionId);
@@ -69,14 +126,38 @@ function App() {
     }
   };
 
-  const handleGenerateReport = async (brandColors?: BrandColors) => {
+  const handleScanControl = async (action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      setIsControlling(true);
+      const response = await seoApi.controlScan(sessionId, action);
+      
+      if (response.status === 'cancelled') {
+        handleStartNewScan();
+        return;
+      }
+      setControlNotice(response);
+      setScanStatus(current => current && { ...current, status: response.status });
+    } catch (error: any) {
+      console.error(`Error trying to ${action} scan:`, error);
+      if (scanStatus) {
+        setControlNotice({
+          status: scanStatus.status,
+          message: error.response?.data?.error || `Failed to ${action} the scan. Please try again.`
+        });
+      }
+    } finally {
+      setIsControlling(false);
+    }
+  };
+
+  const handleGenerateReport = async (brandColors?: BrandColors, options?: ReportOptions) => {
     try {
       setIsGeneratingReport(true);
       
-      const reportResponse = await seoApi.generateReport(sessionId, brandColors);
+      const reportResponse = await seoApi.generateReport(sessionId, brandColors, options);
       
       // Download the report
-      await seoApi.downloadReport(reportResponse.reportId);
+      await seoApi.downloadReport(reportResponse.downloadUrl, reportResponse.fileName);
       
     } catch (error: any) {
       console.error('Error generating report:', error);
@@ -89,11 +170,14 @@ function App() {
   const handleStartNewScan = () => {
     setAppState('form');
     setSessionId('');
+    setProjectId('');
     setScanStatus(null);
     setScanData(null);
     setUrl('');
     setError('');
     setIsGeneratingReport(false);
+    setControlNotice(null);
+    setScanLog([]);
   };
 
   return (
@@ -134,6 +218,10 @@ function App() {
           <ScanProgress 
             status={scanStatus} 
             url={url}
+            onControl={handleScanControl}
+            isControlling={isControlling}
+            controlMessage={controlNotice?.status === scanStatus.status ? controlNotice.message : ''}
+            log={scanLog}
           />
         )}
 
@@ -141,6 +229,8 @@ function App() {
           <ScanResults
             scanData={scanData}
             url={url}
+            sessionId={sessionId}
+            projectId={projectId || undefined}
             onGenerateReport={handleGenerateReport}
             isGeneratingReport={isGeneratingReport}
             onStartNewScan={handleStartNewScan}
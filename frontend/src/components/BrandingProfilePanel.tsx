@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from 'react';
+import { BrandingProfile, BrandingSettings, ReportSectionId } from '../types';
+import { seoApi } from '../utils/api';
+
+interface BrandingProfilePanelProps {
+  value: string;
+  onChange: (profileId: string) => void;
+}
+
+const sectionLabels: Record<ReportSectionId, string> = {
+  summary: 'Executive Summary',
+  changes: 'Changes Since Last Scan',
+  findings: 'Issues by Rule',
+  pages: 'Page Recommendations',
+  images: 'Image Alt Text',
+  rendering: 'JavaScript Rendering',
+  links: 'Links & Redirects',
+  structuredData: 'Structured Data',
+  recommendations: 'General Recommendations'
+};
+
+const allSections = Object.keys(sectionLabels) as ReportSectionId[];
+
+// The server rejects larger logos; checking here saves the upload
+const MAX_LOGO_BYTES = 512 * 1024;
+
+interface ProfileForm extends BrandingSettings {
+  name: string;
+}
+
+const emptyForm: ProfileForm = {
+  name: '',
+  colors: { primary: '#2563eb', secondary: '#7c3aed', tertiary: '#059669' },
+  contact: {},
+  sections: allSections
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+  boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '0.25rem',
+  fontSize: '0.875rem',
+  fontWeight: 'bold',
+  color: '#374151'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '0.375rem 0.75rem',
+  backgroundColor: 'white',
+  color: '#374151',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+  cursor: 'pointer'
+};
+
+const BrandingProfilePanel: React.FC<BrandingProfilePanelProps> = ({ value, onChange }) => {
+  const [profiles, setProfiles] = useState<BrandingProfile[]>([]);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    seoApi.getBrandingProfiles()
+      .then(setProfiles)
+      .catch(() => setError('Could not load branding profiles.'));
+  }, []);
+
+  const selected = profiles.find(profile => profile.id === value);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setError('');
+  };
+
+  const startEdit = (profile: BrandingProfile) => {
+    const { id, createdAt, updatedAt, ...settings } = profile;
+    setEditingId(id);
+    setForm({ ...settings, contact: settings.contact || {}, sections: settings.sections || allSections });
+    setError('');
+  };
+
+  const update = (changes: Partial<ProfileForm>) => {
+    setForm(prev => prev && { ...prev, ...changes });
+  };
+
+  const selectLogo = (file?: File) => {
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo must be at most 512 KB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update({ logo: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
+
+  const toggleSection = (section: ReportSectionId, included: boolean) => {
+    if (!form) return;
+    const sections = form.sections || allSections;
+    update({
+      sections: included
+        ? [...sections, section]
+        : sections.filter(id => id !== section)
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    if (!form) return;
+    const sections = [...(form.sections || allSections)];
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    update({ sections });
+  };
+
+  const save = async () => {
+    if (!form) return;
+    const { name, ...settings } = form;
+    setSaving(true);
+    setError('');
+    try {
+      const profile = editingId
+        ? await seoApi.updateBrandingProfile(editingId, name, settings)
+        : await seoApi.createBrandingProfile(name, settings);
+      setProfiles(prev => [...prev.filter(existing => existing.id !== profile.id), profile]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      onChange(profile.id);
+      setForm(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not save the branding profile.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (profile: BrandingProfile) => {
+    if (!window.confirm(`Delete the branding profile "${profile.name}"?`)) return;
+    try {
+      await seoApi.deleteBrandingProfile(profile.id);
+      setProfiles(prev => prev.filter(existing => existing.id !== profile.id));
+      onChange('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not delete the branding profile.');
+    }
+  };
+
+  const textField = (field: 'agencyName' | 'clientName', label: string) => (
+    <div>
+      <label style={labelStyle}>{label}</label>
+      <input
+        type="text"
+        value={form?.[field] || ''}
+        onChange={(e) => update({ [field]: e.target.value })}
+        maxLength={200}
+        style={inputStyle}
+      />
+    </div>
+  );
+
+  const contactField = (field: 'name' | 'email' | 'phone' | 'website', label: string, type = 'text') => (
+    <div>
+      <label style={labelStyle}>{label}</label>
+      <input
+        type={type}
+        value={form?.contact?.[field] || ''}
+        onChange={(e) => update({ contact: { ...form?.contact, [field]: e.target.value } })}
+        maxLength={200}
+        style={inputStyle}
+      />
+    </div>
+  );
+
+  const sections = form?.sections || allSections;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          style={{ ...inputStyle, width: 'auto', minWidth: '220px' }}
+        >
+          <option value="">No branding profile</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={startCreate} style={smallButtonStyle}>New Profile</button>
+        {selected && (
+          <>
+            <button type="button" onClick={() => startEdit(selected)} style={smallButtonStyle}>Edit</button>
+            <button type="button" onClick={() => remove(selected)} style={{ ...smallButtonStyle, color: '#dc2626' }}>Delete</button>
+          </>
+        )}
+      </div>
+
+      {selected && !form && (
+        <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: '#6b7280' }}>
+          Reports use this profile's logo, texts, colors and section order. Custom colors above still take precedence.
+        </p>
+      )}
+
+      {error && (
+        <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: '#dc2626' }}>{error}</p>
+      )}
+
+      {form && (
+        <div style={{
+          marginTop: '1rem',
+          padding: '1rem',
+          border: '1px solid #e5e7eb',
+          borderRadius: '8px',
+          backgroundColor: 'white'
+        }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+            <div>
+              <label style={labelStyle}>Profile Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                maxLength={100}
+                style={inputStyle}
+              />
+            </div>
+            {textField('agencyName', 'Agency Name')}
+            {textField('clientName', 'Prepared For')}
+          </div>
+
+          <div style={{ marginTop: '1rem' }}>
+            <label style={labelStyle}>Logo (PNG, JPEG or GIF, up to 512 KB)</label>
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+              {form.logo && (
+                <img src={form.logo} alt="Logo preview" style={{ maxHeight: '48px', maxWidth: '160px' }} />
+              )}
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/gif"
+                onChange={(e) => selectLogo(e.target.files?.[0])}
+              />
+              {form.logo && (
+                <button type="button" onClick={() => update({ logo: undefined })} style={smallButtonStyle}>Remove</button>
+              )}
+            </div>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '1rem', marginTop: '1rem' }}>
+            {(['primary', 'secondary', 'tertiary'] as const).map(key => (
+              <div key={key}>
+                <label style={{ ...labelStyle, textTransform: 'capitalize' }}>{key} Color</label>
+                <input
+                  type="color"
+                  value={form.colors[key] || emptyForm.colors[key]}
+                  onChange={(e) => update({ colors: { ...form.colors, [key]: e.target.value } })}
+                  style={{ width: '100%', height: '36px', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer' }}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginTop: '1rem' }}>
+            {contactField('name', 'Contact Name')}
+            {contactField('email', 'Contact Email', 'email')}
+            {contactField('phone', 'Contact Phone', 'tel')}
+            {contactField('website', 'Website', 'url')}
+          </div>
+
+          <div style={{ marginTop: '1rem' }}>
+            <label style={labelStyle}>Introduction</label>
+            <textarea
+              value={form.introText || ''}
+              onChange={(e) => update({ introText: e.target.value })}
+              maxLength={2000}
+              rows={3}
+              placeholder="Shown after the cover page. Separate paragraphs with a blank line."
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+          </div>
+
+          <div style={{ marginTop: '1rem' }}>
+            <label style={labelStyle}>Closing Call to Action</label>
+            <textarea
+              value={form.callToAction || ''}
+              onChange={(e) => update({ callToAction: e.target.value })}
+              maxLength={2000}
+              rows={2}
+              placeholder="Shown as Next Steps at the end of the report."
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+          </div>
+
+          <div style={{ marginTop: '1rem' }}>
+            <label style={labelStyle}>Report Sections</label>
+            {sections.map((section, index) => (
+              <div key={section} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                <input
+                  type="checkbox"
+                  checked
+                  onChange={() => toggleSection(section, false)}
+                  disabled={sections.length === 1}
+                />
+                <span style={{ flex: 1, fontSize: '0.875rem', color: '#374151' }}>{sectionLabels[section]}</span>
+                <button type="button" onClick={() => moveSection(index, -1)} disabled={index === 0} style={smallButtonStyle}>↑</button>
+                <button type="button" onClick={() => moveSection(index, 1)} disabled={index === sections.length - 1} style={smallButtonStyle}>↓</button>
+              </div>
+            ))}
+            {allSections.filter(section => !sections.includes(section)).map(section => (
+              <div key={section} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                <input type="checkbox" checked={false} onChange={() => toggleSection(section, true)} />
+                <span style={{ fontSize: '0.875rem', color: '#9ca3af' }}>{sectionLabels[section]}</span>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+            <button
+              type="button"
+              onClick={save}
+              disabled={saving || !form.name.trim()}
+              style={{
+                ...smallButtonStyle,
+                backgroundColor: saving || !form.name.trim() ? '#9ca3af' : '#2563eb',
+                color: 'white',
+                border: 'none'
+              }}
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Profile'}
+            </button>
+            <button type="button" onClick={() => setForm(null)} style={smallButtonStyle}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandingProfilePanel;
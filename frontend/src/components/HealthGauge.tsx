@@ -0,0 +1,93 @@
+import React from 'react';
+import { SiteHealth, RuleCategory } from '../types';
+
+interface HealthGaugeProps {
+  health: SiteHealth;
+}
+
+const categoryLabels: Record<RuleCategory, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  images: 'Images',
+  technical: 'Technical',
+  links: 'Links',
+  structuredData: 'Structured Data'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return '#16a34a';
+  if (score >= 75) return '#65a30d';
+  if (score >= 50) return '#ea580c';
+  return '#dc2626';
+};
+
+const getScoreLabel = (score: number) => {
+  if (score >= 90) return 'Excellent';
+  if (score >= 75) return 'Good';
+  if (score >= 50) return 'Needs Improvement';
+  return 'Poor';
+};
+
+const HealthGauge: React.FC<HealthGaugeProps> = ({ health }) => {
+  const radius = 80;
+  const arcLength = Math.PI * radius;
+  const color = getScoreColor(health.score);
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: '2rem',
+      padding: '1.5rem',
+      backgroundColor: '#f9fafb',
+      borderRadius: '8px',
+      border: '1px solid #e5e7eb',
+      marginBottom: '2rem'
+    }}>
+      <div style={{ textAlign: 'center' }}>
+        <svg width="200" height="115" viewBox="0 0 200 115">
+          <path
+            d="M 20 100 A 80 80 0 0 1 180 100"
+            fill="none"
+            stroke="#e5e7eb"
+            strokeWidth="16"
+            strokeLinecap="round"
+          />
+          <path
+            d="M 20 100 A 80 80 0 0 1 180 100"
+            fill="none"
+            stroke={color}
+            strokeWidth="16"
+            strokeLinecap="round"
+            strokeDasharray={`${(health.score / 100) * arcLength} ${arcLength}`}
+          />
+          <text x="100" y="92" textAnchor="middle" fontSize="36" fontWeight="bold" fill="#1f2937">
+            {health.score}
+          </text>
+        </svg>
+        <div style={{ fontWeight: 'bold', color }}>{getScoreLabel(health.score)}</div>
+        <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>Site Health Score</div>
+      </div>
+
+      <div style={{ flex: 1, minWidth: '250px' }}>
+        {(Object.keys(categoryLabels) as RuleCategory[]).map(category => {
+          const score = health.categories[category] ?? 100;
+          return (
+            <div key={category} style={{ marginBottom: '0.75rem' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.875rem', marginBottom: '0.25rem' }}>
+                <span style={{ color: '#374151' }}>{categoryLabels[category]}</span>
+                <span style={{ fontWeight: 'bold', color: getScoreColor(score) }}>{score}</span>
+              </div>
+              <div style={{ height: '8px', backgroundColor: '#e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
+                <div style={{ width: `${score}%`, height: '100%', backgroundColor: getScoreColor(score) }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HealthGauge;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { RuleDefinition, RuleSettings } from '../types';
+import { seoApi } from '../utils/api';
+
+interface RuleSettingsPanelProps {
+  value: RuleSettings;
+  onChange: (settings: RuleSettings) => void;
+  disabled: boolean;
+}
+
+const categoryLabels: Record<string, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  images: 'Images',
+  technical: 'Technical',
+  links: 'Links',
+  structuredData: 'Structured Data'
+};
+
+const RuleSettingsPanel: React.FC<RuleSettingsPanelProps> = ({ value, onChange, disabled }) => {
+  const [rules, setRules] = useState<RuleDefinition[]>([]);
+  const [loadError, setLoadError] = useState('');
+
+  useEffect(() => {
+    seoApi.getRules()
+      .then(setRules)
+      .catch(() => setLoadError('Could not load the rule list. Scans will use the default rules.'));
+  }, []);
+
+  const updateRule = (ruleId: string, update: RuleSettings[string]) => {
+    onChange({ ...value, [ruleId]: { ...value[ruleId], ...update } });
+  };
+
+  const updateThreshold = (rule: RuleDefinition, key: string, input: string) => {
+    const threshold = Number(input);
+    if (input === '' || !Number.isFinite(threshold)) return;
+    updateRule(rule.id, { thresholds: { ...value[rule.id]?.thresholds, [key]: threshold } });
+  };
+
+  if (loadError) {
+    return <p style={{ margin: 0, fontSize: '0.875rem', color: '#dc2626' }}>{loadError}</p>;
+  }
+
+  const categories = Array.from(new Set(rules.map(rule => rule.category)));
+
+  return (
+    <div>
+      {categories.map(category => (
+        <div key={category} style={{ marginBottom: '1rem' }}>
+          <h5 style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>{categoryLabels[category] || category}</h5>
+          {rules.filter(rule => rule.category === category).map(rule => {
+            const enabled = value[rule.id]?.enabled !== false;
+            return (
+              <div key={rule.id} style={{ marginBottom: '0.5rem' }}>
+                <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    disabled={disabled}
+                    style={{ marginRight: '0.5rem' }}
+                  />
+                  <span style={{ fontSize: '0.875rem', color: '#374151' }} title={rule.description}>
+                    {rule.title}
+                  </span>
+                </label>
+                {enabled && Object.keys(rule.thresholds).length > 0 && (
+                  <div style={{ display: 'flex', gap: '0.75rem', marginLeft: '1.5rem', marginTop: '0.25rem' }}>
+                    {Object.entries(rule.thresholds).map(([key, defaultValue]) => (
+                      <label key={key} style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                        {key}{' '}
+                        <input
+                          type="number"
+                          min={0}
+                          defaultValue={value[rule.id]?.thresholds?.[key] ?? defaultValue}
+                          onChange={(e) => updateThreshold(rule, key, e.target.value)}
+                          disabled={disabled}
+                          style={{
+                            width: '70px',
+                            padding: '0.25rem',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '4px'
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RuleSettingsPanel;
@@ -1,8 +1,21 @@
-import React, { useState } from 'react';
-import { BrandColors } from '../types';
+import React, { useEffect, useState } from 'react';
+import { BrandColors, CrawlOptions, QueryStringMode, RenderMode, RuleSettings, Project } from '../types';
+import RuleSettingsPanel from './RuleSettingsPanel';
+import { seoApi } from '../utils/api';
+
+export interface ProjectSelection {
+  projectId?: string;
+  newProjectName?: string;
+}
 
 interface ScanFormProps {
-  onSubmit: (url: string, brandColors?: BrandColors) => void;
+  onSubmit: (
+    url: string,
+    brandColors?: BrandColors,
+    crawlOptions?: Partial<CrawlOptions>,
+    ruleSettings?: RuleSettings,
+    project?: ProjectSelection
+  ) => void;
   isLoading: boolean;
 }
 
@@ -14,8 +27,34 @@ const ScanForm: React.FC<ScanFormProps> = ({ onSubmit, isLoading }) => {
     secondary: '#7c3aed',
     tertiary: '#059669'
   });
+  const [showCrawlOptions, setShowCrawlOptions] = useState(false);
+  const [maxPages, setMaxPages] = useState(50);
+  const [maxDepth, setMaxDepth] = useState(3);
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [queryStrings, setQueryStrings] = useState<QueryStringMode>('keep');
+  const [concurrency, setConcurrency] = useState(2);
+  const [renderMode, setRenderMode] = useState<RenderMode>('auto');
+  const [checkExternalLinks, setCheckExternalLinks] = useState(false);
+  const [showRuleSettings, setShowRuleSettings] = useState(false);
+  const [ruleSettings, setRuleSettings] = useState<RuleSettings>({});
+  const [saveToProject, setSaveToProject] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [newProjectName, setNewProjectName] = useState('');
+  const [projectError, setProjectError] = useState('');
   const [urlError, setUrlError] = useState('');
 
+  useEffect(() => {
+    if (!saveToProject) return;
+    seoApi.getProjects()
+      .then(setProjects)
+      .catch(() => setProjectError('Could not load projects. You can still create a new one.'));
+  }, [saveToProject]);
+
+  const splitLines = (value: string): string[] =>
+    value.split('\n').map(line => line.trim()).filter(Boolean);
+
   const validateUrl = (inputUrl: string): boolean => {
     try {
       const urlObj = new URL(inputUrl);
@@ -43,8 +82,29 @@ const ScanForm: React.FC<ScanFormProps> = ({ onSubmit, isLoading }) => {
       return;
     }
 
+    if (saveToProject && !projectId && !newProjectName.trim()) {
+      setProjectError('Choose a project or enter a name for a new one');
+      return;
+    }
+
     setUrlError('');
-    onSubmit(formattedUrl, showBrandColors ? brandColors : undefined);
+    setProjectError('');
+    onSubmit(
+      formattedUrl,
+      showBrandColors ? brandColors : undefined,
+      showCrawlOptions ? {
+        maxPages,
+        maxDepth,
+        includePatterns: splitLines(includePatterns),
+        excludePatterns: splitLines(excludePatterns),
+        queryStrings,
+        concurrency,
+        renderMode,
+        checkExternalLinks
+      } : undefined,
+      showRuleSettings ? ruleSettings : undefined,
+      saveToProject ? (projectId ? { projectId } : { newProjectName: newProjectName.trim() }) : undefined
+    );
   };
 
   const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -163,6 +223,239 @@ const ScanForm: React.FC<ScanFormProps> = ({ onSubmit, isLoading }) => {
           </div>
         )}
 
+        <div style={{ marginBottom: '1.5rem' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={showCrawlOptions}
+              onChange={(e) => setShowCrawlOptions(e.target.checked)}
+              disabled={isLoading}
+              style={{ marginRight: '0.5rem' }}
+            />
+            <span style={{ color: '#374151' }}>Customize crawl settings (optional)</span>
+          </label>
+        </div>
+
+        {showCrawlOptions && (
+          <div style={{ 
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: '#f9fafb',
+            borderRadius: '6px',
+            border: '1px solid #e5e7eb'
+          }}>
+            <h4 style={{ marginBottom: '1rem', color: '#374151' }}>Crawl Settings</h4>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Max Pages
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={maxPages}
+                  onChange={(e) => setMaxPages(parseInt(e.target.value) || 1)}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', boxSizing: 'border-box' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Max Depth
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(parseInt(e.target.value) || 0)}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', boxSizing: 'border-box' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Parallel Tabs
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={3}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(parseInt(e.target.value) || 1)}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', boxSizing: 'border-box' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Query Strings
+                </label>
+                <select
+                  value={queryStrings}
+                  onChange={(e) => setQueryStrings(e.target.value as QueryStringMode)}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px' }}
+                >
+                  <option value="keep">Keep (scan as separate pages)</option>
+                  <option value="strip">Strip from URLs</option>
+                  <option value="skip">Skip URLs with query strings</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Page Rendering
+                </label>
+                <select
+                  value={renderMode}
+                  onChange={(e) => setRenderMode(e.target.value as RenderMode)}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px' }}
+                >
+                  <option value="auto">Automatic</option>
+                  <option value="static">Static HTML only (fastest)</option>
+                  <option value="browser">Always use browser</option>
+                </select>
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Only include paths (one per line)
+                </label>
+                <textarea
+                  value={includePatterns}
+                  onChange={(e) => setIncludePatterns(e.target.value)}
+                  placeholder="/blog/**"
+                  rows={3}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', boxSizing: 'border-box' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.875rem', color: '#6b7280' }}>
+                  Exclude paths (one per line)
+                </label>
+                <textarea
+                  value={excludePatterns}
+                  onChange={(e) => setExcludePatterns(e.target.value)}
+                  placeholder={'/tag/*\n**.pdf'}
+                  rows={3}
+                  disabled={isLoading}
+                  style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', boxSizing: 'border-box' }}
+                />
+              </div>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', marginTop: '1rem' }}>
+              <input
+                type="checkbox"
+                checked={checkExternalLinks}
+                onChange={(e) => setCheckExternalLinks(e.target.checked)}
+                disabled={isLoading}
+                style={{ marginRight: '0.5rem' }}
+              />
+              <span style={{ fontSize: '0.875rem', color: '#374151' }}>Also check external links for errors</span>
+            </label>
+            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: '#6b7280' }}>
+              Use * for one path segment, ** for any number of segments and ? for a single character, or start a line with re: for a regular expression.
+            </p>
+          </div>
+        )}
+
+        <div style={{ marginBottom: '1.5rem' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={showRuleSettings}
+              onChange={(e) => setShowRuleSettings(e.target.checked)}
+              disabled={isLoading}
+              style={{ marginRight: '0.5rem' }}
+            />
+            <span style={{ color: '#374151' }}>Customize SEO rules (optional)</span>
+          </label>
+        </div>
+
+        {showRuleSettings && (
+          <div style={{ 
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: '#f9fafb',
+            borderRadius: '6px',
+            border: '1px solid #e5e7eb'
+          }}>
+            <h4 style={{ marginBottom: '1rem', color: '#374151' }}>SEO Rules</h4>
+            <RuleSettingsPanel value={ruleSettings} onChange={setRuleSettings} disabled={isLoading} />
+          </div>
+        )}
+
+        <div style={{ marginBottom: '1.5rem' }}>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={saveToProject}
+              onChange={(e) => setSaveToProject(e.target.checked)}
+              disabled={isLoading}
+              style={{ marginRight: '0.5rem' }}
+            />
+            <span style={{ color: '#374151' }}>Save to a project to track changes over time (optional)</span>
+          </label>
+        </div>
+
+        {saveToProject && (
+          <div style={{ 
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: '#f9fafb',
+            borderRadius: '6px',
+            border: '1px solid #e5e7eb'
+          }}>
+            <h4 style={{ marginBottom: '1rem', color: '#374151' }}>Project</h4>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              disabled={isLoading}
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                marginBottom: '0.75rem'
+              }}
+            >
+              <option value="">New project…</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name} ({project.url})</option>
+              ))}
+            </select>
+            {!projectId && (
+              <input
+                type="text"
+                value={newProjectName}
+                onChange={(e) => setNewProjectName(e.target.value)}
+                placeholder="Project name, e.g. Acme marketing site"
+                maxLength={100}
+                disabled={isLoading}
+                style={{
+                  width: '100%',
+                  padding: '0.5rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  boxSizing: 'border-box'
+                }}
+              />
+            )}
+            {projectError && (
+              <p style={{ color: '#dc2626', fontSize: '0.875rem', margin: '0.5rem 0 0 0' }}>
+                {projectError}
+              </p>
+            )}
+            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: '#6b7280' }}>
+              Project scans are kept so you can compare them with later scans of the same site.
+            </p>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={isLoading || !url.trim()}
@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { ScanHistoryEntry, ScanComparison, ComparedIssue, Project, CrawlOptions, RuleSettings } from '../types';
+import { seoApi } from '../utils/api';
+
+interface ScanHistoryPanelProps {
+  projectId: string;
+  sessionId: string;
+  crawlOptions?: CrawlOptions;
+  ruleSettings?: RuleSettings;
+}
+
+const schedulePresets = [
+  { label: 'Daily', value: '0 6 * * *' },
+  { label: 'Weekly (Monday)', value: '0 6 * * 1' },
+  { label: 'Monthly', value: '0 6 1 * *' }
+];
+
+const severityColors: Record<string, string> = {
+  high: '#dc2626',
+  medium: '#ea580c',
+  low: '#ca8a04'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const ScanHistoryPanel: React.FC<ScanHistoryPanelProps> = ({ projectId, sessionId, crawlOptions, ruleSettings }) => {
+  const [project, setProject] = useState<Project | null>(null);
+  const [scheduleInput, setScheduleInput] = useState('');
+  const [scheduleMessage, setScheduleMessage] = useState('');
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [scans, setScans] = useState<ScanHistoryEntry[]>([]);
+  const [baseSessionId, setBaseSessionId] = useState('');
+  const [comparison, setComparison] = useState<ScanComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    seoApi.getProjectScans(projectId)
+      .then(({ project: loadedProject, scans: history }) => {
+        setProject(loadedProject);
+        setScheduleInput(loadedProject.schedule || '');
+        setScans(history);
+        // Default to the latest completed scan that ran before this one
+        const currentIndex = history.findIndex(scan => scan.sessionId === sessionId);
+        const previous = history.slice(currentIndex + 1).find(scan => scan.status === 'completed');
+        setBaseSessionId(previous?.sessionId || '');
+      })
+      .catch(() => setError('Could not load the scan history for this project.'));
+  }, [projectId, sessionId]);
+
+  useEffect(() => {
+    if (!baseSessionId) {
+      setComparison(null);
+      return;
+    }
+    setLoading(true);
+    setError('');
+    seoApi.compareScans(baseSessionId, sessionId)
+      .then(setComparison)
+      .catch(() => setError('Could not compare the selected scans.'))
+      .finally(() => setLoading(false));
+  }, [baseSessionId, sessionId]);
+
+  const saveSchedule = async (schedule: string | null) => {
+    try {
+      setSavingSchedule(true);
+      setScheduleMessage('');
+      const updated = await seoApi.updateSchedule(projectId, schedule, crawlOptions, ruleSettings);
+      setProject(updated);
+      setScheduleInput(updated.schedule || '');
+      setScheduleMessage(updated.schedule ? 'Schedule saved. Scheduled scans use this scan\'s settings.' : 'Schedule removed.');
+    } catch (error: any) {
+      setScheduleMessage(error.response?.data?.error || 'Could not save the schedule.');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const otherScans = scans.filter(scan => scan.sessionId !== sessionId && scan.status === 'completed');
+
+  const renderIssues = (title: string, issues: ComparedIssue[], color: string) => issues.length > 0 && (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <h4 style={{ margin: '0 0 0.5rem 0', color }}>{title} ({issues.length})</h4>
+      {issues.map(issue => (
+        <div key={`${issue.url} ${issue.ruleId}`} style={{ fontSize: '0.875rem', marginBottom: '0.25rem' }}>
+          <span style={{ fontWeight: 'bold', color: severityColors[issue.severity] }}>{issue.title}</span>
+          <span style={{ color: '#6b7280' }}> — {issue.url}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderUrls = (title: string, urls: string[]) => urls.length > 0 && (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <h4 style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>{title} ({urls.length})</h4>
+      {urls.map(pageUrl => (
+        <div key={pageUrl} style={{ fontSize: '0.875rem', color: '#6b7280', wordBreak: 'break-all' }}>{pageUrl}</div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      {project && (
+        <div style={{
+          padding: '1rem',
+          backgroundColor: '#f9fafb',
+          borderRadius: '6px',
+          border: '1px solid #e5e7eb',
+          marginBottom: '2rem'
+        }}>
+          <h4 style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>Recurring Scans</h4>
+          <p style={{ margin: '0 0 0.75rem 0', fontSize: '0.875rem', color: '#6b7280' }}>
+            {project.schedule && project.nextRunAt
+              ? `Next scan: ${formatDate(project.nextRunAt)}. You will be alerted if the health score drops or new high-priority issues appear.`
+              : 'Re-scan this site automatically and get alerted about regressions.'}
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={scheduleInput}
+              onChange={(e) => setScheduleInput(e.target.value)}
+              placeholder="Cron expression (UTC), e.g. 0 6 * * 1"
+              disabled={savingSchedule}
+              style={{
+                flex: 1,
+                minWidth: '200px',
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontFamily: 'monospace'
+              }}
+            />
+            <button
+              onClick={() => saveSchedule(scheduleInput.trim() || null)}
+              disabled={savingSchedule}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: savingSchedule ? 'not-allowed' : 'pointer'
+              }}
+            >
+              Save
+            </button>
+            {project.schedule && (
+              <button
+                onClick={() => saveSchedule(null)}
+                disabled={savingSchedule}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: 'white',
+                  color: '#dc2626',
+                  border: '1px solid #dc2626',
+                  borderRadius: '4px',
+                  cursor: savingSchedule ? 'not-allowed' : 'pointer'
+                }}
+              >
+                Stop
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            {schedulePresets.map(preset => (
+              <button
+                key={preset.value}
+                onClick={() => setScheduleInput(preset.value)}
+                disabled={savingSchedule}
+                style={{
+                  padding: '0.25rem 0.5rem',
+                  fontSize: '0.75rem',
+                  backgroundColor: 'white',
+                  color: '#374151',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          {scheduleMessage && (
+            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: '#374151' }}>{scheduleMessage}</p>
+          )}
+        </div>
+      )}
+
+      <h3 style={{ marginBottom: '1rem', color: '#1f2937' }}>Scan History</h3>
+
+      {error && <p style={{ color: '#dc2626' }}>{error}</p>}
+
+      {scans.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '2rem' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: '#6b7280', borderBottom: '1px solid #e5e7eb' }}>
+              <th style={{ padding: '0.5rem' }}>Date</th>
+              <th style={{ padding: '0.5rem' }}>Status</th>
+              <th style={{ padding: '0.5rem' }}>Pages</th>
+              <th style={{ padding: '0.5rem' }}>Health</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scans.map(scan => (
+              <tr key={scan.sessionId} style={{
+                borderBottom: '1px solid #f3f4f6',
+                backgroundColor: scan.sessionId === sessionId ? '#eff6ff' : 'transparent'
+              }}>
+                <td style={{ padding: '0.5rem' }}>
+                  {formatDate(scan.createdAt)}{scan.sessionId === sessionId && ' (this scan)'}
+                </td>
+                <td style={{ padding: '0.5rem' }}>{scan.status}</td>
+                <td style={{ padding: '0.5rem' }}>{scan.pagesProcessed}</td>
+                <td style={{ padding: '0.5rem' }}>{scan.healthScore ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {otherScans.length === 0 ? (
+        !error && <p style={{ color: '#6b7280' }}>Run this project again later to see what changed between scans.</p>
+      ) : (
+        <div>
+          <label style={{ display: 'block', marginBottom: '1rem', color: '#374151' }}>
+            Compare with{' '}
+            <select
+              value={baseSessionId}
+              onChange={(e) => setBaseSessionId(e.target.value)}
+              style={{ padding: '0.25rem', border: '1px solid #d1d5db', borderRadius: '4px' }}
+            >
+              <option value="">Select a scan…</option>
+              {otherScans.map(scan => (
+                <option key={scan.sessionId} value={scan.sessionId}>{formatDate(scan.createdAt)}</option>
+              ))}
+            </select>
+          </label>
+
+          {loading && <p style={{ color: '#6b7280' }}>Comparing scans...</p>}
+
+          {!loading && comparison && (
+            <div>
+              {comparison.base.healthScore !== undefined && comparison.current.healthScore !== undefined && (
+                <p style={{ color: '#374151' }}>
+                  Health score: {comparison.base.healthScore} → <strong>{comparison.current.healthScore}</strong>
+                </p>
+              )}
+
+              {comparison.newIssues.length === 0 && comparison.resolvedIssues.length === 0 &&
+                comparison.pagesAdded.length === 0 && comparison.pagesRemoved.length === 0 &&
+                comparison.metadataChanges.length === 0 && (
+                <p style={{ color: '#16a34a' }}>No changes between these scans.</p>
+              )}
+
+              {renderIssues('New Issues', comparison.newIssues, '#dc2626')}
+              {renderIssues('Resolved Issues', comparison.resolvedIssues, '#16a34a')}
+              {renderUrls('Pages Added', comparison.pagesAdded)}
+              {renderUrls('Pages Removed', comparison.pagesRemoved)}
+
+              {comparison.metadataChanges.length > 0 && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <h4 style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>
+                    Title &amp; Description Changes ({comparison.metadataChanges.length})
+                  </h4>
+                  {comparison.metadataChanges.map(change => (
+                    <div key={`${change.url} ${change.field}`} style={{
+                      padding: '0.5rem',
+                      backgroundColor: '#f9fafb',
+                      borderRadius: '4px',
+                      marginBottom: '0.5rem',
+                      fontSize: '0.875rem'
+                    }}>
+                      <div style={{ color: '#6b7280', wordBreak: 'break-all' }}>
+                        {change.field === 'title' ? 'Title' : 'Description'} on {change.url}
+                      </div>
+                      <div style={{ color: '#991b1b' }}>− {change.before || '(none)'}</div>
+                      <div style={{ color: '#166534' }}>+ {change.after || '(none)'}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanHistoryPanel;
@@ -1,16 +1,35 @@
 import React from 'react';
-import { ScanStatusResponse } from '../types';
+import { ScanStatusResponse, ScanPageEvent } from '../types';
 
 interface ScanProgressProps {
   status: ScanStatusResponse;
   url: string;
+  onControl: (action: 'pause' | 'resume' | 'cancel') => void;
+  isControlling: boolean;
+  controlMessage?: string;
+  log: ScanPageEvent[];
 }
 
-const ScanProgress: React.FC<ScanProgressProps> = ({ status, url }) => {
+const severityColors: Record<string, string> = {
+  high: '#dc2626',
+  medium: '#ea580c',
+  low: '#ca8a04'
+};
+
+const ScanProgress: React.FC<ScanProgressProps> = ({ status, url, onControl, isControlling, controlMessage, log }) => {
+  const { queuePosition } = status;
+
+  // Newest first; a page's "started" entry is replaced once it finishes
+  const finishedUrls = new Set(log.filter(event => event.type !== 'page-started').map(event => event.url));
+  const logEntries = log
+    .filter(event => event.type !== 'page-started' || !finishedUrls.has(event.url))
+    .reverse();
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return '#f59e0b';
       case 'scanning': return '#3b82f6';
+      case 'paused': return '#6b7280';
       case 'completed': return '#10b981';
       case 'failed': return '#ef4444';
       default: return '#6b7280';
@@ -19,8 +38,12 @@ const ScanProgress: React.FC<ScanProgressProps> = ({ status, url }) => {
 
   const getStatusMessage = (status: string) => {
     switch (status) {
-      case 'pending': return 'Preparing to scan...';
+      case 'pending': return queuePosition
+        ? `Waiting in queue (position ${queuePosition})...`
+        : 'Preparing to scan...';
       case 'scanning': return 'Scanning website...';
+      case 'paused': return 'Scan paused';
+      case 'cancelled': return 'Scan cancelled';
       case 'completed': return 'Scan completed!';
       case 'failed': return 'Scan failed';
       default: return 'Unknown status';
@@ -153,6 +176,54 @@ const ScanProgress: React.FC<ScanProgressProps> = ({ status, url }) => {
         )}
       </div>
 
+      {logEntries.length > 0 && (
+        <div style={{ marginBottom: '2rem' }}>
+          <h4 style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>Live Log</h4>
+          <div style={{
+            maxHeight: '240px',
+            overflowY: 'auto',
+            border: '1px solid #e5e7eb',
+            borderRadius: '6px',
+            fontSize: '0.8125rem'
+          }}>
+            {logEntries.map(event => (
+              <div key={event.id} style={{
+                padding: '0.375rem 0.75rem',
+                borderBottom: '1px solid #f3f4f6',
+                wordBreak: 'break-all'
+              }}>
+                {event.type === 'page-started' && (
+                  <span style={{ color: '#6b7280' }}>Scanning {event.url}…</span>
+                )}
+                {event.type === 'page-completed' && (
+                  <>
+                    <span style={{ color: '#16a34a', fontWeight: 'bold' }}>✓ </span>
+                    <span style={{ color: '#1f2937' }}>{event.url}</span>
+                    <span style={{ color: '#6b7280' }}> — score {event.score}</span>
+                    {event.issues.length > 0 && (
+                      <div style={{ marginTop: '0.125rem' }}>
+                        {event.issues.map(issue => (
+                          <span key={issue.ruleId} style={{ color: severityColors[issue.severity], marginRight: '0.75rem' }}>
+                            {issue.title}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+                {event.type === 'page-failed' && (
+                  <>
+                    <span style={{ color: '#dc2626', fontWeight: 'bold' }}>✗ </span>
+                    <span style={{ color: '#1f2937' }}>{event.url}</span>
+                    <span style={{ color: '#dc2626' }}> — {event.reason}</span>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {status.status === 'scanning' && (
         <div style={{
           padding: '1rem',
@@ -167,6 +238,54 @@ const ScanProgress: React.FC<ScanProgressProps> = ({ status, url }) => {
         </div>
       )}
 
+      {(status.status === 'pending' || status.status === 'scanning' || status.status === 'paused') && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button
+              onClick={() => onControl(status.status === 'paused' ? 'resume' : 'pause')}
+              disabled={isControlling}
+              style={{
+                flex: 1,
+                padding: '0.75rem 1.5rem',
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '1rem',
+                fontWeight: 'bold',
+                cursor: isControlling ? 'not-allowed' : 'pointer',
+                opacity: isControlling ? 0.6 : 1
+              }}
+            >
+              {status.status === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={() => onControl('cancel')}
+              disabled={isControlling}
+              style={{
+                flex: 1,
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'white',
+                color: '#dc2626',
+                border: '1px solid #dc2626',
+                borderRadius: '6px',
+                fontSize: '1rem',
+                fontWeight: 'bold',
+                cursor: isControlling ? 'not-allowed' : 'pointer',
+                opacity: isControlling ? 0.6 : 1
+              }}
+            >
+              Cancel Scan
+            </button>
+          </div>
+          {controlMessage && (
+            <p style={{ margin: '0.75rem 0 0 0', fontSize: '0.875rem', color: '#374151', textAlign: 'center' }}>
+              {controlMessage}
+            </p>
+          )}
+        </div>
+      )}
+
       {status.status === 'failed' && (
         <div style={{
           padding: '1rem',
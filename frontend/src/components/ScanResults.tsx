@@ -1,29 +1,59 @@
 import React, { useState } from 'react';
-import { ScanData, BrandColors } from '../types';
+import { ScanData, BrandColors, ReportOptions } from '../types';
+import SocialPreviewCard from './SocialPreviewCard';
+import HealthGauge from './HealthGauge';
+import ScanHistoryPanel from './ScanHistoryPanel';
+import BrandingProfilePanel from './BrandingProfilePanel';
 
 interface ScanResultsProps {
   scanData: ScanData;
   url: string;
-  onGenerateReport: (brandColors?: BrandColors) => void;
+  sessionId: string;
+  projectId?: string;
+  onGenerateReport: (brandColors?: BrandColors, options?: ReportOptions) => void;
   isGeneratingReport: boolean;
   onStartNewScan: () => void;
 }
 
+// One row per page (and per image) for bulk-editing metadata in a spreadsheet
+// "Changes since last scan" only applies to the PDF, HTML and JSON reports; the spreadsheets ignore it
+const additionalExports: Array<{ label: string; options: ReportOptions }> = [
+  { label: 'PDF Report', options: { format: 'pdf' } },
+  { label: 'HTML Report', options: { format: 'html' } },
+  { label: 'JSON Report', options: { format: 'json' } },
+  { label: 'Excel Workbook', options: { format: 'xlsx' } },
+  { label: 'Pages CSV', options: { format: 'csv', sheet: 'pages' } },
+  { label: 'Images CSV', options: { format: 'csv', sheet: 'images' } }
+];
+
 const ScanResults: React.FC<ScanResultsProps> = ({ 
   scanData, 
   url, 
+  sessionId,
+  projectId,
   onGenerateReport, 
   isGeneratingReport, 
   onStartNewScan 
 }) => {
-  const [selectedTab, setSelectedTab] = useState<'overview' | 'pages' | 'images'>('overview');
+  const [selectedTab, setSelectedTab] = useState<'overview' | 'pages' | 'images' | 'links' | 'structuredData' | 'history'>('overview');
+  const [includeChanges, setIncludeChanges] = useState(false);
+  const [activeExport, setActiveExport] = useState('');
   const [showBrandColors, setShowBrandColors] = useState(false);
+  const [brandingProfileId, setBrandingProfileId] = useState('');
   const [brandColors, setBrandColors] = useState<BrandColors>({
     primary: '#2563eb',
     secondary: '#7c3aed', 
     tertiary: '#059669'
   });
 
+  const startExport = (label: string, options: ReportOptions) => {
+    setActiveExport(label);
+    onGenerateReport(showBrandColors ? brandColors : undefined, {
+      ...options,
+      brandingProfileId: brandingProfileId || undefined
+    });
+  };
+
   const highPriorityPages = scanData.pages.filter(p => p.recommendations.priority === 'high');
   const mediumPriorityPages = scanData.pages.filter(p => p.recommendations.priority === 'medium');
   const lowPriorityPages = scanData.pages.filter(p => p.recommendations.priority === 'low');
@@ -32,6 +62,43 @@ const ScanResults: React.FC<ScanResultsProps> = ({
     total + page.images.filter(img => !img.currentAlt).length, 0
   );
 
+  const brokenLinks = scanData.linkCheck?.broken || [];
+  const errorPages = scanData.errors.filter(error => error.status !== undefined || error.reason === 'Redirect loop');
+  const redirectedPages = scanData.pages.filter(page => page.http && page.http.redirectChain.length > 0);
+  const linkIssueCount = brokenLinks.length + errorPages.filter(error => !brokenLinks.some(link => link.url === error.url)).length;
+
+  const issueSummary = scanData.issueSummary || [];
+  const pagesWithStructuredDataIssues = scanData.pages.filter(p =>
+    p.structuredData && (p.structuredData.items.length === 0 || p.structuredData.issues.length > 0)
+  );
+  const structuredDataErrorCount = scanData.pages.reduce((sum, p) =>
+    sum + (p.structuredData?.issues.filter(issue => issue.severity === 'error').length || 0), 0);
+
+  const getCanonicalLabel = (canonical?: { url: string; status: string }) => {
+    switch (canonical?.status) {
+      case 'self': return 'Self-referencing';
+      case 'mismatch': return `Points to ${canonical.url}`;
+      default: return 'Missing';
+    }
+  };
+
+  const structuredDataFormatLabels: Record<string, string> = {
+    'json-ld': 'JSON-LD',
+    'microdata': 'Microdata',
+    'rdfa': 'RDFa'
+  };
+
+  const renderingLabels: Record<string, string> = {
+    title: 'title',
+    metaDescription: 'meta description',
+    canonical: 'canonical',
+    h1: 'H1',
+    h2: 'H2',
+    h3: 'H3',
+    internalLinks: 'links',
+    structuredData: 'structured data'
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return '#dc2626';
@@ -44,7 +111,10 @@ const ScanResults: React.FC<ScanResultsProps> = ({
   const tabs = [
     { id: 'overview', label: 'Overview', count: '' },
     { id: 'pages', label: 'Pages', count: scanData.pages.length.toString() },
-    { id: 'images', label: 'Images', count: totalImagesWithoutAlt > 0 ? totalImagesWithoutAlt.toString() : '' }
+    { id: 'images', label: 'Images', count: totalImagesWithoutAlt > 0 ? totalImagesWithoutAlt.toString() : '' },
+    { id: 'links', label: 'Links', count: linkIssueCount > 0 ? linkIssueCount.toString() : '' },
+    { id: 'structuredData', label: 'Structured Data', count: structuredDataErrorCount > 0 ? structuredDataErrorCount.toString() : '' },
+    ...(projectId ? [{ id: 'history', label: 'History', count: '' }] : [])
   ];
 
   return (
@@ -111,6 +181,8 @@ const ScanResults: React.FC<ScanResultsProps> = ({
         <div style={{ padding: '2rem' }}>
           {selectedTab === 'overview' && (
             <div>
+              {scanData.health && <HealthGauge health={scanData.health} />}
+
               {/* Summary Stats */}
               <div style={{ 
                 display: 'grid',
@@ -165,7 +237,24 @@ const ScanResults: React.FC<ScanResultsProps> = ({
                   </div>
                 )}
 
-                {totalImagesWithoutAlt > 0 && (
+                {issueSummary.map(summary => (
+                  <div key={summary.ruleId} style={{
+                    padding: '1rem',
+                    backgroundColor: summary.severity === 'high' ? '#fef2f2' : '#fff7ed',
+                    borderRadius: '6px',
+                    borderLeft: `4px solid ${getPriorityColor(summary.severity)}`,
+                    marginBottom: '1rem'
+                  }}>
+                    <h4 style={{ margin: '0 0 0.5rem 0', color: summary.severity === 'high' ? '#991b1b' : '#9a3412' }}>
+                      {summary.title} ({summary.pageCount} {summary.pageCount === 1 ? 'page' : 'pages'})
+                    </h4>
+                    <p style={{ margin: 0, color: summary.severity === 'high' ? '#7f1d1d' : '#7c2d12' }}>
+                      {summary.description}
+                    </p>
+                  </div>
+                ))}
+
+                {scanData.discovery && scanData.discovery.unlinkedSitemapUrls.length > 0 && (
                   <div style={{
                     padding: '1rem',
                     backgroundColor: '#fff7ed',
@@ -174,10 +263,10 @@ const ScanResults: React.FC<ScanResultsProps> = ({
                     marginBottom: '1rem'
                   }}>
                     <h4 style={{ margin: '0 0 0.5rem 0', color: '#9a3412' }}>
-                      Missing Alt Text ({totalImagesWithoutAlt} images)
+                      Unlinked Sitemap Pages ({scanData.discovery.unlinkedSitemapUrls.length} pages)
                     </h4>
                     <p style={{ margin: 0, color: '#7c2d12' }}>
-                      Images without alt text reduce accessibility and SEO value.
+                      These pages are listed in your sitemap but no scanned page links to them.
                     </p>
                   </div>
                 )}
@@ -225,7 +314,7 @@ const ScanResults: React.FC<ScanResultsProps> = ({
                         color: 'white',
                         backgroundColor: getPriorityColor(page.recommendations.priority)
                       }}>
-                        {page.recommendations.priority.toUpperCase()}
+                        {page.recommendations.priority.toUpperCase()}{page.score !== undefined && ` • ${page.score}/100`}
                       </span>
                     </div>
                     
@@ -236,9 +325,38 @@ const ScanResults: React.FC<ScanResultsProps> = ({
                       <p style={{ margin: '0.25rem 0' }}>
                         <strong>Description:</strong> {page.metaDescription || 'Missing'} ({page.metaDescription.length} chars)
                       </p>
+                      {page.renderDiff && page.renderDiff.length > 0 && (
+                        <p style={{ margin: '0.25rem 0', color: '#9a3412' }}>
+                          <strong>Needs JavaScript:</strong> {page.renderDiff.map(d => renderingLabels[d.element]).join(', ')}
+                        </p>
+                      )}
+                      {page.http && (
+                        <p style={{ margin: '0.25rem 0' }}>
+                          <strong>HTTP:</strong> {page.http.status} • {page.http.responseTimeMs} ms
+                          {page.http.redirectChain.length > 0 && ` • ${page.http.redirectChain.length} redirect(s) to ${page.http.finalUrl}`}
+                        </p>
+                      )}
+                      <p style={{ margin: '0.25rem 0' }}>
+                        <strong>Canonical:</strong> {getCanonicalLabel(page.canonical)}
+                      </p>
+                      <p style={{ margin: '0.25rem 0' }}>
+                        <strong>Found via:</strong> {page.source === 'sitemap' ? 'Sitemap' : page.source === 'link' ? 'Internal link' : 'Start URL'}
+                        {page.renderedWith && ` • ${page.renderedWith === 'static' ? 'Static HTML' : 'Browser rendered'}`}
+                      </p>
                       <p style={{ margin: '0.25rem 0' }}>
                         <strong>Content:</strong> {page.wordCount} words, {page.headings.h1.length} H1, {page.headings.h2.length} H2, {page.headings.h3.length} H3
                       </p>
+                      {page.issues && page.issues.length > 0 && (
+                        <ul style={{ margin: '0.5rem 0', paddingLeft: '1.25rem' }}>
+                          {page.issues.map(issue => (
+                            <li key={issue.ruleId} style={{ margin: '0.25rem 0' }}>
+                              <strong style={{ color: getPriorityColor(issue.severity) }}>{issue.title}:</strong> {issue.message}
+                              <div style={{ color: '#16a34a' }}>{issue.fix}</div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <SocialPreviewCard page={page} />
                     </div>
                   </div>
                 ))}
@@ -308,6 +426,169 @@ const ScanResults: React.FC<ScanResultsProps> = ({
               )}
             </div>
           )}
+
+          {selectedTab === 'links' && (
+            <div>
+              <h3 style={{ marginBottom: '1rem', color: '#1f2937' }}>Link Analysis</h3>
+              {scanData.linkCheck && (
+                <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#6b7280' }}>
+                  {scanData.linkCheck.checked} URLs checked
+                  {scanData.linkCheck.externalChecked ? ' (including external links)' : ' (internal links only)'}
+                </p>
+              )}
+              {linkIssueCount === 0 && redirectedPages.length === 0 ? (
+                <div style={{
+                  padding: '2rem',
+                  textAlign: 'center',
+                  backgroundColor: '#f0fdf4',
+                  borderRadius: '6px',
+                  border: '1px solid #16a34a'
+                }}>
+                  <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>✅</div>
+                  <h4 style={{ color: '#16a34a', marginBottom: '0.5rem' }}>Great job!</h4>
+                  <p style={{ margin: 0, color: '#15803d' }}>No broken links or redirects found.</p>
+                </div>
+              ) : (
+                <div style={{ maxHeight: '500px', overflowY: 'auto' }}>
+                  {brokenLinks.map((link, index) => (
+                    <div key={`broken-${index}`} style={{
+                      padding: '0.75rem',
+                      marginBottom: '0.5rem',
+                      backgroundColor: '#fef2f2',
+                      borderRadius: '4px',
+                      borderLeft: '3px solid #dc2626'
+                    }}>
+                      <p style={{ margin: '0 0 0.5rem 0', fontWeight: 'bold', color: '#991b1b' }}>
+                        {link.status ? `HTTP ${link.status}` : link.reason}{link.external ? ' (external)' : ''}
+                      </p>
+                      <p style={{ margin: '0 0 0.5rem 0', fontSize: '0.875rem', color: '#6b7280', wordBreak: 'break-all' }}>
+                        {link.url}
+                      </p>
+                      <p style={{ margin: 0, fontSize: '0.875rem' }}>
+                        <strong>Linked from:</strong> {link.foundOn.join(', ')}
+                      </p>
+                    </div>
+                  ))}
+                  {errorPages
+                    .filter(error => !brokenLinks.some(link => link.url === error.url))
+                    .map((error, index) => (
+                      <div key={`error-${index}`} style={{
+                        padding: '0.75rem',
+                        marginBottom: '0.5rem',
+                        backgroundColor: '#fef2f2',
+                        borderRadius: '4px',
+                        borderLeft: '3px solid #dc2626'
+                      }}>
+                        <p style={{ margin: '0 0 0.5rem 0', fontWeight: 'bold', color: '#991b1b' }}>
+                          {error.status ? `HTTP ${error.status}` : error.reason}
+                        </p>
+                        <p style={{ margin: 0, fontSize: '0.875rem', color: '#6b7280', wordBreak: 'break-all' }}>
+                          {error.url}
+                        </p>
+                      </div>
+                    ))}
+                  {redirectedPages.map((page, index) => (
+                    <div key={`redirect-${index}`} style={{
+                      padding: '0.75rem',
+                      marginBottom: '0.5rem',
+                      backgroundColor: '#fff7ed',
+                      borderRadius: '4px',
+                      borderLeft: '3px solid #ea580c'
+                    }}>
+                      <p style={{ margin: '0 0 0.5rem 0', fontWeight: 'bold', color: '#9a3412' }}>
+                        Redirect ({page.http.redirectChain.length} hop{page.http.redirectChain.length > 1 ? 's' : ''})
+                      </p>
+                      <p style={{ margin: 0, fontSize: '0.875rem', color: '#6b7280', wordBreak: 'break-all' }}>
+                        {page.http.redirectChain.map(hop => `${hop.url} (${hop.status})`).join(' → ')} → {page.http.finalUrl}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedTab === 'structuredData' && (
+            <div>
+              <h3 style={{ marginBottom: '1rem', color: '#1f2937' }}>Structured Data</h3>
+              {pagesWithStructuredDataIssues.length === 0 ? (
+                <div style={{
+                  padding: '2rem',
+                  textAlign: 'center',
+                  backgroundColor: '#f0fdf4',
+                  borderRadius: '6px',
+                  border: '1px solid #16a34a'
+                }}>
+                  <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>✅</div>
+                  <h4 style={{ color: '#16a34a', marginBottom: '0.5rem' }}>Great job!</h4>
+                  <p style={{ margin: 0, color: '#15803d' }}>Every page has valid structured data.</p>
+                </div>
+              ) : (
+                <div style={{ maxHeight: '500px', overflowY: 'auto' }}>
+                  {pagesWithStructuredDataIssues.map((page, pageIndex) => (
+                    <div key={pageIndex} style={{
+                      marginBottom: '1.5rem',
+                      padding: '1rem',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '6px'
+                    }}>
+                      <h4 style={{ margin: '0 0 0.5rem 0', color: '#1f2937' }}>
+                        {page.url}
+                      </h4>
+                      {page.structuredData.items.length > 0 && (
+                        <p style={{ margin: '0 0 0.5rem 0', fontSize: '0.875rem', color: '#6b7280' }}>
+                          <strong>Found:</strong> {page.structuredData.items
+                            .map(item => `${item.type || 'Untyped'} (${structuredDataFormatLabels[item.format]})`)
+                            .join(', ')}
+                        </p>
+                      )}
+                      {page.structuredData.issues.map((issue, issueIndex) => (
+                        <div key={issueIndex} style={{
+                          padding: '0.5rem 0.75rem',
+                          marginBottom: '0.5rem',
+                          backgroundColor: issue.severity === 'error' ? '#fef2f2' : '#fff7ed',
+                          borderRadius: '4px',
+                          borderLeft: `3px solid ${issue.severity === 'error' ? '#dc2626' : '#ea580c'}`,
+                          fontSize: '0.875rem'
+                        }}>
+                          <strong style={{ color: issue.severity === 'error' ? '#991b1b' : '#9a3412' }}>
+                            {issue.severity === 'error' ? 'Error' : 'Warning'} ({issue.type}):
+                          </strong> {issue.message}
+                        </div>
+                      ))}
+                      {page.structuredData.suggestedJsonLd && (
+                        <div>
+                          <p style={{ margin: '0 0 0.5rem 0', fontSize: '0.875rem' }}>
+                            <strong style={{ color: '#16a34a' }}>No structured data found. Suggested JSON-LD:</strong>
+                          </p>
+                          <pre style={{
+                            margin: 0,
+                            padding: '0.75rem',
+                            backgroundColor: '#f3f4f6',
+                            borderRadius: '4px',
+                            fontSize: '0.75rem',
+                            color: '#1f2937',
+                            overflowX: 'auto'
+                          }}>
+                            {`<script type="application/ld+json">\n${page.structuredData.suggestedJsonLd}\n</script>`}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedTab === 'history' && projectId && (
+            <ScanHistoryPanel
+              projectId={projectId}
+              sessionId={sessionId}
+              crawlOptions={scanData.crawlOptions}
+              ruleSettings={scanData.ruleSettings}
+            />
+          )}
         </div>
 
         {/* Brand Customization */}
@@ -421,6 +702,36 @@ const ScanResults: React.FC<ScanResultsProps> = ({
           )}
         </div>
 
+        <div style={{ 
+          padding: '1rem 2rem 2rem',
+          borderTop: '1px solid #e5e7eb',
+          backgroundColor: '#f8f9fa'
+        }}>
+          <h4 style={{ margin: '0 0 0.25rem 0', color: '#374151' }}>White-Label Branding</h4>
+          <p style={{ margin: '0 0 0.75rem 0', fontSize: '0.875rem', color: '#6b7280' }}>
+            Add your logo, agency and client names, contact details and an introduction, and choose which sections to include
+          </p>
+          <BrandingProfilePanel value={brandingProfileId} onChange={setBrandingProfileId} />
+        </div>
+
+        {projectId && (
+          <div style={{ 
+            padding: '1rem 2rem',
+            borderTop: '1px solid #e5e7eb',
+            backgroundColor: '#f8f9fa'
+          }}>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={includeChanges}
+                onChange={(e) => setIncludeChanges(e.target.checked)}
+                style={{ marginRight: '0.5rem' }}
+              />
+              <span style={{ color: '#374151' }}>Include "changes since last scan" in the report</span>
+            </label>
+          </div>
+        )}
+
         {/* Actions */}
         <div style={{ 
           padding: '2rem',
@@ -431,7 +742,7 @@ const ScanResults: React.FC<ScanResultsProps> = ({
           flexWrap: 'wrap'
         }}>
           <button
-            onClick={() => onGenerateReport(showBrandColors ? brandColors : undefined)}
+            onClick={() => startExport('word', { format: 'docx', includeChanges })}
             disabled={isGeneratingReport}
             style={{
               flex: 1,
@@ -446,9 +757,29 @@ const ScanResults: React.FC<ScanResultsProps> = ({
               cursor: isGeneratingReport ? 'not-allowed' : 'pointer'
             }}
           >
-            {isGeneratingReport ? 'Generating Report...' : 'Download Word Report'}
+            {isGeneratingReport && activeExport === 'word' ? 'Generating Report...' : 'Download Word Report'}
           </button>
           
+          {additionalExports.map(({ label, options }) => (
+            <button
+              key={label}
+              onClick={() => startExport(label, { ...options, includeChanges })}
+              disabled={isGeneratingReport}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'white',
+                color: isGeneratingReport ? '#9ca3af' : '#16a34a',
+                border: `2px solid ${isGeneratingReport ? '#9ca3af' : '#16a34a'}`,
+                borderRadius: '6px',
+                fontSize: '1rem',
+                fontWeight: 'bold',
+                cursor: isGeneratingReport ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isGeneratingReport && activeExport === label ? 'Exporting...' : label}
+            </button>
+          ))}
+          
           <button
             onClick={onStartNewScan}
             style={{
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ScanData } from '../types';
+
+interface SocialPreviewCardProps {
+  page: ScanData['pages'][number];
+}
+
+const SocialPreviewCard: React.FC<SocialPreviewCardProps> = ({ page }) => {
+  const [showRecommended, setShowRecommended] = useState(false);
+
+  const social = page.social;
+  const recommended = page.recommendations.social;
+  if (!social || !recommended) return null;
+
+  // Social networks fall back to the regular title/description when Open Graph tags are missing
+  const preview = showRecommended
+    ? {
+        title: recommended.ogTitle,
+        description: recommended.ogDescription,
+        image: recommended.ogImage,
+        url: recommended.ogUrl
+      }
+    : {
+        title: social.openGraph.title || social.twitter.title || page.title,
+        description: social.openGraph.description || social.twitter.description || page.metaDescription,
+        image: social.openGraph.image || social.twitter.image,
+        url: social.openGraph.url || page.url
+      };
+
+  const getDomain = (url: string) => {
+    try {
+      return new URL(url).hostname.toUpperCase();
+    } catch (e) {
+      return url.toUpperCase();
+    }
+  };
+
+  const recommendedTags = [
+    ['og:title', recommended.ogTitle],
+    ['og:description', recommended.ogDescription],
+    ['og:image', recommended.ogImage],
+    ['og:url', recommended.ogUrl],
+    ['og:type', recommended.ogType],
+    ['twitter:card', recommended.twitterCard]
+  ].filter(([, value]) => value);
+
+  return (
+    <div style={{ marginTop: '0.75rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <strong style={{ fontSize: '0.875rem', color: '#374151' }}>Social Share Preview</strong>
+        <button
+          onClick={() => setShowRecommended(!showRecommended)}
+          style={{
+            padding: '0.25rem 0.5rem',
+            fontSize: '0.75rem',
+            border: '1px solid #d1d5db',
+            borderRadius: '4px',
+            backgroundColor: 'white',
+            color: '#374151',
+            cursor: 'pointer'
+          }}
+        >
+          {showRecommended ? 'Show current' : 'Show recommended'}
+        </button>
+      </div>
+
+      <div style={{
+        maxWidth: '500px',
+        border: '1px solid #dadde1',
+        borderRadius: '6px',
+        overflow: 'hidden',
+        backgroundColor: 'white'
+      }}>
+        {preview.image ? (
+          <div style={{
+            aspectRatio: '1.91 / 1',
+            backgroundColor: '#f3f4f6',
+            backgroundImage: `url("${preview.image}")`,
+            backgroundSize: 'cover',
+            backgroundPosition: 'center'
+          }} />
+        ) : (
+          <div style={{
+            aspectRatio: '1.91 / 1',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            backgroundColor: '#f3f4f6',
+            color: '#9ca3af',
+            fontSize: '0.875rem'
+          }}>
+            No preview image
+          </div>
+        )}
+        <div style={{ padding: '0.5rem 0.75rem', backgroundColor: '#f2f3f5', borderTop: '1px solid #dadde1' }}>
+          <div style={{ fontSize: '0.75rem', color: '#606770' }}>{getDomain(preview.url)}</div>
+          <div style={{
+            fontSize: '1rem',
+            fontWeight: 600,
+            color: '#1d2129',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis'
+          }}>
+            {preview.title || 'Untitled'}
+          </div>
+          <div style={{
+            fontSize: '0.875rem',
+            color: '#606770',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis'
+          }}>
+            {preview.description}
+          </div>
+        </div>
+      </div>
+
+      {social.issues.length > 0 && (
+        <ul style={{ margin: '0.5rem 0 0 0', paddingLeft: '1.25rem', color: '#9a3412' }}>
+          {social.issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {showRecommended && social.issues.length > 0 && (
+        <pre style={{
+          margin: '0.5rem 0 0 0',
+          padding: '0.5rem',
+          backgroundColor: '#f3f4f6',
+          borderRadius: '4px',
+          fontSize: '0.75rem',
+          color: '#1f2937',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-all'
+        }}>
+          {recommendedTags
+            .map(([tag, value]) => `<meta ${tag.startsWith('og:') ? 'property' : 'name'}="${tag}" content="${value.replace(/"/g, '&quot;')}">`)
+            .join('\n')}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default SocialPreviewCard;
@@ -1,12 +1,178 @@
+export type PageSource = 'root' | 'sitemap' | 'link';
+
+export interface DiscoveryData {
+  robotsTxtFound: boolean;
+  userAgent: string;
+  sitemaps: string[];
+  sitemapUrlCount: number;
+  unlinkedSitemapUrls: string[];
+  disallowedUrls: string[];
+}
+
+export type QueryStringMode = 'keep' | 'strip' | 'skip';
+
+export type RenderMode = 'browser' | 'static' | 'auto';
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  queryStrings: QueryStringMode;
+  stripParams: string[];
+  concurrency: number;
+  crawlDelayMs: number;
+  renderMode: RenderMode;
+  checkExternalLinks: boolean;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface HttpInfo {
+  status: number;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+  responseTimeMs: number;
+  contentType: string;
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number | null;
+  reason: string;
+  external: boolean;
+  foundOn: string[];
+}
+
+export type CanonicalStatus = 'self' | 'mismatch' | 'missing';
+
+export interface DuplicateCluster {
+  type: 'title' | 'description' | 'content';
+  value: string;
+  urls: string[];
+}
+
+// Open Graph and Twitter Card meta tags as declared on the page
+export interface SocialTags {
+  openGraph: {
+    title: string;
+    description: string;
+    image: string;
+    imageWidth: number | null;
+    imageHeight: number | null;
+    url: string;
+    type: string;
+  };
+  twitter: {
+    card: string;
+    title: string;
+    description: string;
+    image: string;
+    site: string;
+  };
+}
+
+export interface SocialIssue {
+  tag: string;
+  type: 'missing' | 'invalid' | 'mismatch' | 'imageSize';
+  message: string;
+}
+
+export interface SocialRecommendations {
+  ogTitle: string;
+  ogDescription: string;
+  ogImage: string;
+  ogUrl: string;
+  ogType: string;
+  twitterCard: string;
+  twitterTitle: string;
+  twitterDescription: string;
+  twitterImage: string;
+}
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+export interface StructuredDataIssue {
+  type: string;
+  format: StructuredDataFormat;
+  severity: 'error' | 'warning';
+  property?: string;
+  message: string;
+}
+
+export interface RenderDifference {
+  element: 'title' | 'metaDescription' | 'canonical' | 'h1' | 'h2' | 'h3' | 'internalLinks' | 'structuredData';
+  change: 'added' | 'changed' | 'removed';
+  raw: string;
+  rendered: string;
+}
+
+export interface RenderingSummary {
+  pagesCompared: number;
+  pagesAffected: number;
+  elementCounts: Partial<Record<RenderDifference['element'], number>>;
+}
+
+export type IssueSeverity = 'high' | 'medium' | 'low';
+
+export type RuleCategory = 'metadata' | 'content' | 'images' | 'technical' | 'links' | 'structuredData';
+
+export interface SeoIssue {
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+  category: RuleCategory;
+  message: string;
+  fix: string;
+}
+
+// Per-scan overrides, keyed by rule id
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: IssueSeverity;
+  thresholds?: Record<string, number>;
+}
+
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface RuleDefinition {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: IssueSeverity;
+  description: string;
+  thresholds: Record<string, number>;
+}
+
+export interface IssueSummary {
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+  category: RuleCategory;
+  description: string;
+  pageCount: number;
+  urls: string[];
+}
+
+export interface SiteHealth {
+  score: number;
+  categories: Record<RuleCategory, number>;
+}
+
 export interface ScanData {
   pages: Array<{
     url: string;
+    source: PageSource;
     title: string;
     metaDescription: string;
     recommendations: {
       title: string;
       metaDescription: string;
       priority: 'high' | 'medium' | 'low';
+      social: SocialRecommendations;
     };
     images: Array<{
       src: string;
@@ -20,6 +186,31 @@ export interface ScanData {
     };
     wordCount: number;
     hasContent: boolean;
+    internalLinks: string[];
+    depth: number;
+    renderedWith: 'static' | 'browser';
+    http: HttpInfo;
+    canonical: {
+      url: string;
+      status: CanonicalStatus;
+    };
+    contentHash: string;
+    structuredDataCount: number;
+    social: SocialTags & {
+      issues: SocialIssue[];
+    };
+    structuredData: {
+      items: Array<{
+        format: StructuredDataFormat;
+        type: string;
+        properties: string[];
+      }>;
+      issues: StructuredDataIssue[];
+      suggestedJsonLd?: string;
+    };
+    renderDiff?: RenderDifference[];
+    issues: SeoIssue[];
+    score: number;
   }>;
   totalPages: number;
   pagesProcessed: number;
@@ -27,16 +218,99 @@ export interface ScanData {
   errors: Array<{
     url: string;
     reason: string;
+    status?: number;
+    redirectChain?: RedirectHop[];
   }>;
+  discovery?: DiscoveryData;
+  crawlOptions?: CrawlOptions;
+  duplicates?: DuplicateCluster[];
+  rendering?: RenderingSummary;
+  linkCheck?: {
+    checked: number;
+    externalChecked: boolean;
+    broken: BrokenLink[];
+  };
+  ruleSettings?: RuleSettings;
+  issueSummary?: IssueSummary[];
+  health?: SiteHealth;
   completedAt?: string;
 }
 
+export type ScanStatus = 'pending' | 'scanning' | 'paused' | 'cancelled' | 'completed' | 'failed';
+
 export interface ScanStatusResponse {
-  status: 'pending' | 'scanning' | 'completed' | 'failed';
+  status: ScanStatus;
   pagesProcessed: number;
   totalPages: number;
   currentPage?: string;
   errors: number;
+  queuePosition?: number; // 1-based place in line while the scan is waiting for a worker
+}
+
+export interface ScanControlResponse {
+  status: ScanStatus;
+  message: string;
+}
+
+export type ScanEventPayload =
+  | { type: 'page-started'; url: string; depth: number }
+  | { type: 'page-completed'; url: string; score: number; issues: Array<Pick<SeoIssue, 'ruleId' | 'title' | 'severity'>> }
+  | { type: 'page-failed'; url: string; reason: string }
+  | { type: 'status'; status: ScanStatusResponse };
+
+// Streamed to the browser while a scan runs; ids only increase so a reconnecting client can catch up
+export type ScanEvent = ScanEventPayload & { id: number; timestamp: string };
+
+export type ScanPageEvent = Exclude<ScanEvent, { type: 'status' }>;
+
+export type ReportFormat = 'docx' | 'pdf' | 'html' | 'json' | 'xlsx' | 'csv';
+
+// The spreadsheet exports have a sheet of pages and a sheet of images
+export type ReportSheet = 'pages' | 'images';
+
+// Report sections in their default order
+export type ReportSectionId =
+  | 'summary'
+  | 'changes'
+  | 'findings'
+  | 'pages'
+  | 'images'
+  | 'rendering'
+  | 'links'
+  | 'structuredData'
+  | 'recommendations';
+
+export interface BrandingContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+}
+
+// White-label settings an agency applies to the reports it hands to clients
+export interface BrandingSettings {
+  colors: BrandColors;
+  logo?: string; // data: URL of a PNG, JPEG or GIF
+  agencyName?: string;
+  clientName?: string;
+  contact?: BrandingContact;
+  introText?: string;
+  callToAction?: string;
+  sections?: ReportSectionId[]; // Which sections to include, in order; all when unset
+}
+
+export interface BrandingProfile extends BrandingSettings {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportOptions {
+  includeChanges?: boolean; // Word, PDF, HTML and JSON reports
+  format?: ReportFormat;
+  sheet?: ReportSheet; // CSV holds a single sheet
+  brandingProfileId?: string; // Word, PDF, HTML and JSON reports
 }
 
 export interface BrandColors {
@@ -48,6 +322,9 @@ export interface BrandColors {
 export interface StartScanRequest {
   url: string;
   brandColors?: BrandColors;
+  crawlOptions?: Partial<CrawlOptions>;
+  ruleSettings?: RuleSettings;
+  projectId?: string;
 }
 
 export interface StartScanResponse {
@@ -60,12 +337,57 @@ export interface ScanResultsResponse {
   url: string;
   status: string;
   scanData: ScanData;
+  projectId?: string;
   createdAt: string;
   completedAt?: string;
 }
 
 export interface ReportGenerateResponse {
   reportId: string;
-  downloadUrl: string;
+  downloadUrl: string; // Signed; stops working at expiresAt
+  fileName: string;
   expiresAt: string;
-}
\ No newline at end of file
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: string;
+  schedule: string | null;
+  lastScheduledAt?: string;
+  nextRunAt?: string;
+}
+
+export interface ScanHistoryEntry {
+  sessionId: string;
+  status: string;
+  createdAt: string;
+  completedAt?: string;
+  pagesProcessed: number;
+  healthScore?: number;
+}
+
+export interface ComparedIssue {
+  url: string;
+  ruleId: string;
+  title: string;
+  severity: IssueSeverity;
+}
+
+export interface MetadataChange {
+  url: string;
+  field: 'title' | 'metaDescription';
+  before: string;
+  after: string;
+}
+
+export interface ScanComparison {
+  base: ScanHistoryEntry;
+  current: ScanHistoryEntry;
+  newIssues: ComparedIssue[];
+  resolvedIssues: ComparedIssue[];
+  pagesAdded: string[];
+  pagesRemoved: string[];
+  metadataChanges: MetadataChange[];
+}
@@ -3,9 +3,20 @@ import {
   StartScanRequest, 
   StartScanResponse, 
   ScanStatusResponse, 
+  ScanControlResponse,
+  ScanEvent,
   ScanResultsResponse,
   ReportGenerateResponse,
-  BrandColors 
+  ReportOptions,
+  BrandColors,
+  RuleDefinition,
+  Project,
+  ScanHistoryEntry,
+  ScanComparison,
+  CrawlOptions,
+  RuleSettings,
+  BrandingProfile,
+  BrandingSettings
 } from '../types';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3000';
@@ -52,29 +63,115 @@ export const seoApi = {
     return response.data;
   },
 
+  // Stream live scan events. onError fires whenever the stream drops (the browser keeps retrying),
+  // so callers can fall back to polling. Returns a function that closes the stream.
+  subscribeToScan: (sessionId: string, onEvent: (event: ScanEvent) => void, onError: () => void): (() => void) => {
+    if (typeof EventSource === 'undefined') {
+      onError();
+      return () => undefined;
+    }
+    
+    const source = new EventSource(`${API_URL}/api/scan/${sessionId}/events`);
+    source.onmessage = (message) => onEvent(JSON.parse(message.data));
+    source.onerror = () => onError();
+    return () => source.close();
+  },
+
+  // Pause, resume or cancel a scan
+  controlScan: async (sessionId: string, action: 'pause' | 'resume' | 'cancel'): Promise<ScanControlResponse> => {
+    const response = await api.post(`/api/scan/${sessionId}/${action}`);
+    return response.data;
+  },
+
   // Get scan results
   getScanResults: async (sessionId: string): Promise<ScanResultsResponse> => {
     const response = await api.get(`/api/scan/${sessionId}/results`);
     return response.data;
   },
 
+  // List SEO rules with their default thresholds
+  getRules: async (): Promise<RuleDefinition[]> => {
+    const response = await api.get('/api/rules');
+    return response.data.rules;
+  },
+
+  // List projects with retained scan history
+  getProjects: async (): Promise<Project[]> => {
+    const response = await api.get('/api/projects');
+    return response.data.projects;
+  },
+
+  // Create a project for a site
+  createProject: async (name: string, url: string): Promise<Project> => {
+    const response = await api.post('/api/projects', { name, url });
+    return response.data.project;
+  },
+
+  // Get a project and its scan history, newest first
+  getProjectScans: async (projectId: string): Promise<{ project: Project; scans: ScanHistoryEntry[] }> => {
+    const response = await api.get(`/api/projects/${projectId}/scans`);
+    return response.data;
+  },
+
+  // Set or clear the recurring scan schedule of a project
+  updateSchedule: async (
+    projectId: string,
+    schedule: string | null,
+    crawlOptions?: CrawlOptions,
+    ruleSettings?: RuleSettings
+  ): Promise<Project> => {
+    const response = await api.put(`/api/projects/${projectId}/schedule`, { schedule, crawlOptions, ruleSettings });
+    return response.data.project;
+  },
+
+  // Compare two scans of the same project
+  compareScans: async (baseSessionId: string, currentSessionId: string): Promise<ScanComparison> => {
+    const response = await api.get('/api/scan/compare', {
+      params: { base: baseSessionId, current: currentSessionId }
+    });
+    return response.data;
+  },
+
+  // List saved report branding profiles
+  getBrandingProfiles: async (): Promise<BrandingProfile[]> => {
+    const response = await api.get('/api/branding');
+    return response.data.profiles;
+  },
+
+  // Save a new branding profile
+  createBrandingProfile: async (name: string, settings: BrandingSettings): Promise<BrandingProfile> => {
+    const response = await api.post('/api/branding', { name, ...settings });
+    return response.data.profile;
+  },
+
+  // Replace the settings of a branding profile
+  updateBrandingProfile: async (profileId: string, name: string, settings: BrandingSettings): Promise<BrandingProfile> => {
+    const response = await api.put(`/api/branding/${profileId}`, { name, ...settings });
+    return response.data.profile;
+  },
+
+  deleteBrandingProfile: async (profileId: string): Promise<void> => {
+    await api.delete(`/api/branding/${profileId}`);
+  },
+
   // Generate report
-  generateReport: async (sessionId: string, brandColors?: BrandColors): Promise<ReportGenerateResponse> => {
+  generateReport: async (sessionId: string, brandColors?: BrandColors, options: ReportOptions = {}): Promise<ReportGenerateResponse> => {
     const response = await api.post('/api/report/generate', {
       sessionId,
-      brandColors
+      brandColors,
+      ...options
     });
     return response.data;
   },
 
-  // Get report download URL
-  getDownloadUrl: (reportId: string): string => {
-    return `${API_URL}/api/report/${reportId}/download`;
+  // Absolute URL of a signed download link returned by generateReport
+  getDownloadUrl: (downloadUrl: string): string => {
+    return `${API_URL}${downloadUrl}`;
   },
 
-  // Download report
-  downloadReport: async (reportId: string): Promise<void> => {
-    const response = await api.get(`/api/report/${reportId}/download`, {
+  // Download report through its signed link, which works until the report expires
+  downloadReport: async (downloadUrl: string, fileName: string): Promise<void> => {
+    const response = await api.get(downloadUrl, {
       responseType: 'blob'
     });
     
@@ -82,7 +179,7 @@ export const seoApi = {
     const url = window.URL.createObjectURL(new Blob([response.data]));
     const link = document.createElement('a');
     link.href = url;
-    link.setAttribute('download', `seo-report-${new Date().toISOString().split('T')[0]}.docx`);
+    link.setAttribute('download', fileName);
     document.body.appendChild(link);
     link.click();
     link.remove();